@@ -0,0 +1,294 @@
+import { createHash, createHmac, randomUUID } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  BatchRenderResponse,
+  RenderErrorResponse,
+  RenderResponse,
+} from '../../src/shared/types/render.type.js';
+import {
+  SIGNATURE_HEADERS,
+  getSignaturePayload,
+} from '../../src/shared/signing/request.signing.js';
+import { createApp } from './app.js';
+import { ImageFetchError, type FetchedImage, type ImageFetcher } from './fetcher.js';
+import { renderCaption, renderCaptions } from './renderer.js';
+import { RequestVerifier } from './signing.js';
+import type { RenderedImage } from './types.js';
+
+// node-canvas and fabric aren't needed to check the API, so rendering is stubbed
+vi.mock('./renderer.js', () => ({ renderCaption: vi.fn(), renderCaptions: vi.fn() }));
+
+const KEY = { id: 'test', secret: 'test-secret' };
+
+const SOURCE: FetchedImage = {
+  data: new Uint8Array([1, 2, 3]),
+  contentType: 'image/png',
+  width: 730,
+  height: 430,
+};
+
+const RENDERED: RenderedImage = {
+  data: Buffer.from('rendered'),
+  contentType: 'image/jpeg',
+  width: 730,
+  height: 430,
+  renderMs: 12,
+};
+
+const fetchImage = vi.fn<ImageFetcher['fetchImage']>();
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = createApp({
+    verifier: new RequestVerifier({
+      keys: new Map([[KEY.id, KEY.secret]]),
+      maxAgeMs: 60_000,
+      maxNonces: 1000,
+    }),
+    render: {
+      maxOutputSize: 2048,
+      gifMaxFrames: 150,
+      gifMaxOutputSize: 640,
+      gifMaxOutputBytes: 3_145_728,
+    },
+    batchMaxCaptions: 2,
+    fetcher: { fetchImage } as unknown as ImageFetcher,
+  });
+
+  server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  fetchImage.mockReset().mockResolvedValue(SOURCE);
+  vi.mocked(renderCaption).mockReset().mockResolvedValue(RENDERED);
+  vi.mocked(renderCaptions)
+    .mockReset()
+    .mockImplementation(async (_source, captions) =>
+      captions.map(() => ({ status: 'fulfilled', value: RENDERED }))
+    );
+});
+
+// Signature headers of a request, as the Devvit app sends them
+function sign(path: string, payload: string): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const nonce = randomUUID();
+  const bodyHash = createHash('sha256').update(payload).digest('hex');
+  const signedPayload = getSignaturePayload({ method: 'POST', path, timestamp, nonce, bodyHash });
+
+  return {
+    [SIGNATURE_HEADERS.keyId]: KEY.id,
+    [SIGNATURE_HEADERS.timestamp]: String(timestamp),
+    [SIGNATURE_HEADERS.nonce]: nonce,
+    [SIGNATURE_HEADERS.signature]: createHmac('sha256', KEY.secret)
+      .update(signedPayload)
+      .digest('hex'),
+  };
+}
+
+// Sends a JSON request the way the Devvit app does, signed unless told otherwise
+async function post(
+  path: string,
+  body: unknown,
+  options: { signed?: boolean; accept?: string; headers?: Record<string, string> } = {}
+) {
+  const payload = JSON.stringify(body);
+  const url = `${baseUrl}${path}`;
+
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: options.accept ?? 'application/json',
+      ...(options.signed === false ? {} : sign(path, payload)),
+      ...options.headers,
+    },
+    body: payload,
+  });
+}
+
+const RENDER_REQUEST = {
+  imageUrl: 'https://i.redd.it/meme.png',
+  caption: { topCaption: '  Top text  ', username: 'alice' },
+};
+
+describe('POST /generateCaption', () => {
+  it('answers JSON with the rendered image when asked for', async () => {
+    const response = await post('/generateCaption', RENDER_REQUEST);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()) as RenderResponse).toEqual({
+      success: true,
+      image: `data:image/jpeg;base64,${RENDERED.data.toString('base64')}`,
+      contentType: 'image/jpeg',
+      width: 730,
+      height: 430,
+      bytes: RENDERED.data.length,
+      renderMs: 12,
+    });
+    expect(fetchImage).toHaveBeenCalledWith('https://i.redd.it/meme.png');
+    expect(vi.mocked(renderCaption).mock.calls[0]?.slice(1, 3)).toEqual([
+      { topCaption: 'Top text', username: 'alice' },
+      expect.objectContaining({ fitMode: 'fit', maxOutputSize: 2048 }),
+    ]);
+  });
+
+  it('answers the image itself by default', async () => {
+    const response = await post('/generateCaption', RENDER_REQUEST, { accept: 'image/*' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('image/jpeg');
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(RENDERED.data);
+  });
+
+  it('refuses unsigned requests', async () => {
+    const response = await post('/generateCaption', RENDER_REQUEST, {
+      signed: false,
+      headers: { 'X-Request-Id': 'req-1' },
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('x-request-id')).toBe('req-1');
+    expect((await response.json()) as RenderErrorResponse).toEqual({
+      success: false,
+      code: 'MISSING_SIGNATURE',
+      message: 'Request is not signed',
+      requestId: 'req-1',
+    });
+    expect(fetchImage).not.toHaveBeenCalled();
+  });
+
+  it('refuses requests sent twice', async () => {
+    const payload = JSON.stringify(RENDER_REQUEST);
+    const url = `${baseUrl}/generateCaption`;
+    const init = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...sign('/generateCaption', payload),
+      },
+      body: payload,
+    };
+
+    expect((await fetch(url, init)).status).toBe(200);
+    const replayed = await fetch(url, init);
+
+    expect(replayed.status).toBe(401);
+    expect(await replayed.json()).toMatchObject({ code: 'REPLAYED_REQUEST' });
+  });
+
+  it('lists the field a caption fails the shared validation on', async () => {
+    const response = await post('/generateCaption', {
+      ...RENDER_REQUEST,
+      caption: { topCaption: 'Top text', styles: { top: { fontSize: 200 } } },
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      code: 'INVALID_REQUEST',
+      fields: [
+        {
+          field: 'caption.styles.top',
+          message: 'styles.top.fontSize must be an integer from 16 to 48',
+        },
+      ],
+    });
+    expect(renderCaption).not.toHaveBeenCalled();
+  });
+
+  it('refuses fields outside the request type', async () => {
+    const response = await post('/generateCaption', { ...RENDER_REQUEST, debug: true });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      code: 'INVALID_REQUEST',
+      fields: [{ field: 'debug' }],
+    });
+  });
+
+  it('answers image errors with their own status and code', async () => {
+    fetchImage.mockRejectedValue(
+      new ImageFetchError('HOST_NOT_ALLOWED', 'Images from example.com are not allowed')
+    );
+
+    const response = await post('/generateCaption', {
+      ...RENDER_REQUEST,
+      imageUrl: 'https://example.com/meme.png',
+    });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({
+      code: 'HOST_NOT_ALLOWED',
+      message: 'Images from example.com are not allowed',
+    });
+  });
+
+  it('hides the message of unexpected errors', async () => {
+    vi.mocked(renderCaption).mockRejectedValue(new Error('canvas exploded'));
+
+    const response = await post('/generateCaption', RENDER_REQUEST);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({
+      code: 'INTERNAL_ERROR',
+      message: 'Internal server error',
+    });
+  });
+});
+
+describe('POST /generateCaptions', () => {
+  it('answers one result per caption, failures included', async () => {
+    vi.mocked(renderCaptions).mockResolvedValue([
+      { status: 'fulfilled', value: RENDERED },
+      { status: 'rejected', reason: new Error('canvas exploded') },
+    ]);
+
+    const response = await post('/generateCaptions', {
+      imageUrl: 'https://i.redd.it/meme.png',
+      captions: [{ topCaption: 'First' }, { bottomCaption: 'Second' }],
+      fitMode: 'cover',
+    });
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as BatchRenderResponse;
+    expect(body.results).toEqual([
+      expect.objectContaining({ success: true, contentType: 'image/jpeg' }),
+      { success: false, code: 'INTERNAL_ERROR', message: 'Internal server error' },
+    ]);
+    expect(fetchImage).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(renderCaptions).mock.calls[0]?.[2]).toMatchObject({ fitMode: 'cover' });
+  });
+
+  it('refuses more captions than a batch takes', async () => {
+    const response = await post('/generateCaptions', {
+      imageUrl: 'https://i.redd.it/meme.png',
+      captions: [{ topCaption: 'One' }, { topCaption: 'Two' }, { topCaption: 'Three' }],
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ fields: [{ field: 'captions' }] });
+  });
+});
+
+it('answers unknown endpoints with a 404 envelope', async () => {
+  const response = await post('/render', RENDER_REQUEST);
+
+  expect(response.status).toBe(404);
+  expect(await response.json()).toMatchObject({
+    success: false,
+    code: 'NOT_FOUND',
+    message: 'No endpoint at POST /render',
+  });
+});
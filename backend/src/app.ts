@@ -0,0 +1,204 @@
+import express, { Application, Request, Response, NextFunction } from 'express';
+import cors from 'cors';
+import { randomUUID } from 'node:crypto';
+import { RenderOptions, RenderedImage } from './types.js';
+import { renderCaption, renderCaptions } from './renderer.js';
+import { ImageFetcher } from './fetcher.js';
+import { toOutput } from './output.js';
+import { ApiError } from './errors.js';
+import { RequestVerifier } from './signing.js';
+import { parseBatchRenderRequest, parseRenderRequest } from './validation.js';
+import type {
+  BatchRenderResponse,
+  RenderErrorResponse,
+  RenderFailure,
+  RenderResponse,
+} from '../../src/shared/types/render.type.js';
+import type { FitMode } from '../../src/shared/types/post.type.js';
+import { DEFAULT_FIT_MODE } from '../../src/shared/layout/caption.layout.js';
+
+export type AppConfig = {
+  // Checks that requests are signed by the Devvit app
+  verifier: RequestVerifier;
+  // Render limits, the fit mode coming from each request
+  render: Omit<RenderOptions, 'fitMode'>;
+  // Most captions rendered by one batch request
+  batchMaxCaptions: number;
+  fetcher: ImageFetcher;
+};
+
+// Request with the body it was signed over, kept by the JSON parser
+type SignedRequest = Request & { rawBody?: Buffer };
+
+// Request IDs sent by callers are kept when they look like one, so logs can be matched across services
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Creates the render API, without listening, so it can also run in-process
+ */
+export function createApp(config: AppConfig): Application {
+  const app: Application = express();
+
+  // -------------------
+  // Middleware
+  // -------------------
+  app.use(assignRequestId);
+  app.use(
+    express.json({
+      // Signatures cover the raw body
+      verify: (req, _res, buf) => {
+        (req as SignedRequest).rawBody = buf;
+      },
+    })
+  );
+  app.use(cors({ exposedHeaders: ['X-Request-Id'] }));
+
+  // Checks the request is signed by the Devvit app, and wasn't sent before
+  function requireSignature(req: Request, _res: Response, next: NextFunction) {
+    config.verifier.verify({
+      method: req.method,
+      path: req.originalUrl,
+      header: (name) => req.get(name),
+      body: (req as SignedRequest).rawBody ?? new Uint8Array(),
+    });
+    next();
+  }
+
+  function getRenderOptions(fitMode: FitMode = DEFAULT_FIT_MODE): RenderOptions {
+    return { ...config.render, fitMode };
+  }
+
+  // -------------------
+  // Endpoints
+  // -------------------
+  app.post('/generateCaption', requireSignature, async (req: Request, res: Response) => {
+    const request = parseRenderRequest(req.body);
+    const output = toOutput(request.output);
+    const source = await config.fetcher.fetchImage(request.imageUrl);
+
+    const image = await renderCaption(
+      source,
+      request.caption,
+      getRenderOptions(request.fitMode),
+      output
+    );
+
+    // Binary image by default, JSON with the image as a Base64 data URL when asked for
+    if (req.accepts(['image/*', 'application/json']) === 'application/json') {
+      res.json(toRenderResponse(image));
+      return;
+    }
+
+    res.type(image.contentType).send(image.data);
+  });
+
+  // Renders every caption over one image, each caption succeeding or failing on its own
+  app.post('/generateCaptions', requireSignature, async (req: Request, res: Response) => {
+    const request = parseBatchRenderRequest(req.body, config.batchMaxCaptions);
+    const output = toOutput(request.output);
+    const source = await config.fetcher.fetchImage(request.imageUrl);
+
+    const results = await renderCaptions(
+      source,
+      request.captions,
+      getRenderOptions(request.fitMode),
+      output
+    );
+
+    const body: BatchRenderResponse = {
+      success: true,
+      results: results.map((result, index) => {
+        if (result.status === 'fulfilled') return toRenderResponse(result.value);
+
+        const error = toApiError(result.reason);
+        logError(res, error, result.reason, `caption ${index}`);
+        const failure: RenderFailure = { success: false, code: error.code, message: error.message };
+        return failure;
+      }),
+    };
+    res.json(body);
+  });
+
+  // -------------------
+  // 404 Handler
+  // -------------------
+  app.use((req: Request, _res: Response, _next: NextFunction) => {
+    throw new ApiError(404, 'NOT_FOUND', `No endpoint at ${req.method} ${req.path}`);
+  });
+
+  // -------------------
+  // Error Handler
+  // -------------------
+  app.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
+    const error = toApiError(err);
+    logError(res, error, err, `${req.method} ${req.path}`);
+
+    const body: RenderErrorResponse = {
+      success: false,
+      code: error.code,
+      message: error.message,
+      requestId: res.locals.requestId,
+      fields: error.fields,
+    };
+    res.status(error.status).json(body);
+  });
+
+  return app;
+}
+
+// -------------------
+// Helpers
+// -------------------
+
+// Takes the caller's X-Request-Id or makes one, sending it back with the response
+function assignRequestId(req: Request, res: Response, next: NextFunction) {
+  const providedId = req.get('x-request-id');
+  const requestId = providedId && REQUEST_ID_PATTERN.test(providedId) ? providedId : randomUUID();
+
+  res.locals.requestId = requestId;
+  res.set('X-Request-Id', requestId);
+  next();
+}
+
+function toRenderResponse(image: RenderedImage): RenderResponse {
+  return {
+    success: true,
+    image: `data:${image.contentType};base64,${image.data.toString('base64')}`,
+    contentType: image.contentType,
+    width: image.width,
+    height: image.height,
+    bytes: image.data.length,
+    renderMs: image.renderMs,
+  };
+}
+
+// Errors the API didn't raise itself are internal, their messages only sent back in development
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  // Errors of the JSON body parser
+  const type = (error as { type?: unknown } | null)?.type;
+  if (type === 'entity.parse.failed') {
+    return new ApiError(400, 'INVALID_JSON', 'Request body is not valid JSON');
+  }
+  if (type === 'entity.too.large') {
+    return new ApiError(413, 'BODY_TOO_LARGE', 'Request body is too large');
+  }
+
+  return new ApiError(
+    500,
+    'INTERNAL_ERROR',
+    process.env.NODE_ENV === 'development' && error instanceof Error
+      ? error.message
+      : 'Internal server error'
+  );
+}
+
+function logError(res: Response, error: ApiError, cause: unknown, context: string) {
+  const prefix = `[${res.locals.requestId}] ${context}`;
+  if (error.status >= 500) {
+    console.error(`${prefix} failed:`, cause);
+  } else {
+    console.warn(`${prefix} rejected: ${error.status} ${error.code} ${error.message}`);
+  }
+}
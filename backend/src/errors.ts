@@ -0,0 +1,26 @@
+import type { FieldIssue } from '../../src/shared/types/render.type.js';
+
+/**
+ * Error the API answers with its own status and code, its message being safe to send back
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly fields?: FieldIssue[]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Error thrown when a request body doesn't match its schema, listing every bad field
+ */
+export class ValidationError extends ApiError {
+  constructor(fields: FieldIssue[]) {
+    super(400, 'INVALID_REQUEST', 'Request body is invalid', fields);
+    this.name = 'ValidationError';
+  }
+}
@@ -0,0 +1,103 @@
+import { lookup } from 'node:dns/promises';
+import sharp from 'sharp';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ImageFetcher } from './fetcher.js';
+
+vi.mock('node:dns/promises', () => ({ lookup: vi.fn() }));
+
+// Addresses each host resolves to
+const HOSTS: Record<string, string> = {
+  'i.redd.it': '151.101.1.140',
+  'preview.redd.it': '151.101.65.140',
+  'internal.redd.it': '10.0.0.5',
+  'metadata.redd.it': '::ffff:169.254.169.254',
+};
+
+const fetchMock = vi.fn<typeof fetch>();
+
+const createFetcher = () =>
+  new ImageFetcher({
+    allowedHosts: ['redd.it'],
+    maxBytes: 1024 * 1024,
+    timeoutMs: 1000,
+    maxDimension: 100,
+    maxPixels: 10_000,
+    cacheBytes: 0,
+    cacheTtlMs: 0,
+  });
+
+const redirect = (location: string) => new Response(null, { status: 302, headers: { location } });
+
+const requestedUrls = () => fetchMock.mock.calls.map(([url]) => String(url));
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+  vi.mocked(lookup).mockImplementation((async (host: string) => {
+    const address = HOSTS[host];
+    if (!address) throw new Error(`getaddrinfo ENOTFOUND ${host}`);
+    return [{ address, family: address.includes(':') ? 6 : 4 }];
+  }) as unknown as typeof lookup);
+});
+
+describe('fetchImage', () => {
+  it('follows redirects between allowed hosts', async () => {
+    const png = await sharp({
+      create: { width: 2, height: 1, channels: 3, background: 'red' },
+    })
+      .png()
+      .toBuffer();
+    fetchMock
+      .mockResolvedValueOnce(redirect('https://preview.redd.it/meme.png'))
+      .mockResolvedValueOnce(new Response(png, { headers: { 'content-type': 'image/png' } }));
+
+    const image = await createFetcher().fetchImage('https://i.redd.it/meme.png');
+
+    expect(image).toMatchObject({ contentType: 'image/png', width: 2, height: 1 });
+    expect(requestedUrls()).toEqual([
+      'https://i.redd.it/meme.png',
+      'https://preview.redd.it/meme.png',
+    ]);
+    expect(fetchMock.mock.calls[0]![1]).toMatchObject({ redirect: 'manual' });
+  });
+
+  it('never requests a redirect to another host', async () => {
+    fetchMock.mockResolvedValueOnce(redirect('https://example.com/meme.png'));
+
+    await expect(createFetcher().fetchImage('https://i.redd.it/meme.png')).rejects.toMatchObject({
+      code: 'HOST_NOT_ALLOWED',
+    });
+    expect(requestedUrls()).toEqual(['https://i.redd.it/meme.png']);
+  });
+
+  it('never requests allowed hosts resolving to private addresses', async () => {
+    fetchMock.mockResolvedValueOnce(redirect('https://metadata.redd.it/latest'));
+
+    await expect(
+      createFetcher().fetchImage('https://internal.redd.it/meme.png')
+    ).rejects.toMatchObject({ code: 'HOST_NOT_ALLOWED' });
+    await expect(createFetcher().fetchImage('https://i.redd.it/meme.png')).rejects.toMatchObject({
+      code: 'HOST_NOT_ALLOWED',
+    });
+    expect(requestedUrls()).toEqual(['https://i.redd.it/meme.png']);
+  });
+
+  it('never requests redirects away from https', async () => {
+    fetchMock.mockResolvedValueOnce(redirect('http://preview.redd.it/meme.png'));
+
+    await expect(createFetcher().fetchImage('https://i.redd.it/meme.png')).rejects.toMatchObject({
+      code: 'SOURCE_UNAVAILABLE',
+    });
+    expect(requestedUrls()).toHaveLength(1);
+  });
+
+  it('gives up after a few redirects', async () => {
+    fetchMock.mockImplementation(async () => redirect('/again'));
+
+    await expect(createFetcher().fetchImage('https://i.redd.it/meme.png')).rejects.toMatchObject({
+      code: 'SOURCE_UNAVAILABLE',
+      message: 'Image host redirected more than 3 times',
+    });
+    expect(requestedUrls()).toHaveLength(4);
+  });
+});
@@ -0,0 +1,382 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import sharp, { type Metadata } from 'sharp';
+import { ApiError } from './errors.js';
+
+// Formats the renderer draws, by the format names sharp reads from the image header
+const IMAGE_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+// Redirects followed before giving up on an image, each one checked like the original URL
+const MAX_REDIRECTS = 3;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Addresses images are never fetched from: private networks, loopback, link-local (cloud
+// metadata endpoints included) and other ranges that aren't reachable on the public internet
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is in a private or otherwise non-public range, IPv4-mapped IPv6
+ * addresses being checked as the IPv4 address they carry
+ */
+function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped, 'ipv4');
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+export type FetcherOptions = {
+  // Hosts images may come from, subdomains included ('*' allows every host)
+  allowedHosts: string[];
+  // Largest image download, in bytes
+  maxBytes: number;
+  timeoutMs: number;
+  // Longest side and pixel count of images, checked from the header before anything is decoded
+  maxDimension: number;
+  maxPixels: number;
+  // Memory taken by cached images, in bytes (0 turns the cache off)
+  cacheBytes: number;
+  // Cached images are used without asking the host again for this long, then revalidated by ETag
+  cacheTtlMs: number;
+};
+
+export type FetchedImage = {
+  data: Uint8Array;
+  contentType: string;
+  width: number;
+  height: number;
+};
+
+type CacheEntry = FetchedImage & {
+  etag?: string;
+  fetchedAt: number;
+};
+
+export type ImageFetchErrorCode =
+  | 'INVALID_URL'
+  | 'HOST_NOT_ALLOWED'
+  | 'SOURCE_UNAVAILABLE'
+  | 'SOURCE_TIMEOUT'
+  | 'SOURCE_TOO_LARGE'
+  | 'UNSUPPORTED_TYPE'
+  | 'INVALID_IMAGE'
+  | 'IMAGE_TOO_LARGE';
+
+const ERROR_STATUSES: Record<ImageFetchErrorCode, number> = {
+  INVALID_URL: 400,
+  HOST_NOT_ALLOWED: 403,
+  SOURCE_UNAVAILABLE: 422,
+  SOURCE_TIMEOUT: 408,
+  SOURCE_TOO_LARGE: 413,
+  UNSUPPORTED_TYPE: 415,
+  INVALID_IMAGE: 422,
+  IMAGE_TOO_LARGE: 413,
+};
+
+/**
+ * Error thrown when the source image can't be used, with the HTTP status it maps to
+ */
+export class ImageFetchError extends ApiError {
+  declare readonly code: ImageFetchErrorCode;
+
+  constructor(code: ImageFetchErrorCode, message: string) {
+    super(ERROR_STATUSES[code], code, message);
+    this.name = 'ImageFetchError';
+  }
+}
+
+/**
+ * Downloads source images from the allowed hosts, within the size and time limits, keeping the
+ * most recently used ones in memory
+ */
+export class ImageFetcher {
+  private readonly cache = new Map<string, CacheEntry>();
+  private cachedBytes = 0;
+
+  constructor(private readonly options: FetcherOptions) {}
+
+  /**
+   * Fetches an image, checking its host, size, type and dimensions
+   */
+  async fetchImage(imageUrl: unknown): Promise<FetchedImage> {
+    const url = this.parseUrl(imageUrl);
+    const cached = this.cache.get(url.href);
+
+    if (cached && Date.now() - cached.fetchedAt < this.options.cacheTtlMs) {
+      this.touch(url.href, cached);
+      return cached;
+    }
+
+    let response: Response;
+    try {
+      response = await this.request(url, cached?.etag);
+    } catch (error) {
+      throw this.toFetchError(error, url);
+    }
+
+    if (response.status === 304 && cached) {
+      cached.fetchedAt = Date.now();
+      this.touch(url.href, cached);
+      return cached;
+    }
+    if (!response.ok) {
+      throw new ImageFetchError(
+        'SOURCE_UNAVAILABLE',
+        `Image host answered ${response.status} ${response.statusText}`
+      );
+    }
+
+    const contentType = response.headers.get('content-type')?.split(';')[0]?.trim();
+    if (contentType && !Object.values(IMAGE_TYPES).includes(contentType)) {
+      throw new ImageFetchError('UNSUPPORTED_TYPE', `Unsupported image type ${contentType}`);
+    }
+
+    const data = await this.readBody(response, url);
+    const image = await this.checkImage(data);
+
+    this.store(url.href, {
+      ...image,
+      etag: response.headers.get('etag') ?? undefined,
+      fetchedAt: Date.now(),
+    });
+
+    return image;
+  }
+
+  /**
+   * Parses the image URL, which must be https on an allowed host
+   */
+  private parseUrl(imageUrl: unknown): URL {
+    if (typeof imageUrl !== 'string') {
+      throw new ImageFetchError('INVALID_URL', 'imageUrl must be a string');
+    }
+
+    let url: URL;
+    try {
+      url = new URL(imageUrl);
+    } catch {
+      throw new ImageFetchError('INVALID_URL', 'imageUrl is not a valid URL');
+    }
+    if (url.protocol !== 'https:') {
+      throw new ImageFetchError('INVALID_URL', 'imageUrl must use https');
+    }
+
+    this.checkHost(url);
+    return url;
+  }
+
+  /**
+   * Requests an image, following redirects one at a time so every hop is checked for its host
+   * and addresses before anything is sent to it
+   */
+  private async request(url: URL, etag: string | undefined): Promise<Response> {
+    const signal = AbortSignal.timeout(this.options.timeoutMs);
+    let target = url;
+
+    for (let redirects = 0; ; redirects++) {
+      await this.checkAddresses(target);
+
+      const response = await fetch(target, {
+        headers: etag ? { 'If-None-Match': etag } : {},
+        redirect: 'manual',
+        signal,
+      });
+      if (!REDIRECT_STATUSES.includes(response.status)) return response;
+
+      await response.body?.cancel();
+      const location = response.headers.get('location');
+      if (!location) {
+        throw new ImageFetchError('SOURCE_UNAVAILABLE', 'Image host redirected nowhere');
+      }
+      if (redirects === MAX_REDIRECTS) {
+        throw new ImageFetchError(
+          'SOURCE_UNAVAILABLE',
+          `Image host redirected more than ${MAX_REDIRECTS} times`
+        );
+      }
+
+      // Redirects must stay on https and on the allowed hosts
+      target = new URL(location, target);
+      if (target.protocol !== 'https:') {
+        throw new ImageFetchError('SOURCE_UNAVAILABLE', 'Image host redirected away from https');
+      }
+      this.checkHost(target);
+    }
+  }
+
+  /**
+   * Resolves the host of a URL, refusing it when any of its addresses is private, so allowed
+   * hosts can't point requests at the backend's own network
+   */
+  private async checkAddresses(url: URL): Promise<void> {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+
+    let addresses: string[];
+    if (isIP(host)) {
+      addresses = [host];
+    } else {
+      try {
+        addresses = (await lookup(host, { all: true })).map(({ address }) => address);
+      } catch {
+        throw new ImageFetchError('SOURCE_UNAVAILABLE', `Image host ${host} could not be found`);
+      }
+    }
+
+    if (addresses.some(isPrivateAddress)) {
+      throw new ImageFetchError('HOST_NOT_ALLOWED', `Images from ${host} are not allowed`);
+    }
+  }
+
+  private checkHost(url: URL): void {
+    const { allowedHosts } = this.options;
+    if (allowedHosts.includes('*')) return;
+
+    const host = url.hostname.toLowerCase();
+    const allowed = allowedHosts.some(
+      (allowedHost) => host === allowedHost || host.endsWith(`.${allowedHost}`)
+    );
+    if (!allowed) {
+      throw new ImageFetchError('HOST_NOT_ALLOWED', `Images from ${host} are not allowed`);
+    }
+  }
+
+  /**
+   * Reads the response body, stopping as soon as it goes over the byte limit
+   */
+  private async readBody(response: Response, url: URL): Promise<Uint8Array> {
+    const { maxBytes } = this.options;
+    const tooLarge = () =>
+      new ImageFetchError('SOURCE_TOO_LARGE', `Image is larger than ${maxBytes} bytes`);
+
+    const contentLength = Number(response.headers.get('content-length'));
+    if (contentLength > maxBytes) throw tooLarge();
+    if (!response.body) {
+      throw new ImageFetchError('SOURCE_UNAVAILABLE', 'Image host sent no body');
+    }
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body.getReader();
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        size += value.byteLength;
+        if (size > maxBytes) {
+          await reader.cancel();
+          throw tooLarge();
+        }
+        chunks.push(value);
+      }
+    } catch (error) {
+      throw this.toFetchError(error, url);
+    }
+
+    return new Uint8Array(Buffer.concat(chunks, size));
+  }
+
+  /**
+   * Reads the image header, so decompression bombs are refused before they are decoded
+   */
+  private async checkImage(data: Uint8Array): Promise<FetchedImage> {
+    let metadata: Metadata;
+    try {
+      metadata = await sharp(data).metadata();
+    } catch {
+      throw new ImageFetchError('INVALID_IMAGE', 'Image could not be read');
+    }
+
+    const contentType = metadata.format && IMAGE_TYPES[metadata.format];
+    if (!contentType) {
+      throw new ImageFetchError(
+        'UNSUPPORTED_TYPE',
+        `Unsupported image format ${metadata.format ?? 'unknown'}`
+      );
+    }
+
+    const { width = 0, height = 0 } = metadata;
+    if (width === 0 || height === 0) {
+      throw new ImageFetchError('INVALID_IMAGE', 'Image has no size');
+    }
+
+    const { maxDimension, maxPixels } = this.options;
+    if (Math.max(width, height) > maxDimension || width * height > maxPixels) {
+      throw new ImageFetchError(
+        'IMAGE_TOO_LARGE',
+        `Image is ${width}x${height}, the limits are ${maxDimension} pixels per side and ${maxPixels} pixels`
+      );
+    }
+
+    return { data, contentType, width, height };
+  }
+
+  private toFetchError(error: unknown, url: URL): Error {
+    if (error instanceof ImageFetchError) return error;
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      return new ImageFetchError(
+        'SOURCE_TIMEOUT',
+        `Image took longer than ${this.options.timeoutMs}ms to download`
+      );
+    }
+    return new ImageFetchError(
+      'SOURCE_UNAVAILABLE',
+      `Image could not be downloaded from ${url.hostname}`
+    );
+  }
+
+  // ------------------------------------------ Cache (a Map keeps insertion order, oldest first)
+
+  private touch(key: string, entry: CacheEntry): void {
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+  }
+
+  private store(key: string, entry: CacheEntry): void {
+    const { cacheBytes } = this.options;
+    if (entry.data.byteLength > cacheBytes) return;
+
+    const previous = this.cache.get(key);
+    if (previous) {
+      this.cachedBytes -= previous.data.byteLength;
+      this.cache.delete(key);
+    }
+
+    this.cache.set(key, entry);
+    this.cachedBytes += entry.data.byteLength;
+
+    for (const [oldestKey, oldest] of this.cache) {
+      if (this.cachedBytes <= cacheBytes) break;
+      this.cache.delete(oldestKey);
+      this.cachedBytes -= oldest.data.byteLength;
+    }
+  }
+}
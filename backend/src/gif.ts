@@ -0,0 +1,114 @@
+import gifenc from 'gifenc';
+import { GifReader } from 'omggif';
+import { ApiError } from './errors.js';
+
+// gifenc only has a default export when imported from an ES module
+const { GIFEncoder, applyPalette, quantize } = gifenc;
+
+// Colors of the palette each output frame is reduced to
+const MAX_COLORS = 256;
+
+// Disposal methods of the frames, telling how the canvas is left for the next one
+const DISPOSE_BACKGROUND = 2;
+const DISPOSE_PREVIOUS = 3;
+
+export type GifFrame = {
+  // Full canvas RGBA pixels with the frame drawn, only valid until the next frame is read
+  pixels: Uint8ClampedArray;
+  // Frame delay, in milliseconds
+  delay: number;
+};
+
+export type GifSource = {
+  width: number;
+  height: number;
+  // -1 plays once, 0 loops forever, above 0 loops that many times
+  repeat: number;
+  frames: Iterable<GifFrame>;
+};
+
+/**
+ * Error thrown when an animated GIF goes over one of the render limits
+ */
+export class GifLimitError extends ApiError {
+  constructor(message: string) {
+    super(413, 'GIF_TOO_LARGE', message);
+    this.name = 'GifLimitError';
+  }
+}
+
+/**
+ * Tells whether image data is a GIF, from its signature
+ */
+export function isGif(data: Uint8Array): boolean {
+  // "GIF8", shared by the GIF87a and GIF89a versions
+  return data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46 && data[3] === 0x38;
+}
+
+/**
+ * Opens a GIF, checking its frame count before any frame is decoded
+ *
+ * Frames are decoded one at a time onto a single canvas, so memory stays at one frame whatever
+ * the length of the GIF.
+ */
+export function openGif(data: Uint8Array, maxFrames: number): GifSource {
+  const reader = new GifReader(data);
+  const frameCount = reader.numFrames();
+
+  if (frameCount > maxFrames) {
+    throw new GifLimitError(`GIF has ${frameCount} frames, the limit is ${maxFrames}`);
+  }
+
+  // No loop extension means the GIF plays once
+  const loopCount = reader.loopCount() as number | null;
+
+  return {
+    width: reader.width,
+    height: reader.height,
+    repeat: loopCount === null ? -1 : loopCount,
+    frames: readFrames(reader),
+  };
+}
+
+/**
+ * Composites the frames of a GIF in order, applying the disposal of each one after it is shown
+ */
+function* readFrames(reader: GifReader): Generator<GifFrame> {
+  const pixels = new Uint8ClampedArray(reader.width * reader.height * 4);
+
+  for (let index = 0; index < reader.numFrames(); index++) {
+    const info = reader.frameInfo(index);
+    const previous = info.disposal === DISPOSE_PREVIOUS ? pixels.slice() : undefined;
+
+    reader.decodeAndBlitFrameRGBA(index, pixels);
+    // Delays are stored in hundredths of a second
+    yield { pixels, delay: info.delay * 10 };
+
+    if (info.disposal === DISPOSE_BACKGROUND) {
+      for (let y = info.y; y < info.y + info.height; y++) {
+        const start = (y * reader.width + info.x) * 4;
+        pixels.fill(0, start, start + info.width * 4);
+      }
+    } else if (previous) {
+      pixels.set(previous);
+    }
+  }
+}
+
+/**
+ * Creates an animated GIF encoder, each frame getting its own palette
+ */
+export function createGifEncoder(repeat: number) {
+  const encoder = GIFEncoder();
+
+  return {
+    writeFrame(rgba: Uint8ClampedArray, width: number, height: number, delay: number): void {
+      const palette = quantize(rgba, MAX_COLORS);
+      encoder.writeFrame(applyPalette(rgba, palette), width, height, { palette, delay, repeat });
+    },
+    finish(): Uint8Array {
+      encoder.finish();
+      return encoder.bytes();
+    },
+  };
+}
@@ -0,0 +1,28 @@
+declare module 'gifenc' {
+  type Palette = number[][];
+
+  interface FrameOptions {
+    palette?: Palette;
+    // Frame delay, in milliseconds
+    delay?: number;
+    // -1 plays once, 0 loops forever, above 0 loops that many times
+    repeat?: number;
+    transparent?: boolean;
+    transparentIndex?: number;
+    dispose?: number;
+  }
+
+  interface Encoder {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: FrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+  }
+
+  const gifenc: {
+    GIFEncoder(): Encoder;
+    quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number): Palette;
+    applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette): Uint8Array;
+  };
+
+  export default gifenc;
+}
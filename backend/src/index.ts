@@ -1,8 +1,7 @@
-import express, { Application, Request, Response, NextFunction } from 'express';
-import cors from 'cors';
 import dotenv from 'dotenv';
-import { Caption } from './types';
-import { Canvas, FabricImage, Rect, Shadow, Textbox } from 'fabric/node';
+import { createApp } from './app.js';
+import { ImageFetcher } from './fetcher.js';
+import { RequestVerifier, parseSigningKeys } from './signing.js';
 
 // -------------------
 // Load environment variables
@@ -10,211 +9,62 @@ import { Canvas, FabricImage, Rect, Shadow, Textbox } from 'fabric/node';
 dotenv.config();
 
 // -------------------
-// App Initialization
+// Configuration
 // -------------------
-const app: Application = express();
-
 // Port configuration (fallback to 3000 if not set in .env)
 const PORT: number = parseInt(process.env.PORT || '3000', 10);
 
-// -------------------
-// Middleware
-// -------------------
-app.use(express.json());
-app.use(cors());
-
-// -------------------
-// Endpoint
-// -------------------
-app.post('/generateCaption', async (req: Request, res: Response) => {
-  // ----------------------------------------- Handle Authorization
-  const providedKey: string = req.headers['x-api-key'] as string;
-
-  if (providedKey != process.env.API_KEY) {
-    res.status(403).send('Invalid API Key');
-    return;
-  }
-
-  // Setup Canvas
-  const imageUrl = req.body.imageUrl;
-  const caption: Caption = req.body.caption;
-
-  const canvas = new Canvas(undefined, {
-    width: 730,
-    height: 430,
-    devicePixelRatio: 1,
-    renderOnAddRemove: false,
-  });
-
-  // Standard image dimensions (16:9)
-  const targetWidth = 730;
-  const targetHeight = 430; // 16:9 aspect ratio for 700px width
-
-  // Adjust the canvas size to encompass all elements.
-  canvas.setDimensions({
-    width: targetWidth,
-    height: targetHeight,
-  });
-
-  // ------------------------------------------ Top Bar Caption
-  let updatedTopBannerHeight = 0;
-  if (caption.topExtendedCaption) {
-    const topText = new Textbox(caption.topExtendedCaption.toUpperCase(), {
-      left: targetWidth / 2,
-      fill: caption.topExtensionWhite ? 'black' : 'white',
-      fontSize: 31,
-      width: 700,
-      fontFamily: "sans-serif",
-      fontWeight: 'bold',
-      originX: 'center',
-      originY: 'center',
-      textAlign: 'center',
-    });
-    const textLines = topText.textLines.length;
-    topText.set('top', (textLines * 32) / 2 + 10);
-    const topBanner = new Rect({
-      left: 0,
-      top: 0,
-      width: targetWidth,
-      height: textLines * 32 + 20,
-      fill: caption.topExtensionWhite ? 'white' : 'black',
-      selectable: false,
-      evented: false,
-    });
-    updatedTopBannerHeight = topBanner.height;
-    canvas.add(topBanner);
-    canvas.add(topText);
-    canvas.renderAll();
-  }
-
-  // ------------------------------------------ Bottom Banner Caption
-  let updatedBottomBannerHeight = 0;
-  if (caption.bottomExtendedCaption) {
-    const bottomText = new Textbox(caption.bottomExtendedCaption.toUpperCase(), {
-      left: targetWidth / 2,
-      width: 700,
-      fill: caption.bottomExtensionWhite ? 'black' : 'white',
-      fontSize: 31,
-      fontFamily: "sans-serif",
-      fontWeight: 'bold',
-      originX: 'center',
-      originY: 'center',
-      textAlign: 'center',
-    });
-    const textLines = bottomText.textLines.length;
-    bottomText.set('top', targetHeight + updatedTopBannerHeight + (textLines * 32) / 2 + 10);
-    const bottomBanner = new Rect({
-      left: 0,
-      top: updatedTopBannerHeight + targetHeight, // Position below the image.
-      width: targetWidth,
-      height: textLines * 32 + 20,
-      fill: caption.bottomExtensionWhite ? 'white' : 'black',
-      selectable: false,
-      evented: false,
-    });
-    updatedBottomBannerHeight = bottomBanner.height;
-    canvas.add(bottomBanner);
-    canvas.add(bottomText);
-    canvas.renderAll();
-  }
-
-  // ---------- Adjust the canvas size to encompass all elements.
-  canvas.setDimensions({
-    width: targetWidth,
-    height: updatedTopBannerHeight + targetHeight + updatedBottomBannerHeight,
-  });
-
-  // ------------------------------------------ Image
-  const img = await FabricImage.fromURL(imageUrl);
-  img.set({
-    scaleX: targetWidth / img.width,
-    scaleY: targetHeight / img.height,
-    left: 0,
-    top: updatedTopBannerHeight,
-    originX: 'left',
-    originY: 'top',
-  });
-  canvas.backgroundImage = img;
-  canvas.renderAll();
-
-  // ------------------------------------------ Top Caption
-  if (caption.topCaption) {
-    const topText = new Textbox(caption.topCaption.toUpperCase(), {
-      left: targetWidth / 2,
-      top: updatedTopBannerHeight,
-      fill: 'white',
-      fontSize: 31,
-      width: 700,
-      fontFamily: "sans-serif",
-      fontWeight: 'bold',
-      originX: 'center',
-      originY: 'center',
-      textAlign: 'center',
-      shadow: new Shadow({
-        color: 'rgba(0,0,0,1)', // shadow color
-        blur: 4, // controls softness
-        offsetX: 0, // horizontal shift
-        offsetY: 0, // vertical shift
-      }),
-    });
-    // If there’s no banner, add a white stroke for contrast.
-    topText.set('top', updatedTopBannerHeight + (topText.textLines.length * 32) / 2 + 20);
-    canvas.add(topText);
-    canvas.renderAll();
-  }
-
-  // ------------------------------------------ Bottom Caption
-  if (caption.bottomCaption) {
-    const bottomText = new Textbox(caption.bottomCaption.toUpperCase(), {
-      left: targetWidth / 2,
-      fill: 'white',
-      width: 700,
-      fontSize: 31,
-      fontFamily: "sans-serif",
-      fontWeight: 'bold',
-      originX: 'center',
-      originY: 'center',
-      textAlign: 'center',
-      shadow: new Shadow({
-        color: 'rgba(0,0,0,1)', // shadow color
-        blur: 4, // controls softness
-        offsetX: 0, // horizontal shift
-        offsetY: 0, // vertical shift
-      }),
-    });
-    bottomText.set(
-      'top',
-      updatedTopBannerHeight + targetHeight - (bottomText.textLines.length * 32) / 2 - 20
-    );
-    canvas.add(bottomText);
-    canvas.renderAll();
-  }
-
-  // Return as Base64
-  res.send(canvas.toDataURL({ format: 'jpeg', multiplier: 1 }));
+// Longest side of rendered memes, in pixels (fallback to 2048 if not set in .env)
+const MAX_OUTPUT_SIZE: number = parseInt(process.env.MAX_OUTPUT_SIZE || '2048', 10);
+
+// Animated GIF limits: frames, longest side in pixels and encoded bytes (fallbacks if not set in .env)
+const GIF_MAX_FRAMES: number = parseInt(process.env.GIF_MAX_FRAMES || '150', 10);
+const GIF_MAX_OUTPUT_SIZE: number = parseInt(process.env.GIF_MAX_OUTPUT_SIZE || '640', 10);
+const GIF_MAX_OUTPUT_BYTES: number = parseInt(process.env.GIF_MAX_OUTPUT_BYTES || '3145728', 10);
+
+// Most captions rendered by one batch request (fallback to 10 if not set in .env)
+const BATCH_MAX_CAPTIONS: number = parseInt(process.env.BATCH_MAX_CAPTIONS || '10', 10);
+
+// Source images: allowed hosts (comma separated, '*' for any), limits and cache (fallbacks if not set in .env)
+const fetcher = new ImageFetcher({
+  allowedHosts: (process.env.FETCH_ALLOWED_HOSTS || 'redd.it,redditmedia.com,redditstatic.com')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
+  maxBytes: parseInt(process.env.FETCH_MAX_BYTES || '20971520', 10),
+  timeoutMs: parseInt(process.env.FETCH_TIMEOUT_MS || '10000', 10),
+  maxDimension: parseInt(process.env.FETCH_MAX_DIMENSION || '8192', 10),
+  maxPixels: parseInt(process.env.FETCH_MAX_PIXELS || '40000000', 10),
+  cacheBytes: parseInt(process.env.FETCH_CACHE_BYTES || '104857600', 10),
+  cacheTtlMs: parseInt(process.env.FETCH_CACHE_TTL_MS || '600000', 10),
 });
 
-// -------------------
-// 404 Handler
-// -------------------
-app.use((_req: Request, res: Response, _next: NextFunction) => {
-  res.status(404).json({
-    success: false,
-    message: 'Endpoint not found',
-  });
+// Request signing: active keys as comma separated keyId:secret pairs, several while one is rotated,
+// how old a signature may be and how many nonces are remembered (fallbacks if not set in .env)
+const SIGNING_KEYS = parseSigningKeys(process.env.SIGNING_KEYS || '');
+if (SIGNING_KEYS.size === 0) {
+  console.warn('⚠️ SIGNING_KEYS is not set, every render request will be refused');
+}
+const verifier = new RequestVerifier({
+  keys: SIGNING_KEYS,
+  maxAgeMs: parseInt(process.env.SIGNATURE_MAX_AGE_MS || '300000', 10),
+  maxNonces: parseInt(process.env.SIGNATURE_MAX_NONCES || '100000', 10),
 });
 
 // -------------------
-// Error Handler
+// App Initialization
 // -------------------
-app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
-  console.error('Error:', err.message);
 
-  res.status(500).json({
-    success: false,
-    message: 'Internal server error',
-    error: process.env.NODE_ENV === 'development' ? err.message : undefined,
-  });
+const app = createApp({
+  verifier,
+  render: {
+    maxOutputSize: MAX_OUTPUT_SIZE,
+    gifMaxFrames: GIF_MAX_FRAMES,
+    gifMaxOutputSize: GIF_MAX_OUTPUT_SIZE,
+    gifMaxOutputBytes: GIF_MAX_OUTPUT_BYTES,
+  },
+  batchMaxCaptions: BATCH_MAX_CAPTIONS,
+  fetcher,
 });
 
 // -------------------
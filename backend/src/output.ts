@@ -0,0 +1,116 @@
+import sharp from 'sharp';
+import type {
+  OutputFormat,
+  OutputSpec,
+  WatermarkPlacement,
+} from '../../src/shared/types/render.type.js';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['png', 'jpeg', 'webp'];
+
+export const OUTPUT_QUALITY_RANGE = { min: 1, max: 100 } as const;
+export const OUTPUT_SCALE_RANGE = { min: 0.1, max: 4 } as const;
+
+// Longest credit template
+export const WATERMARK_MAX_LENGTH = 120;
+
+export const CONTENT_TYPES: Record<OutputFormat | 'gif', string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+// Credit drawn on the meme, its template filled in for each caption
+export type Watermark = {
+  placement: WatermarkPlacement;
+  opacity: number;
+  template: string;
+  // Fixed author name, otherwise the author of each caption
+  author?: string;
+  subreddit?: string;
+};
+
+// Output spec of a render request, with the defaults filled in
+export type Output = {
+  format: OutputFormat;
+  quality: number;
+  scale: number;
+  watermark: Watermark | null;
+};
+
+export const DEFAULT_OUTPUT: Output = {
+  format: 'jpeg',
+  quality: 90,
+  scale: 1,
+  watermark: null,
+};
+
+// App watermark, also the fallback of every property of a requested watermark
+export const DEFAULT_WATERMARK = {
+  placement: 'bottom-right',
+  opacity: 0.7,
+  template: 'SnapCapit',
+} as const;
+
+/**
+ * Fills in the defaults of a validated output spec
+ */
+export function toOutput(spec: OutputSpec = {}): Output {
+  return {
+    format: spec.format ?? DEFAULT_OUTPUT.format,
+    quality: spec.quality ?? DEFAULT_OUTPUT.quality,
+    scale: spec.scale ?? DEFAULT_OUTPUT.scale,
+    watermark: toWatermark(spec.watermark),
+  };
+}
+
+/**
+ * Encodes the RGBA pixels of a rendered canvas in the requested format
+ */
+export async function encodeImage(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  { format, quality }: Output
+): Promise<Buffer> {
+  const image = sharp(Buffer.from(rgba.buffer, rgba.byteOffset, rgba.byteLength), {
+    raw: { width, height, channels: 4 },
+  });
+
+  if (format === 'png') return image.png().toBuffer();
+  if (format === 'webp') return image.webp({ quality: Math.round(quality) }).toBuffer();
+  return image.jpeg({ quality: Math.round(quality) }).toBuffer();
+}
+
+/**
+ * Fills the credit template of a watermark, the author defaulting to the caption's
+ */
+export function getWatermarkText(watermark: Watermark, username?: string): string {
+  const names: Record<string, string> = {
+    author: watermark.author ?? username ?? '',
+    subreddit: watermark.subreddit ?? '',
+  };
+  return watermark.template
+    .replace(/\{(author|subreddit)\}/g, (_, name: string) => names[name]!)
+    .trim();
+}
+
+/**
+ * Fills in the defaults of a requested watermark, true giving the app watermark
+ */
+function toWatermark(spec: OutputSpec['watermark']): Watermark | null {
+  if (!spec) return null;
+  const { placement, opacity, template, author, subreddit } = spec === true ? {} : spec;
+
+  // Nothing is drawn for a template left empty
+  const text = (template ?? DEFAULT_WATERMARK.template).trim();
+  if (!text) return null;
+
+  return {
+    placement: placement ?? DEFAULT_WATERMARK.placement,
+    opacity: opacity ?? DEFAULT_WATERMARK.opacity,
+    template: text,
+    author,
+    subreddit,
+  };
+}
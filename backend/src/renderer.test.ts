@@ -0,0 +1,178 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import opentype from 'opentype.js';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  FIXTURE_CAPTIONS,
+  FIXTURE_IMAGE,
+  type LayoutSnapshot,
+} from '../../src/shared/layout/caption.layout.fixtures.js';
+import { DEFAULT_OUTPUT } from './output.js';
+import { renderCaption } from './renderer.js';
+
+// Objects handed to fabric, by the canvas they were added to
+const drawn = vi.hoisted(() => {
+  process.env.FONTS_DIR = new URL('../fonts', import.meta.url).pathname;
+  return { objects: [] as Record<string, unknown>[] };
+});
+
+// node-canvas has a native binding, so text is measured from the font files it registers instead
+vi.mock('canvas', () => {
+  const fonts = new Map<string, opentype.Font>();
+  const context = {
+    font: '',
+    measureText(text: string) {
+      const [, size, families] = /^\w+ ([\d.]+)px (.+)$/.exec(this.font) ?? [];
+      const family = families!.split(',')[0]!.trim().replace(/^"|"$/g, '');
+      return { width: fonts.get(family)!.getAdvanceWidth(text, Number(size)) };
+    },
+  };
+
+  return {
+    registerFont(file: string, { family }: { family: string }) {
+      const data = readFileSync(file);
+      fonts.set(
+        family,
+        opentype.parse(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength))
+      );
+    },
+    createCanvas: () => ({ getContext: () => context }),
+  };
+});
+
+// fabric only records what it is given, drawing nothing
+vi.mock('fabric/node', () => {
+  class FabricObject {
+    constructor(options: Record<string, unknown> = {}) {
+      Object.assign(this, options);
+    }
+    set(options: Record<string, unknown>) {
+      Object.assign(this, options);
+    }
+  }
+
+  class FabricImage extends FabricObject {
+    constructor(private readonly element: { width: number; height: number }) {
+      super(element);
+    }
+    static async fromURL() {
+      return new FabricImage({ width: FIXTURE_IMAGE.width, height: FIXTURE_IMAGE.height });
+    }
+    getElement() {
+      return this.element;
+    }
+  }
+
+  class FabricText extends FabricObject {
+    constructor(text: string, options: Record<string, unknown>) {
+      super({ ...options, text, type: 'text' });
+    }
+  }
+
+  class Rect extends FabricObject {
+    constructor(options: Record<string, unknown>) {
+      super({ ...options, type: 'rect' });
+    }
+  }
+
+  class Canvas {
+    constructor(
+      _element: undefined,
+      private readonly size: { width: number; height: number }
+    ) {
+      drawn.objects = [];
+    }
+    add(object: Record<string, unknown>) {
+      drawn.objects.push(object);
+    }
+    renderAll() {}
+    setViewportTransform() {}
+    getWidth() {
+      return this.size.width;
+    }
+    getHeight() {
+      return this.size.height;
+    }
+    getContext() {
+      return {
+        getImageData: () => ({
+          data: new Uint8ClampedArray(this.size.width * this.size.height * 4),
+        }),
+      };
+    }
+  }
+
+  return { Canvas, FabricImage, FabricText, Rect, Shadow: FabricObject, util: {} };
+});
+
+const LAYOUTS = JSON.parse(
+  readFileSync(
+    fileURLToPath(
+      new URL('../../src/shared/layout/__snapshots__/caption.layouts.snap', import.meta.url)
+    ),
+    'utf8'
+  )
+) as Record<string, LayoutSnapshot>;
+
+const SOURCE = {
+  data: new Uint8Array([0x89, 0x50, 0x4e, 0x47]),
+  contentType: 'image/png',
+  ...FIXTURE_IMAGE,
+};
+
+const RENDER_OPTIONS = {
+  fitMode: 'fit' as const,
+  maxOutputSize: 2048,
+  gifMaxFrames: 150,
+  gifMaxOutputSize: 640,
+  gifMaxOutputBytes: 3_145_728,
+};
+
+// Layout units rounded, fabric getting them scaled to the output size
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Where the renderer should anchor each line of a layout, in layout units
+function getExpectedLines(layout: LayoutSnapshot) {
+  return layout.texts.flatMap(({ lines, box, lineHeight, fontFamily, fontSize, align }) => {
+    const left =
+      align === 'left' ? box.x : align === 'right' ? box.x + box.width : box.x + box.width / 2;
+    return lines.map((line, index) => ({
+      text: line,
+      left: round(left),
+      top: round(box.y + (index + 0.5) * lineHeight),
+      fontFamily,
+      fontSize: round(fontSize),
+      originX: align,
+    }));
+  });
+}
+
+// Lines the renderer gave fabric, back in layout units
+function getDrawnLines(layout: LayoutSnapshot) {
+  // The image frame is the first object, and is the layout's image scaled to the output
+  const [frame] = drawn.objects as { width: number }[];
+  const scale = frame!.width / layout.image.width;
+
+  return (drawn.objects as Record<string, number | string>[])
+    .filter((object) => object.type === 'text')
+    .map(({ text, left, top, fontFamily, fontSize, originX }) => ({
+      text,
+      left: round((left as number) / scale),
+      top: round((top as number) / scale),
+      fontFamily,
+      fontSize: round((fontSize as number) / scale),
+      originX,
+    }));
+}
+
+describe('renderCaption', () => {
+  it.each(Object.entries(FIXTURE_CAPTIONS))(
+    'draws the lines of the %s layout snapshot',
+    async (name, caption) => {
+      await renderCaption(SOURCE, caption, RENDER_OPTIONS, DEFAULT_OUTPUT);
+
+      const layout = LAYOUTS[name]!;
+      expect(getDrawnLines(layout)).toEqual(getExpectedLines(layout));
+    }
+  );
+});
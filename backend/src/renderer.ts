@@ -0,0 +1,470 @@
+import path from 'node:path';
+import { createCanvas, registerFont } from 'canvas';
+import { Canvas, FabricImage, FabricText, Rect, Shadow, util } from 'fabric/node';
+import sharp from 'sharp';
+import { Caption, RenderOptions, RenderedImage } from './types.js';
+import { FetchedImage } from './fetcher.js';
+import { GifLimitError, createGifEncoder, isGif, openGif } from './gif.js';
+import { CONTENT_TYPES, Output, Watermark, encodeImage, getWatermarkText } from './output.js';
+import type { FitMode } from '../../src/shared/types/post.type.js';
+import {
+  CAPTION_FONTS,
+  CAPTION_FONT_WEIGHT,
+  DEFAULT_IMAGE_SIZE,
+  LETTERBOX_FILL,
+  LayoutLayer,
+  LayoutRect,
+  LayoutText,
+  createTextMeasurer,
+  layoutCaption,
+} from '../../src/shared/layout/caption.layout.js';
+
+// Smaller images are scaled up to this width so captions stay readable
+const MIN_OUTPUT_WIDTH = DEFAULT_IMAGE_SIZE.width;
+
+// Bundled caption fonts, relative to the backend directory the server runs from
+const FONTS_DIR = path.resolve(process.env.FONTS_DIR || 'fonts');
+
+// Fonts must be registered before the first canvas is created
+for (const { family, file } of Object.values(CAPTION_FONTS)) {
+  registerFont(path.join(FONTS_DIR, file), { family, weight: CAPTION_FONT_WEIGHT });
+}
+
+// Text is measured with node-canvas, the same engine fabric draws with
+const measureText = createTextMeasurer(createCanvas(1, 1).getContext('2d'));
+
+// Watermark text and credit strip, in layout units
+const WATERMARK_FONT_SIZE = 12;
+const WATERMARK_MARGIN = 6;
+const WATERMARK_STRIP_HEIGHT = 24;
+const WATERMARK_STRIP_FILL = '#1A1A1B';
+
+type MemeOptions = {
+  fitMode: FitMode;
+  maxOutputSize: number;
+  // Multiplier of the native output size
+  scale: number;
+  watermark: Watermark | null;
+};
+
+// Decoded source image, shared by every caption rendered over it
+type SourceImage = { animated: false; element: ImageSource } | { animated: true; data: Uint8Array };
+
+type ImageSource = ReturnType<FabricImage['getElement']>;
+
+// Meme of a batch over an animated GIF, or the error it failed with
+type AnimatedMeme =
+  | {
+      img: FabricImage;
+      canvas: Canvas;
+      encoder: ReturnType<typeof createGifEncoder>;
+      error?: unknown;
+    }
+  | { error: unknown };
+
+/**
+ * Renders a caption over the image using the shared caption layout, encoded as requested
+ *
+ * The image keeps its aspect ratio and native resolution, within the minimum width and the
+ * maximum output size. Animated GIFs are captioned frame by frame and stay animated, whatever
+ * the requested format.
+ */
+export async function renderCaption(
+  source: FetchedImage,
+  caption: Caption,
+  options: RenderOptions,
+  output: Output
+): Promise<RenderedImage> {
+  const [result] = await renderCaptions(source, [caption], options, output);
+  if (result!.status === 'rejected') throw result!.reason;
+  return result!.value;
+}
+
+/**
+ * Renders several captions over the same image, which is decoded only once
+ *
+ * Each caption settles on its own, in the order given. Failing to decode the image, or an
+ * animated GIF with too many frames, rejects the whole batch.
+ */
+export async function renderCaptions(
+  source: FetchedImage,
+  captions: Caption[],
+  options: RenderOptions,
+  output: Output
+): Promise<PromiseSettledResult<RenderedImage>[]> {
+  const image = await decodeSourceImage(source);
+
+  if (image.animated) {
+    return renderAnimatedCaptions(image.data, captions, options, output);
+  }
+
+  return Promise.allSettled(
+    captions.map((caption) => renderStillCaption(image.element, caption, options, output))
+  );
+}
+
+/**
+ * Decodes the source image, except GIFs, whose frames are decoded while rendering
+ */
+async function decodeSourceImage({ data, contentType }: FetchedImage): Promise<SourceImage> {
+  if (isGif(data)) {
+    return { animated: true, data };
+  }
+
+  // node-canvas can't decode WebP, which is converted to PNG first
+  const decodable =
+    contentType === 'image/webp'
+      ? { data: await sharp(data).png().toBuffer(), contentType: 'image/png' }
+      : { data, contentType };
+
+  const img = await FabricImage.fromURL(
+    `data:${decodable.contentType};base64,${Buffer.from(decodable.data).toString('base64')}`
+  );
+  return { animated: false, element: img.getElement() };
+}
+
+/**
+ * Renders a caption over a still image
+ */
+async function renderStillCaption(
+  element: ImageSource,
+  caption: Caption,
+  options: RenderOptions,
+  output: Output
+): Promise<RenderedImage> {
+  const startedAt = Date.now();
+
+  const canvas = createMemeCanvas(new FabricImage(element), caption, {
+    fitMode: options.fitMode,
+    maxOutputSize: options.maxOutputSize,
+    scale: output.scale,
+    watermark: output.watermark,
+  });
+  canvas.renderAll();
+
+  const width = canvas.getWidth();
+  const height = canvas.getHeight();
+  const pixels = canvas.getContext().getImageData(0, 0, width, height).data;
+
+  return {
+    data: await encodeImage(pixels, width, height, output),
+    contentType: CONTENT_TYPES[output.format],
+    width,
+    height,
+    renderMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Renders captions over every frame of an animated GIF, keeping the frame delays
+ *
+ * Each meme is laid out once, then every decoded frame is drawn into the images they show, so the
+ * GIF is decoded a single time for the whole batch. A meme fails on its own when it encodes over
+ * the size limit of the options.
+ */
+function renderAnimatedCaptions(
+  data: Uint8Array,
+  captions: Caption[],
+  options: RenderOptions,
+  output: Output
+): PromiseSettledResult<RenderedImage>[] {
+  const startedAt = Date.now();
+  const gif = openGif(data, options.gifMaxFrames);
+
+  const frame = util.createCanvasElement();
+  frame.width = gif.width;
+  frame.height = gif.height;
+  const frameContext = frame.getContext('2d')!;
+  const frameData = frameContext.createImageData(gif.width, gif.height);
+
+  const memes = captions.map((caption): AnimatedMeme => {
+    try {
+      const img = new FabricImage(frame);
+      const canvas = createMemeCanvas(img, caption, {
+        fitMode: options.fitMode,
+        maxOutputSize: Math.min(options.maxOutputSize, options.gifMaxOutputSize),
+        scale: output.scale,
+        watermark: output.watermark,
+      });
+      return { img, canvas, encoder: createGifEncoder(gif.repeat) };
+    } catch (error) {
+      return { error };
+    }
+  });
+
+  for (const { pixels, delay } of gif.frames) {
+    frameData.data.set(pixels);
+    frameContext.putImageData(frameData, 0, 0);
+
+    for (const meme of memes) {
+      if (!('canvas' in meme) || meme.error) continue;
+      try {
+        // The image is cached by fabric and has to be redrawn from the new frame
+        meme.img.dirty = true;
+        meme.canvas.renderAll();
+
+        const width = meme.canvas.getWidth();
+        const height = meme.canvas.getHeight();
+        meme.encoder.writeFrame(
+          meme.canvas.getContext().getImageData(0, 0, width, height).data,
+          width,
+          height,
+          delay
+        );
+      } catch (error) {
+        meme.error = error;
+      }
+    }
+  }
+
+  return memes.map((meme): PromiseSettledResult<RenderedImage> => {
+    if (!('canvas' in meme) || meme.error) return { status: 'rejected', reason: meme.error };
+
+    const bytes = meme.encoder.finish();
+    if (bytes.length > options.gifMaxOutputBytes) {
+      return {
+        status: 'rejected',
+        reason: new GifLimitError(
+          `Rendered GIF is ${bytes.length} bytes, the limit is ${options.gifMaxOutputBytes}`
+        ),
+      };
+    }
+
+    return {
+      status: 'fulfilled',
+      value: {
+        data: Buffer.from(bytes),
+        contentType: CONTENT_TYPES.gif,
+        width: meme.canvas.getWidth(),
+        height: meme.canvas.getHeight(),
+        renderMs: Date.now() - startedAt,
+      },
+    };
+  });
+}
+
+/**
+ * Lays the caption out over the image and adds every object of the meme to a new canvas
+ */
+function createMemeCanvas(img: FabricImage, caption: Caption, options: MemeOptions): Canvas {
+  const layout = layoutCaption(caption, { width: img.width, height: img.height }, measureText, {
+    fitMode: options.fitMode,
+  });
+
+  // Credit strips are added above or below the meme
+  const watermark = options.watermark;
+  const watermarkText = watermark ? getWatermarkText(watermark, caption.username) : '';
+  const placement = watermarkText ? watermark?.placement : undefined;
+  const stripHeight = placement?.startsWith('strip-') ? WATERMARK_STRIP_HEIGHT : 0;
+
+  const nativeScale = img.width / layout.source.width;
+  const scale = Math.min(
+    Math.max(nativeScale, MIN_OUTPUT_WIDTH / layout.width) * options.scale,
+    options.maxOutputSize / Math.max(layout.width, layout.height + stripHeight)
+  );
+
+  const canvas = new Canvas(undefined, {
+    width: Math.round(layout.width * scale),
+    height: Math.round((layout.height + stripHeight) * scale),
+    devicePixelRatio: 1,
+    renderOnAddRemove: false,
+  });
+
+  // The meme moves down under a top strip, which is drawn above the layout's origin
+  if (placement === 'strip-top') {
+    canvas.setViewportTransform([1, 0, 0, 1, 0, stripHeight * scale]);
+  }
+
+  // ------------------------------------------ Image (over the frame, which shows as letterbox bars)
+  canvas.add(
+    new Rect({
+      left: layout.image.x * scale,
+      top: layout.image.y * scale,
+      width: layout.image.width * scale,
+      height: layout.image.height * scale,
+      fill: LETTERBOX_FILL,
+      selectable: false,
+      evented: false,
+    })
+  );
+
+  img.set({
+    scaleX: (layout.source.width * scale) / img.width,
+    scaleY: (layout.source.height * scale) / img.height,
+    left: layout.source.x * scale,
+    top: layout.source.y * scale,
+    originX: 'left',
+    originY: 'top',
+    // Covering images are cropped to the frame
+    clipPath: createClip(layout.image, scale),
+    selectable: false,
+    evented: false,
+  });
+  canvas.add(img);
+
+  // ------------------------------------------ Banners
+  for (const banner of layout.banners) {
+    canvas.add(
+      new Rect({
+        left: banner.x * scale,
+        top: banner.y * scale,
+        width: banner.width * scale,
+        height: banner.height * scale,
+        fill: banner.fill,
+        selectable: false,
+        evented: false,
+      })
+    );
+  }
+
+  // ------------------------------------------ Texts (one object per line, keeping the layout's line breaks)
+  for (const text of layout.texts) {
+    text.lines.forEach((line, index) => {
+      canvas.add(
+        createLine(text, line, {
+          left: getLineX(text) * scale,
+          top: (text.box.y + (index + 0.5) * text.lineHeight) * scale,
+          scale,
+        })
+      );
+    });
+  }
+
+  // ------------------------------------------ Layers (lines rotated around the layer center, clipped to the frame)
+  for (const layer of layout.layers) {
+    const radians = (layer.rotation * Math.PI) / 180;
+    const centerX = layer.box.x + layer.box.width / 2;
+    const centerY = layer.box.y + layer.box.height / 2;
+
+    layer.lines.forEach((line, index) => {
+      // Line anchor relative to the layer center, before rotation
+      const dx = getLineX(layer) - centerX;
+      const dy = layer.box.y + (index + 0.5) * layer.lineHeight - centerY;
+
+      const text = createLine(layer, line, {
+        left: (centerX + dx * Math.cos(radians) - dy * Math.sin(radians)) * scale,
+        top: (centerY + dx * Math.sin(radians) + dy * Math.cos(radians)) * scale,
+        scale,
+      });
+      text.set({ angle: layer.rotation, clipPath: createClip(layout.image, scale) });
+      canvas.add(text);
+    });
+  }
+
+  // ------------------------------------------ Watermark (credit strip or corner of the meme)
+  if (watermark && watermarkText) {
+    addWatermark(canvas, watermark, watermarkText, layout, scale);
+  }
+
+  return canvas;
+}
+
+/**
+ * Adds the credit of a meme, in a strip above or below it or over one of its corners
+ */
+function addWatermark(
+  canvas: Canvas,
+  watermark: Watermark,
+  content: string,
+  size: { width: number; height: number },
+  scale: number
+): void {
+  const text = new FabricText(content, {
+    fill: 'white',
+    opacity: watermark.opacity,
+    fontSize: WATERMARK_FONT_SIZE * scale,
+    fontFamily: CAPTION_FONTS.sans.family,
+    fontWeight: CAPTION_FONT_WEIGHT,
+  });
+
+  if (watermark.placement === 'strip-top' || watermark.placement === 'strip-bottom') {
+    const top = watermark.placement === 'strip-top' ? -WATERMARK_STRIP_HEIGHT : size.height;
+    canvas.add(
+      new Rect({
+        left: 0,
+        top: top * scale,
+        width: size.width * scale,
+        height: WATERMARK_STRIP_HEIGHT * scale,
+        fill: WATERMARK_STRIP_FILL,
+      })
+    );
+    text.set({
+      left: (size.width / 2) * scale,
+      top: (top + WATERMARK_STRIP_HEIGHT / 2) * scale,
+      originX: 'center',
+      originY: 'center',
+    });
+  } else {
+    // Corner text sits over the image, the shadow keeps it readable on light areas
+    const [vertical, horizontal] = watermark.placement.split('-') as [
+      'top' | 'bottom',
+      'left' | 'right',
+    ];
+    text.set({
+      left: (horizontal === 'left' ? WATERMARK_MARGIN : size.width - WATERMARK_MARGIN) * scale,
+      top: (vertical === 'top' ? WATERMARK_MARGIN : size.height - WATERMARK_MARGIN) * scale,
+      originX: horizontal,
+      originY: vertical,
+      shadow: new Shadow({ color: 'black', blur: 2 * scale, offsetX: 0, offsetY: 0 }),
+    });
+  }
+
+  // Long credits shrink to fit the width of the meme
+  const maxWidth = (size.width - 2 * WATERMARK_MARGIN) * scale;
+  if (text.width > maxWidth) {
+    text.scaleToWidth(maxWidth);
+  }
+
+  canvas.add(text);
+}
+
+/**
+ * Creates the text object of a single line, anchored at (left, top) according to its alignment
+ */
+function createLine(
+  text: LayoutText | LayoutLayer,
+  line: string,
+  { left, top, scale }: { left: number; top: number; scale: number }
+): FabricText {
+  return new FabricText(line, {
+    left,
+    top,
+    fill: text.fill,
+    fontSize: text.fontSize * scale,
+    fontFamily: text.fontFamily,
+    fontWeight: text.fontWeight,
+    // The stroke is centered on the glyph edges and drawn first, so half of it shows
+    stroke: text.stroke ?? null,
+    strokeWidth: text.strokeWidth * 2 * scale,
+    strokeLineJoin: 'round',
+    paintFirst: 'stroke',
+    originX: text.align,
+    originY: 'center',
+    textAlign: text.align,
+    shadow: text.shadow
+      ? new Shadow({ color: text.shadow, blur: 4 * scale, offsetX: 0, offsetY: 0 })
+      : null,
+  });
+}
+
+/**
+ * Creates a clip path covering a layout rectangle (each object needs its own)
+ */
+function createClip(rect: LayoutRect, scale: number): Rect {
+  return new Rect({
+    left: rect.x * scale,
+    top: rect.y * scale,
+    width: rect.width * scale,
+    height: rect.height * scale,
+    absolutePositioned: true,
+  });
+}
+
+/**
+ * Returns the x coordinate lines of a text are anchored at, given its alignment
+ */
+function getLineX(text: LayoutText | LayoutLayer): number {
+  if (text.align === 'left') return text.box.x;
+  if (text.align === 'right') return text.box.x + text.box.width;
+  return text.box.x + text.box.width / 2;
+}
@@ -0,0 +1,132 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import {
+  SIGNATURE_HEADERS,
+  getSignaturePayload,
+} from '../../src/shared/signing/request.signing.js';
+import { ApiError } from './errors.js';
+
+export type VerifierOptions = {
+  // Secrets by key ID, several being active while a key is rotated
+  keys: Map<string, string>;
+  // Longest time between signing and checking a request, either way to allow for clock skew
+  maxAgeMs: number;
+  // Most nonces remembered, requests being refused past it until old ones expire
+  maxNonces: number;
+};
+
+// What a request is checked against, read from the request by the caller
+export type RequestToVerify = {
+  method: string;
+  path: string;
+  header(name: string): string | undefined;
+  body: Uint8Array;
+};
+
+export type SignatureErrorCode =
+  | 'MISSING_SIGNATURE'
+  | 'UNKNOWN_KEY'
+  | 'EXPIRED_SIGNATURE'
+  | 'INVALID_SIGNATURE'
+  | 'REPLAYED_REQUEST'
+  | 'TOO_MANY_REQUESTS';
+
+/**
+ * Error thrown when a request isn't signed by a known key, or was already seen
+ */
+export class SignatureError extends ApiError {
+  declare readonly code: SignatureErrorCode;
+
+  constructor(code: SignatureErrorCode, message: string) {
+    super(code === 'TOO_MANY_REQUESTS' ? 429 : 401, code, message);
+    this.name = 'SignatureError';
+  }
+}
+
+/**
+ * Parses the SIGNING_KEYS setting, comma separated "keyId:secret" pairs
+ */
+export function parseSigningKeys(setting: string): Map<string, string> {
+  const keys = new Map<string, string>();
+
+  for (const entry of setting.split(',')) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (separator > 0 && id && secret) keys.set(id, secret);
+  }
+
+  return keys;
+}
+
+/**
+ * Checks the HMAC signature of render requests, remembering their nonces so none is used twice
+ */
+export class RequestVerifier {
+  // Nonces by "keyId:nonce", with when they can be forgotten. Entries are added as requests
+  // arrive and all live as long, so the oldest come first.
+  private readonly nonces = new Map<string, number>();
+
+  constructor(private readonly options: VerifierOptions) {}
+
+  /**
+   * Checks a request's signature, throwing a SignatureError when it can't be trusted
+   */
+  verify(request: RequestToVerify): void {
+    const keyId = request.header(SIGNATURE_HEADERS.keyId);
+    const timestamp = request.header(SIGNATURE_HEADERS.timestamp);
+    const nonce = request.header(SIGNATURE_HEADERS.nonce);
+    const signature = request.header(SIGNATURE_HEADERS.signature);
+
+    if (!keyId || !timestamp || !nonce || !signature) {
+      throw new SignatureError('MISSING_SIGNATURE', 'Request is not signed');
+    }
+
+    const secret = this.options.keys.get(keyId);
+    if (!secret) {
+      throw new SignatureError('UNKNOWN_KEY', `Signing key ${keyId} is not active`);
+    }
+
+    if (
+      !/^\d{1,12}$/.test(timestamp) ||
+      Math.abs(Date.now() - Number(timestamp) * 1000) > this.options.maxAgeMs
+    ) {
+      throw new SignatureError('EXPIRED_SIGNATURE', 'Request signature has expired');
+    }
+
+    const payload = getSignaturePayload({
+      method: request.method,
+      path: request.path,
+      timestamp: Number(timestamp),
+      nonce,
+      bodyHash: createHash('sha256').update(request.body).digest('hex'),
+    });
+    const expected = createHmac('sha256', secret).update(payload).digest();
+    const provided = Buffer.from(signature, 'hex');
+
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      throw new SignatureError('INVALID_SIGNATURE', 'Request signature is invalid');
+    }
+
+    // Only requests signed by a known key reach the nonce cache, so it can't be filled by forgeries
+    this.useNonce(`${keyId}:${nonce}`);
+  }
+
+  private useNonce(key: string): void {
+    const now = Date.now();
+
+    for (const [oldest, expiresAt] of this.nonces) {
+      if (expiresAt > now) break;
+      this.nonces.delete(oldest);
+    }
+
+    if (this.nonces.has(key)) {
+      throw new SignatureError('REPLAYED_REQUEST', 'Request was already received');
+    }
+    if (this.nonces.size >= this.options.maxNonces) {
+      throw new SignatureError('TOO_MANY_REQUESTS', 'Too many signed requests, try again later');
+    }
+
+    // A request signed maxAgeMs ahead of the clock stays valid for twice that long after arriving
+    this.nonces.set(key, now + 2 * this.options.maxAgeMs);
+  }
+}
@@ -1,11 +1,29 @@
-export type Caption = {
-  id?: string;
-  username: string;
-  topExtensionWhite?: boolean;
-  bottomExtensionWhite?: boolean;
-  topExtendedCaption?: string;
-  bottomExtendedCaption?: string;
-  topCaption?: string;
-  bottomCaption?: string;
-  createdAt: number;
+import type { FitMode } from '../../src/shared/types/post.type.js';
+
+// Request bodies are shared with the Devvit app, which sends them
+export type {
+  BatchRenderRequest,
+  RenderCaption as Caption,
+  RenderRequest,
+} from '../../src/shared/types/render.type.js';
+
+export type RenderOptions = {
+  fitMode: FitMode;
+  // Longest side of the rendered meme, in pixels
+  maxOutputSize: number;
+  // Most frames an animated GIF may have
+  gifMaxFrames: number;
+  // Longest side of rendered animated GIFs, in pixels (below maxOutputSize, as every frame is encoded)
+  gifMaxOutputSize: number;
+  // Largest encoded size of rendered animated GIFs, in bytes
+  gifMaxOutputBytes: number;
+};
+
+export type RenderedImage = {
+  data: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+  // Time spent rendering and encoding, in milliseconds
+  renderMs: number;
 };
@@ -0,0 +1,194 @@
+import { FIT_MODES } from '../../src/shared/layout/caption.layout.js';
+import {
+  WATERMARK_PLACEMENTS,
+  type OutputSpec,
+  type WatermarkSpec,
+} from '../../src/shared/types/render.type.js';
+import { CaptionError } from '../../src/shared/validation/caption.error.js';
+import {
+  isPlainObject,
+  parseCaptionInput,
+} from '../../src/shared/validation/caption.validation.js';
+import { ValidationError } from './errors.js';
+import {
+  OUTPUT_FORMATS,
+  OUTPUT_QUALITY_RANGE,
+  OUTPUT_SCALE_RANGE,
+  WATERMARK_MAX_LENGTH,
+} from './output.js';
+import type { BatchRenderRequest, Caption, RenderRequest } from './types.js';
+
+// Longest username a credit can name
+const USERNAME_MAX_LENGTH = 64;
+const IMAGE_URL_MAX_LENGTH = 2048;
+
+// Every field a request may send, checked against the request types at compile time
+const ALLOWED_REQUEST_FIELDS: Record<keyof RenderRequest, true> = {
+  imageUrl: true,
+  caption: true,
+  fitMode: true,
+  output: true,
+};
+const ALLOWED_BATCH_REQUEST_FIELDS: Record<keyof BatchRenderRequest, true> = {
+  imageUrl: true,
+  captions: true,
+  fitMode: true,
+  output: true,
+};
+const ALLOWED_OUTPUT_FIELDS: Record<keyof OutputSpec, true> = {
+  format: true,
+  quality: true,
+  scale: true,
+  watermark: true,
+};
+const ALLOWED_WATERMARK_FIELDS: Record<keyof WatermarkSpec, true> = {
+  placement: true,
+  opacity: true,
+  template: true,
+  author: true,
+  subreddit: true,
+};
+
+const invalid = (field: string, message: string) => new ValidationError([{ field, message }]);
+
+/**
+ * Validates the body of a /generateCaption request
+ */
+export function parseRenderRequest(body: unknown): RenderRequest {
+  const fields = parseObject(body, 'body', ALLOWED_REQUEST_FIELDS);
+
+  return {
+    imageUrl: parseImageUrl(fields.imageUrl),
+    caption: parseCaption(fields.caption, 'caption'),
+    fitMode: parseOneOf(fields.fitMode, 'fitMode', FIT_MODES),
+    output: parseOutput(fields.output),
+  };
+}
+
+/**
+ * Validates the body of a /generateCaptions request, which may hold up to maxCaptions captions
+ */
+export function parseBatchRenderRequest(body: unknown, maxCaptions: number): BatchRenderRequest {
+  const fields = parseObject(body, 'body', ALLOWED_BATCH_REQUEST_FIELDS);
+
+  const { captions } = fields;
+  if (!Array.isArray(captions) || captions.length < 1 || captions.length > maxCaptions) {
+    throw invalid('captions', `captions must be an array of 1 to ${maxCaptions} captions`);
+  }
+
+  return {
+    imageUrl: parseImageUrl(fields.imageUrl),
+    captions: captions.map((caption: unknown, index) => parseCaption(caption, `captions.${index}`)),
+    fitMode: parseOneOf(fields.fitMode, 'fitMode', FIT_MODES),
+    output: parseOutput(fields.output),
+  };
+}
+
+/**
+ * Validates a caption with the checks the Devvit server runs, plus the username its credit names
+ */
+function parseCaption(value: unknown, field: string): Caption {
+  if (!isPlainObject(value)) throw invalid(field, `${field} must be an object`);
+
+  const { username, ...captionFields } = value;
+  const credit = parseString(username, `${field}.username`, USERNAME_MAX_LENGTH);
+
+  try {
+    const caption: Caption = parseCaptionInput(captionFields);
+    if (credit !== undefined) caption.username = credit;
+    return caption;
+  } catch (error) {
+    if (!(error instanceof CaptionError)) throw error;
+    throw invalid(error.field ? `${field}.${error.field}` : field, error.message);
+  }
+}
+
+function parseImageUrl(value: unknown): string {
+  const imageUrl = parseString(value, 'imageUrl', IMAGE_URL_MAX_LENGTH);
+  if (imageUrl === undefined) throw invalid('imageUrl', 'imageUrl is required');
+  return imageUrl;
+}
+
+function parseOutput(value: unknown): OutputSpec | undefined {
+  if (value === undefined) return undefined;
+  const fields = parseObject(value, 'output', ALLOWED_OUTPUT_FIELDS);
+
+  return {
+    format: parseOneOf(fields.format, 'output.format', OUTPUT_FORMATS),
+    quality: parseNumber(fields.quality, 'output.quality', OUTPUT_QUALITY_RANGE),
+    scale: parseNumber(fields.scale, 'output.scale', OUTPUT_SCALE_RANGE),
+    watermark: parseWatermark(fields.watermark),
+  };
+}
+
+/**
+ * Validates a watermark, true giving the app watermark and an object setting its own
+ */
+function parseWatermark(value: unknown): boolean | WatermarkSpec | undefined {
+  if (value === undefined || typeof value === 'boolean') return value;
+  const fields = parseObject(value, 'output.watermark', ALLOWED_WATERMARK_FIELDS);
+
+  return {
+    placement: parseOneOf(fields.placement, 'output.watermark.placement', WATERMARK_PLACEMENTS),
+    opacity: parseNumber(fields.opacity, 'output.watermark.opacity', { min: 0, max: 1 }),
+    template: parseString(fields.template, 'output.watermark.template', WATERMARK_MAX_LENGTH),
+    author: parseString(fields.author, 'output.watermark.author', USERNAME_MAX_LENGTH),
+    subreddit: parseString(fields.subreddit, 'output.watermark.subreddit', USERNAME_MAX_LENGTH),
+  };
+}
+
+/**
+ * Checks a value is an object without fields outside the allowed ones
+ */
+function parseObject<T extends object>(
+  value: unknown,
+  field: string,
+  allowedFields: Record<keyof T, true>
+): Partial<Record<keyof T, unknown>> {
+  if (!isPlainObject(value)) throw invalid(field, `${field} must be an object`);
+
+  const unknownField = Object.keys(value).find((key) => !(key in allowedFields));
+  if (unknownField) {
+    const path = field === 'body' ? unknownField : `${field}.${unknownField}`;
+    throw invalid(path, `Unknown field "${path}"`);
+  }
+
+  return value as Partial<Record<keyof T, unknown>>;
+}
+
+function parseString(value: unknown, field: string, maxLength: number): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.length > maxLength) {
+    throw invalid(field, `${field} must be a string of at most ${maxLength} characters`);
+  }
+  return value;
+}
+
+function parseNumber(
+  value: unknown,
+  field: string,
+  range: { min: number; max: number }
+): number | undefined {
+  if (value === undefined) return undefined;
+  if (
+    typeof value !== 'number' ||
+    !Number.isFinite(value) ||
+    value < range.min ||
+    value > range.max
+  ) {
+    throw invalid(field, `${field} must be a number from ${range.min} to ${range.max}`);
+  }
+  return value;
+}
+
+function parseOneOf<T extends string>(
+  value: unknown,
+  field: string,
+  values: readonly T[]
+): T | undefined {
+  if (value === undefined) return undefined;
+  if (!values.includes(value as T)) {
+    throw invalid(field, `${field} must be one of ${values.join(', ')}`);
+  }
+  return value as T;
+}
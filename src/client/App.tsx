@@ -1,4 +1,5 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { connectRealtime, context } from '@devvit/web/client';
 import {
   ChevronUpIcon,
   ChevronDownIcon,
@@ -7,7 +8,46 @@ import {
   ArrowUpIcon,
   ArrowDownIcon,
 } from './utils/icons';
-import { Countdown } from './utils/others';
+import { CaptionLayerLines, CaptionLines, Countdown } from './utils/others';
+import { ModPanel } from './components/ModPanel';
+import { ReportDialog } from './components/ReportDialog';
+import { ResultsView } from './components/ResultsView';
+import { StyleToolbar } from './components/StyleToolbar';
+import { LayerEditor } from './components/LayerEditor';
+import { MemeImage } from './components/MemeImage';
+import { FinalRender } from './components/FinalRender';
+import { getErrorLayer, getErrorMessage, getErrorSlot } from './utils/errors';
+import {
+  getLayoutBoxStyle,
+  getLayoutRectStyle,
+  getLayoutTextStyle,
+  loadCaptionFonts,
+  measureText,
+  toVw,
+} from './utils/layout';
+import {
+  CAPTION_LAYER_MAX_LINES,
+  CAPTION_MAX_LAYERS,
+  CAPTION_MAX_LINES,
+  CaptionSlot,
+  DEFAULT_CAPTION_LAYER,
+  DEFAULT_IMAGE_SIZE,
+  ImageSize,
+  LETTERBOX_FILL,
+  layerWidth,
+  layoutCaption,
+  wrapCaptionText,
+} from '../shared/layout/caption.layout';
+import {
+  CaptionInput,
+  CaptionLayer,
+  CaptionSort,
+  CaptionStyle,
+  CaptionStyles,
+} from '../shared/types/caption.type';
+import { FitMode } from '../shared/types/post.type';
+import { ContestResults } from '../shared/types/results.type';
+import { LiveMessage, getLiveChannel } from '../shared/types/live.type';
 
 interface Caption {
   id?: string;
@@ -18,7 +58,11 @@ interface Caption {
   bottomExtendedCaption?: string;
   topCaption?: string;
   bottomCaption?: string;
+  styles?: CaptionStyles;
+  layers?: CaptionLayer[];
   createdAt: number;
+  removed?: boolean;
+  removedBy?: string;
 }
 
 interface CaptionWithUpvotes extends Caption {
@@ -26,9 +70,56 @@ interface CaptionWithUpvotes extends Caption {
   userUpvoted: boolean;
 }
 
+// Name of each caption slot in the style toolbar
+const SLOT_LABELS: Record<CaptionSlot, string> = {
+  topExtended: 'Top banner',
+  top: 'Top caption',
+  bottom: 'Bottom caption',
+  bottomExtended: 'Bottom banner',
+};
+
+// Name of each caption order in the carousel
+const SORT_LABELS: Record<CaptionSort, string> = {
+  fair: 'Shuffled',
+  top: 'Top',
+  new: 'New',
+  unvoted: 'Not voted',
+};
+
+// Gives late captions as much of a chance as early ones
+const DEFAULT_CAPTION_SORT: CaptionSort = 'fair';
+
+// Captions left ahead in the carousel when the next page starts loading
+const LOAD_MORE_THRESHOLD = 3;
+
 // Toggle for testing vs production
 const USE_DUMMY_DATA = false;
 
+// Captions a user may write when the post doesn't say
+const DEFAULT_MAX_CAPTIONS_PER_USER = 1;
+
+// Caption in create mode, offered while the user may still write captions
+const createModeCaption = (username: string): CaptionWithUpvotes => ({
+  id: undefined,
+  username,
+  createdAt: Date.now(),
+  upvotes: 1,
+  userUpvoted: false,
+});
+
+// Carousel captions: the user's own first, then the create mode caption while they may write
+// more, then the captions of others
+const withUserCaptions = (
+  userCaptions: CaptionWithUpvotes[],
+  otherCaptions: CaptionWithUpvotes[],
+  username: string,
+  maxCaptionsPerUser: number
+): CaptionWithUpvotes[] => [
+  ...userCaptions,
+  ...(userCaptions.length < maxCaptionsPerUser ? [createModeCaption(username)] : []),
+  ...otherCaptions,
+];
+
 // Dummy data for testing
 const DUMMY_DATA = {
   username: 'testuser',
@@ -60,26 +151,41 @@ const DUMMY_DATA = {
   ] as CaptionWithUpvotes[],
 };
 
-// Responsive sizing constants
-const BASE_FONT_SIZE_VW = (32 / 700) * 100;
-const MIN_HEIGHT_1_LINE_VW = (42 / 700) * 100; // Increased for better spacing
-const MIN_HEIGHT_2_LINES_VW = (74 / 700) * 100; // Increased for better spacing
-const BANNER_PADDING_VW = (20 / 700) * 100; // Consistent padding
-
 export const App: React.FC = () => {
   const [captions, setCaptions] = useState<CaptionWithUpvotes[]>([]);
   const [currentCaptionIndex, setCurrentCaptionIndex] = useState(0);
+  const [captionSort, setCaptionSort] = useState<CaptionSort>(DEFAULT_CAPTION_SORT);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const viewedCaptionIds = useRef(new Set<string>());
   const [currentUsername, setCurrentUsername] = useState<string>('');
+  const [maxCaptionsPerUser, setMaxCaptionsPerUser] = useState(DEFAULT_MAX_CAPTIONS_PER_USER);
+  const [isModerator, setIsModerator] = useState(false);
+  const [showModPanel, setShowModPanel] = useState(false);
+  // Shows the carousel's captions as the render backend draws them
+  const [showFinalRender, setShowFinalRender] = useState(false);
+  const [reportingCaptionId, setReportingCaptionId] = useState<string | undefined>(undefined);
+  const [reportedCaptionIds, setReportedCaptionIds] = useState<string[]>([]);
   const [imageUrl, setImageUrl] = useState<string>('');
+  const [imageSize, setImageSize] = useState<ImageSize>(DEFAULT_IMAGE_SIZE);
+  const [fitMode, setFitMode] = useState<FitMode | undefined>(undefined);
   const [timeLeft, setTimeLeft] = useState(-999);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
   const [upvoting, setUpvoting] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [results, setResults] = useState<ContestResults | null>(null);
   const [error, setError] = useState<string>('');
+  const [errorSlot, setErrorSlot] = useState<CaptionSlot | undefined>(undefined);
+  const [errorLayer, setErrorLayer] = useState<number | undefined>(undefined);
+  const [, setFontsLoaded] = useState(false);
 
-  // Editor state for create mode
+  // Editor state for create and edit modes
+  const [editingCaptionId, setEditingCaptionId] = useState<string | undefined>(undefined);
   const [editorTopExtension, setEditorTopExtension] = useState(false);
   const [editorBottomExtension, setEditorBottomExtension] = useState(false);
+  // Caption slot or layer index the style toolbar edits, following the focused text box
+  const [styleTarget, setStyleTarget] = useState<CaptionSlot | number>('top');
 
   // Form state for new caption
   const [newCaption, setNewCaption] = useState({
@@ -89,13 +195,16 @@ export const App: React.FC = () => {
     bottomExtended: '',
     topExtensionWhite: false,
     bottomExtensionWhite: false,
+    styles: {} as CaptionStyles,
+    layers: [] as CaptionLayer[],
   });
 
-  // Refs for text measurement
-  const topTextRef = useRef<HTMLTextAreaElement>(null);
-  const bottomTextRef = useRef<HTMLTextAreaElement>(null);
-  const topExtendedTextRef = useRef<HTMLTextAreaElement>(null);
-  const bottomExtendedTextRef = useRef<HTMLTextAreaElement>(null);
+  // Re-render once the caption fonts can be measured, so line breaks match the render backend
+  useEffect(() => {
+    loadCaptionFonts()
+      .then(() => setFontsLoaded(true))
+      .catch((err) => console.error('Error loading caption fonts:', err));
+  }, []);
 
   // Load initial data
   useEffect(() => {
@@ -109,7 +218,7 @@ export const App: React.FC = () => {
           setCurrentUsername(DUMMY_DATA.username);
           setImageUrl(DUMMY_DATA.imageUrl);
 
-          // Add create mode caption if user doesn't have one
+          // Add create mode caption while the user may write more
           const userCaptions = DUMMY_DATA.captions.filter(
             (c) => c.username === DUMMY_DATA.username
           );
@@ -117,26 +226,20 @@ export const App: React.FC = () => {
             (c) => c.username !== DUMMY_DATA.username
           );
 
-          if (userCaptions.length === 0) {
-            setCaptions([
-              {
-                id: undefined,
-                username: DUMMY_DATA.username,
-                createdAt: Date.now(),
-                upvotes: 1,
-                userUpvoted: false,
-              },
-              ...otherCaptions,
-            ]);
-          } else {
-            setCaptions([...userCaptions, ...otherCaptions]);
-          }
+          setCaptions(
+            withUserCaptions(
+              userCaptions,
+              otherCaptions,
+              DUMMY_DATA.username,
+              DEFAULT_MAX_CAPTIONS_PER_USER
+            )
+          );
         } else {
           // Load from server
           const [usernameResponse, postResponse, captionsResponse] = await Promise.all([
             fetch('/api/username'),
             fetch('/api/post'),
-            fetch('/api/captions'),
+            fetch(`/api/captions?sort=${DEFAULT_CAPTION_SORT}`),
           ]);
 
           if (!usernameResponse.ok || !postResponse.ok || !captionsResponse.ok) {
@@ -148,30 +251,30 @@ export const App: React.FC = () => {
           const captionsData = await captionsResponse.json();
 
           setCurrentUsername(usernameData.username);
+          setIsModerator(!!usernameData.isModerator);
           setImageUrl(postData.imageUrl);
+          setFitMode(postData.fitMode);
           setTimeLeft(postData.timestamp);
+          const maxCaptions = postData.maxCaptionsPerUser ?? DEFAULT_MAX_CAPTIONS_PER_USER;
+          setMaxCaptionsPerUser(maxCaptions);
+
+          // Results posts show the winners of another contest
+          if (postData.view === 'results') {
+            const resultsResponse = await fetch('/api/results');
+            if (!resultsResponse.ok) {
+              throw new Error('Failed to load results');
+            }
+            setResults((await resultsResponse.json()).results);
+            return;
+          }
 
-          const userCaptions = captionsData.captions.filter(
-            (c: CaptionWithUpvotes) => c.username === usernameData.username
-          );
-          const otherCaptions = captionsData.captions.filter(
-            (c: CaptionWithUpvotes) => c.username !== usernameData.username
-          );
+          const userCaptions: CaptionWithUpvotes[] = captionsData.userCaptions;
+          const otherCaptions: CaptionWithUpvotes[] = captionsData.captions;
+          setNextCursor(captionsData.nextCursor);
 
-          if (userCaptions.length === 0) {
-            setCaptions([
-              {
-                id: undefined,
-                username: usernameData.username,
-                createdAt: Date.now(),
-                upvotes: 1,
-                userUpvoted: false,
-              },
-              ...otherCaptions,
-            ]);
-          } else {
-            setCaptions([...userCaptions, ...otherCaptions]);
-          }
+          setCaptions(
+            withUserCaptions(userCaptions, otherCaptions, usernameData.username, maxCaptions)
+          );
         }
       } catch (err) {
         console.error('Error loading initial data:', err);
@@ -182,83 +285,170 @@ export const App: React.FC = () => {
     };
 
     // Load Data
-    loadInitialData();
+    void loadInitialData();
   }, []);
 
+  // Carousel state read by live updates, which stay connected while it changes
+  const liveState = useRef({ captions, editingCaptionId });
+  useEffect(() => {
+    liveState.current = { captions, editingCaptionId };
+  }, [captions, editingCaptionId]);
+
+  // Live updates of the contest, merged without moving the caption being viewed or edited
+  useEffect(() => {
+    const { postId } = context;
+    if (USE_DUMMY_DATA || loading || results || !postId) return;
+
+    // Drops a caption from the carousel, which stays on the caption being viewed
+    const dropCaption = (captionId: string) => {
+      const index = liveState.current.captions.findIndex(({ id }) => id === captionId);
+      if (index === -1) return;
+
+      setCaptions((prev) => prev.filter(({ id }) => id !== captionId));
+      setCurrentCaptionIndex((prev) =>
+        Math.max(0, index < prev ? prev - 1 : Math.min(prev, liveState.current.captions.length - 2))
+      );
+    };
+
+    const connection = connectRealtime({
+      channel: getLiveChannel(postId),
+      onMessage: (data) => {
+        const message = data as unknown as LiveMessage;
+        if (message.type === 'caption-created') {
+          const { caption, upvotes } = message;
+          // The user's own captions are added by the create request itself
+          if (caption.username === currentUsername) return;
+
+          setCaptions((prev) =>
+            prev.some(({ id }) => id === caption.id)
+              ? prev
+              : [...prev, { ...caption, upvotes, userUpvoted: false }]
+          );
+        } else if (message.type === 'caption-updated') {
+          const { caption, upvotes, votesReset } = message;
+          if (caption.id === liveState.current.editingCaptionId) return;
+
+          // Captions removed by moderators stay listed for their author only, with a badge
+          if (caption.removed && caption.username !== currentUsername) {
+            dropCaption(caption.id!);
+            return;
+          }
+          setCaptions((prev) =>
+            prev.map((listed) =>
+              listed.id === caption.id
+                ? {
+                    ...caption,
+                    upvotes,
+                    // Only the author's upvote survives an edit that reset the votes
+                    userUpvoted: votesReset
+                      ? caption.username === currentUsername
+                      : listed.userUpvoted,
+                  }
+                : listed
+            )
+          );
+        } else if (message.type === 'caption-deleted') {
+          if (message.captionId === liveState.current.editingCaptionId) return;
+          dropCaption(message.captionId);
+        } else {
+          // Totals rather than deltas, so the user's own votes aren't counted twice
+          setCaptions((prev) =>
+            prev.map((caption) => {
+              const change = caption.id ? message.changes[caption.id] : undefined;
+              return change ? { ...caption, upvotes: change.upvotes } : caption;
+            })
+          );
+        }
+      },
+    });
+
+    return () => {
+      void connection.then((live) => live.disconnect());
+    };
+  }, [loading, results, currentUsername]);
+
+  // Load the next page of captions before the user reaches the end of the carousel
+  useEffect(() => {
+    if (USE_DUMMY_DATA || !nextCursor || loadingMore) return;
+    if (currentCaptionIndex < captions.length - 1 - LOAD_MORE_THRESHOLD) return;
+
+    const loadMoreCaptions = async () => {
+      try {
+        setLoadingMore(true);
+
+        const response = await fetch(`/api/captions?sort=${captionSort}&cursor=${nextCursor}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(getErrorMessage(errorData, 'Failed to load captions'));
+        }
+
+        const page = await response.json();
+        // Captions that moved up the order since the previous page are already listed
+        setCaptions((prev) => [
+          ...prev,
+          ...page.captions.filter(
+            (caption: CaptionWithUpvotes) => !prev.some(({ id }) => id === caption.id)
+          ),
+        ]);
+        setNextCursor(page.nextCursor);
+      } catch (err) {
+        console.error('Error loading more captions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load captions');
+        setNextCursor(undefined);
+      } finally {
+        setLoadingMore(false);
+      }
+    };
+
+    void loadMoreCaptions();
+  }, [currentCaptionIndex, captions.length, captionSort, nextCursor, loadingMore]);
+
   const currentCaption = captions[currentCaptionIndex];
   const isCreatingMode = currentCaption?.id === undefined;
+  const isEditingMode = !isCreatingMode && currentCaption?.id === editingCaptionId;
+  const isEditorMode = isCreatingMode || isEditingMode;
+  // Only saved captions have a final render
+  const finalRenderCaptionId = showFinalRender && !isEditorMode ? currentCaption?.id : undefined;
+  const isContestOpen = timeLeft > Date.now();
   const isUserCaption = currentCaption?.username === currentUsername;
 
+  // Count each caption of others as seen once it's shown, for the fair order and mod view counts
+  const viewedCaptionId = !isEditorMode && !isUserCaption ? currentCaption?.id : undefined;
+  useEffect(() => {
+    if (USE_DUMMY_DATA || !viewedCaptionId || viewedCaptionIds.current.has(viewedCaptionId)) return;
+    viewedCaptionIds.current.add(viewedCaptionId);
+
+    fetch(`/api/captions/${viewedCaptionId}/view`, { method: 'POST' })
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to record view (${response.status})`);
+      })
+      .catch((err) => console.error('Error recording caption view:', err));
+  }, [viewedCaptionId]);
+
   const getShowTopExtension = () => {
-    if (isCreatingMode) return editorTopExtension;
+    if (isEditorMode) return editorTopExtension;
     return !!currentCaption?.topExtendedCaption;
   };
 
   const getShowBottomExtension = () => {
-    if (isCreatingMode) return editorBottomExtension;
+    if (isEditorMode) return editorBottomExtension;
     return !!currentCaption?.bottomExtendedCaption;
   };
 
-  const getTextAreaHeight = (text: string) => {
-      const estimatedCharsPerLine = Math.floor(window.innerWidth / (((BASE_FONT_SIZE_VW * window.innerWidth) / 100) * 0.6));
-      const estimatedLines = Math.ceil(text.length / estimatedCharsPerLine);
-      return estimatedLines > 1 ? `${MIN_HEIGHT_2_LINES_VW}vw` : `${MIN_HEIGHT_1_LINE_VW}vw`;
-  };
-
-  const checkTextOverflow = (
-    textArea: HTMLTextAreaElement
-  ): { hit2Lines?: boolean; overflown: boolean } => {
-    if (!textArea) return { overflown: false };
-
-    const computedStyle = getComputedStyle(textArea);
-    const lineHeight = parseFloat(computedStyle.lineHeight);
-    const fontSize = parseFloat(computedStyle.fontSize);
-    const actualLineHeight = isNaN(lineHeight) ? fontSize * 1.2 : lineHeight;
-    const maxHeight = actualLineHeight * 3;
-
-    const currentHeight = textArea.scrollHeight;
-
-    return {
-      hit2Lines: currentHeight > Math.round(actualLineHeight * 2),
-      overflown: currentHeight > maxHeight,
-    };
-  };
-
-  const handleInputChange = (
-    field: string,
-    value: string,
-    textAreaRef: React.RefObject<HTMLTextAreaElement | null>
-  ) => {
-    if (!isCreatingMode) return;
-
-    const upperValue = value.toUpperCase();
-
-    if (textAreaRef.current) {
-      const originalValue = textAreaRef.current.value;
-      textAreaRef.current.value = upperValue;
-
-      const lineStatus = checkTextOverflow(textAreaRef.current);
-      textAreaRef.current.style.height = lineStatus.hit2Lines
-        ? `${MIN_HEIGHT_2_LINES_VW}vw`
-        : `${MIN_HEIGHT_1_LINE_VW}vw`;
-
-      if (lineStatus.overflown) {
-        textAreaRef.current.value = originalValue;
-        const prevLineStatus = checkTextOverflow(textAreaRef.current);
-        textAreaRef.current.style.height = prevLineStatus.hit2Lines
-          ? `${MIN_HEIGHT_2_LINES_VW}vw`
-          : `${MIN_HEIGHT_1_LINE_VW}vw`;
-        return;
-      }
+  const handleInputChange = (field: string, value: string) => {
+    if (!isEditorMode) return;
 
-      textAreaRef.current.value = originalValue;
-    }
+    // Reject input that would wrap past the maximum number of lines in the slot's style
+    const style = newCaption.styles[field as CaptionSlot];
+    if (wrapCaptionText(value, measureText, style).length > CAPTION_MAX_LINES) return;
 
-    setNewCaption((prev) => ({ ...prev, [field]: upperValue }));
+    // Text is kept as typed so the server can apply the subreddit's capital letters rule
+    setNewCaption((prev) => ({ ...prev, [field]: value }));
+    if (field === errorSlot) setErrorSlot(undefined);
   };
 
   const handleExtensionToggle = (position: 'top' | 'bottom') => {
-    if (!isCreatingMode) return;
+    if (!isEditorMode) return;
 
     if (position === 'top') {
       setEditorTopExtension(!editorTopExtension);
@@ -268,14 +458,139 @@ export const App: React.FC = () => {
   };
 
   const handleColorToggle = (position: 'top' | 'bottom', isWhite: boolean) => {
-    if (!isCreatingMode) return;
+    if (!isEditorMode) return;
 
     const field = position === 'top' ? 'topExtensionWhite' : 'bottomExtensionWhite';
     setNewCaption((prev) => ({ ...prev, [field]: isWhite }));
   };
 
+  const handleLayerChange = (index: number, layer: CaptionLayer) => {
+    if (!isEditorMode) return;
+
+    // Reject changes that would wrap the layer's text past the maximum number of lines
+    const lines = wrapCaptionText(
+      layer.text,
+      measureText,
+      layer.style,
+      layerWidth(layer, layout.image)
+    );
+    if (lines.length > CAPTION_LAYER_MAX_LINES) return;
+
+    setNewCaption((prev) => ({
+      ...prev,
+      layers: prev.layers.map((current, currentIndex) =>
+        currentIndex === index ? layer : current
+      ),
+    }));
+    if (index === errorLayer) setErrorLayer(undefined);
+  };
+
+  const handleAddLayer = () => {
+    if (!isEditorMode || newCaption.layers.length >= CAPTION_MAX_LAYERS) return;
+
+    setNewCaption((prev) => ({
+      ...prev,
+      layers: [...prev.layers, { ...DEFAULT_CAPTION_LAYER, text: '' }],
+    }));
+    setStyleTarget(newCaption.layers.length);
+  };
+
+  const handleDeleteLayer = (index: number) => {
+    if (!isEditorMode) return;
+
+    setNewCaption((prev) => ({
+      ...prev,
+      layers: prev.layers.filter((_, currentIndex) => currentIndex !== index),
+    }));
+    setStyleTarget('top');
+    setErrorLayer(undefined);
+  };
+
+  const handleStyleChange = (target: CaptionSlot | number, style: CaptionStyle) => {
+    if (!isEditorMode) return;
+
+    if (typeof target === 'number') {
+      const layer = newCaption.layers[target];
+      if (layer) handleLayerChange(target, { ...layer, style });
+      return;
+    }
+
+    // Reject styles that would wrap the slot's text past the maximum number of lines
+    const slot = target;
+    if (wrapCaptionText(newCaption[slot], measureText, style).length > CAPTION_MAX_LINES) return;
+
+    setNewCaption((prev) => {
+      const styles = { ...prev.styles, [slot]: style };
+      if (Object.keys(style).length === 0) delete styles[slot];
+      return { ...prev, styles };
+    });
+  };
+
+  // Text color of a slot or layer without a style, as drawn by the layout
+  const getDefaultFill = (slot: CaptionSlot | number) => {
+    if (slot === 'topExtended' && newCaption.topExtensionWhite) return '#000000';
+    if (slot === 'bottomExtended' && newCaption.bottomExtensionWhite) return '#000000';
+    return '#ffffff';
+  };
+
+  const getCaptionInput = (): CaptionInput => ({
+    topCaption: newCaption.top || undefined,
+    bottomCaption: newCaption.bottom || undefined,
+    topExtendedCaption: newCaption.topExtended || undefined,
+    bottomExtendedCaption: newCaption.bottomExtended || undefined,
+    topExtensionWhite: newCaption.topExtensionWhite,
+    bottomExtensionWhite: newCaption.bottomExtensionWhite,
+    styles: Object.keys(newCaption.styles).length > 0 ? newCaption.styles : undefined,
+    layers: newCaption.layers.length > 0 ? newCaption.layers : undefined,
+  });
+
+  const resetEditor = () => {
+    setNewCaption({
+      top: '',
+      bottom: '',
+      topExtended: '',
+      bottomExtended: '',
+      topExtensionWhite: false,
+      bottomExtensionWhite: false,
+      styles: {},
+      layers: [],
+    });
+    setEditorTopExtension(false);
+    setEditorBottomExtension(false);
+    setStyleTarget('top');
+    setErrorSlot(undefined);
+    setErrorLayer(undefined);
+  };
+
+  // Lists the captions of others again in another order, the user's own staying first
+  const handleSortChange = async (sort: CaptionSort) => {
+    try {
+      setLoadingMore(true);
+      setCaptionSort(sort);
+
+      const response = await fetch(`/api/captions?sort=${sort}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(getErrorMessage(errorData, 'Failed to load captions'));
+      }
+
+      const page = await response.json();
+      setCaptions((prev) => [
+        ...prev.filter((caption) => caption.username === currentUsername),
+        ...page.captions,
+      ]);
+      setNextCursor(page.nextCursor);
+      setCurrentCaptionIndex(0);
+    } catch (err) {
+      console.error('Error sorting captions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load captions');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handleUpvote = async () => {
-    if (isCreatingMode || isUserCaption || upvoting) return;
+    if (isEditorMode || isUserCaption || upvoting || !isContestOpen) return;
 
     try {
       setUpvoting(true);
@@ -301,24 +616,19 @@ export const App: React.FC = () => {
         const response = await fetch(`/api/captions/${currentCaption!.id}/upvote`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ upvoted: !currentCaption!.userUpvoted }),
         });
 
         if (!response.ok) {
           const errorData = await response.json();
-          throw new Error(errorData.message || 'Failed to upvote');
+          throw new Error(getErrorMessage(errorData, 'Failed to upvote'));
         }
 
-        const { userUpvoted } = await response.json();
+        const { userUpvoted, upvotes } = await response.json();
 
         setCaptions((prev) =>
           prev.map((caption) =>
-            caption.id === currentCaption!.id
-              ? {
-                  ...caption,
-                  upvotes: userUpvoted ? caption.upvotes + 1 : caption.upvotes - 1,
-                  userUpvoted,
-                }
-              : caption
+            caption.id === currentCaption!.id ? { ...caption, upvotes, userUpvoted } : caption
           )
         );
       }
@@ -330,9 +640,23 @@ export const App: React.FC = () => {
     }
   };
 
+  // Puts a caption the user created in place of the create mode caption, offering another while
+  // they may write more
+  const addUserCaption = (prev: CaptionWithUpvotes[], created: CaptionWithUpvotes) =>
+    withUserCaptions(
+      [...prev.filter(({ id, username }) => id && username === currentUsername), created],
+      prev.filter(({ username }) => username !== currentUsername),
+      currentUsername,
+      maxCaptionsPerUser
+    );
+
   const handleCreateCaption = async () => {
     const hasContent =
-      newCaption.top || newCaption.bottom || newCaption.topExtended || newCaption.bottomExtended;
+      newCaption.top ||
+      newCaption.bottom ||
+      newCaption.topExtended ||
+      newCaption.bottomExtended ||
+      newCaption.layers.some((layer) => layer.text.trim());
     if (!hasContent) {
       setError('At least one caption field must be filled');
       return;
@@ -347,46 +671,28 @@ export const App: React.FC = () => {
 
         // Create dummy caption
         const createdCaption: CaptionWithUpvotes = {
+          ...getCaptionInput(),
           id: Date.now().toString(),
           username: currentUsername,
-          topCaption: newCaption.top || undefined,
-          bottomCaption: newCaption.bottom || undefined,
-          topExtendedCaption: newCaption.topExtended || undefined,
-          bottomExtendedCaption: newCaption.bottomExtended || undefined,
-          topExtensionWhite: newCaption.topExtensionWhite,
-          bottomExtensionWhite: newCaption.bottomExtensionWhite,
           createdAt: Date.now(),
           upvotes: 1,
           userUpvoted: true,
         };
 
-        setCaptions((prev) => {
-          const newCaptions = [...prev];
-          newCaptions[0] = createdCaption;
-          return newCaptions;
-        });
+        setCaptions((prev) => addUserCaption(prev, createdCaption));
       } else {
-        // Real API call
-        const captionToCreate: Caption = {
-          username: currentUsername,
-          topCaption: newCaption.top || undefined,
-          bottomCaption: newCaption.bottom || undefined,
-          topExtendedCaption: newCaption.topExtended || undefined,
-          bottomExtendedCaption: newCaption.bottomExtended || undefined,
-          topExtensionWhite: newCaption.topExtensionWhite,
-          bottomExtensionWhite: newCaption.bottomExtensionWhite,
-          createdAt: Date.now(),
-        };
-
+        // Real API call (the server credits the caption to the logged in user)
         const response = await fetch('/api/captions/create', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(captionToCreate),
+          body: JSON.stringify(getCaptionInput()),
         });
 
         if (!response.ok) {
           const errorData = await response.json();
-          throw new Error(errorData.message || 'Failed to create caption');
+          setErrorSlot(getErrorSlot(errorData));
+          setErrorLayer(getErrorLayer(errorData));
+          throw new Error(getErrorMessage(errorData, 'Failed to create caption'));
         }
 
         const createdCaption = (await response.json()).caption;
@@ -396,24 +702,11 @@ export const App: React.FC = () => {
           userUpvoted: true,
         };
 
-        setCaptions((prev) => {
-          const newCaptions = [...prev];
-          newCaptions[0] = captionWithUpvotes;
-          return newCaptions;
-        });
+        setCaptions((prev) => addUserCaption(prev, captionWithUpvotes));
       }
 
       // Reset form
-      setNewCaption({
-        top: '',
-        bottom: '',
-        topExtended: '',
-        bottomExtended: '',
-        topExtensionWhite: false,
-        bottomExtensionWhite: false,
-      });
-      setEditorTopExtension(false);
-      setEditorBottomExtension(false);
+      resetEditor();
       setError('');
     } catch (err) {
       console.error('Error creating caption:', err);
@@ -423,8 +716,135 @@ export const App: React.FC = () => {
     }
   };
 
+  const handleStartEdit = () => {
+    if (!currentCaption?.id || !isUserCaption) return;
+
+    setNewCaption({
+      top: currentCaption.topCaption || '',
+      bottom: currentCaption.bottomCaption || '',
+      topExtended: currentCaption.topExtendedCaption || '',
+      bottomExtended: currentCaption.bottomExtendedCaption || '',
+      topExtensionWhite: !!currentCaption.topExtensionWhite,
+      bottomExtensionWhite: !!currentCaption.bottomExtensionWhite,
+      styles: currentCaption.styles ?? {},
+      layers: currentCaption.layers ?? [],
+    });
+    setEditorTopExtension(!!currentCaption.topExtendedCaption);
+    setEditorBottomExtension(!!currentCaption.bottomExtendedCaption);
+    setEditingCaptionId(currentCaption.id);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingCaptionId(undefined);
+    resetEditor();
+  };
+
+  const handleUpdateCaption = async () => {
+    const hasContent =
+      newCaption.top ||
+      newCaption.bottom ||
+      newCaption.topExtended ||
+      newCaption.bottomExtended ||
+      newCaption.layers.some((layer) => layer.text.trim());
+    if (!hasContent) {
+      setError('At least one caption field must be filled');
+      return;
+    }
+
+    try {
+      setCreating(true);
+
+      if (USE_DUMMY_DATA) {
+        // Simulate API delay
+        await new Promise((resolve) => setTimeout(resolve, 1500));
+
+        setCaptions((prev) =>
+          prev.map((caption) =>
+            caption.id === editingCaptionId
+              ? { ...caption, ...getCaptionInput(), updatedAt: Date.now() }
+              : caption
+          )
+        );
+      } else {
+        // Real API call
+        const response = await fetch(`/api/captions/${editingCaptionId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(getCaptionInput()),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          setErrorSlot(getErrorSlot(errorData));
+          setErrorLayer(getErrorLayer(errorData));
+          throw new Error(getErrorMessage(errorData, 'Failed to update caption'));
+        }
+
+        // The server returns the caption with its (possibly reset) upvotes
+        const updatedCaption: CaptionWithUpvotes = (await response.json()).caption;
+
+        setCaptions((prev) =>
+          prev.map((caption) => (caption.id === updatedCaption.id ? updatedCaption : caption))
+        );
+      }
+
+      setEditingCaptionId(undefined);
+      resetEditor();
+      setError('');
+    } catch (err) {
+      console.error('Error updating caption:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update caption');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDeleteCaption = async () => {
+    if (!currentCaption?.id || !isUserCaption || deleting) return;
+
+    const captionId = currentCaption.id;
+
+    try {
+      setDeleting(true);
+
+      if (USE_DUMMY_DATA) {
+        // Simulate API delay
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } else {
+        // Real API call
+        const response = await fetch(`/api/captions/${captionId}`, { method: 'DELETE' });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(getErrorMessage(errorData, 'Failed to delete caption'));
+        }
+      }
+
+      // Offer the create mode caption again now the user may write another caption
+      setCaptions((prev) =>
+        withUserCaptions(
+          prev.filter(({ id, username }) => id && id !== captionId && username === currentUsername),
+          prev.filter(({ username }) => username !== currentUsername),
+          currentUsername,
+          maxCaptionsPerUser
+        )
+      );
+      setCurrentCaptionIndex(0);
+      setError('');
+    } catch (err) {
+      console.error('Error deleting caption:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete caption');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  // Highlights the caption box that broke a rule
+  const getSlotErrorClass = (slot: CaptionSlot) =>
+    isEditorMode && errorSlot === slot ? 'ring-2 ring-red-500' : '';
+
   const getInputValue = (field: string) => {
-    if (isCreatingMode) {
+    if (isEditorMode) {
       return newCaption[field as keyof typeof newCaption] as string;
     }
 
@@ -442,36 +862,13 @@ export const App: React.FC = () => {
     }
   };
 
-  const getTextStyle = () => ({
-    fontSize: `${BASE_FONT_SIZE_VW}vw`,
-    lineHeight: '1.2',
-    fontWeight: 'bold',
-    textTransform: 'uppercase' as const,
-  });
-
-  const calculateBannerHeight = (text: string) => {
-    if (!text) return `${MIN_HEIGHT_1_LINE_VW + BANNER_PADDING_VW}vw`;
-
-    // Estimate lines based on text length and viewport width
-    const estimatedCharsPerLine = Math.floor(
-      window.innerWidth / (((BASE_FONT_SIZE_VW * window.innerWidth) / 100) * 0.6)
-    );
-    const estimatedLines = Math.ceil(text.length / estimatedCharsPerLine);
-    const lines = Math.min(estimatedLines, 2); // Max 2 lines
-
-    if (lines > 1) {
-      return `${MIN_HEIGHT_2_LINES_VW + BANNER_PADDING_VW}vw`;
-    }
-    return `${MIN_HEIGHT_1_LINE_VW + BANNER_PADDING_VW}vw`;
-  };
-
   const getExtensionBgColor = (position: 'top' | 'bottom') => {
     const isWhite =
       position === 'top'
-        ? isCreatingMode
+        ? isEditorMode
           ? newCaption.topExtensionWhite
           : currentCaption?.topExtensionWhite
-        : isCreatingMode
+        : isEditorMode
           ? newCaption.bottomExtensionWhite
           : currentCaption?.bottomExtensionWhite;
     return isWhite ? 'bg-white' : 'bg-black';
@@ -480,10 +877,10 @@ export const App: React.FC = () => {
   const getExtensionTextColor = (position: 'top' | 'bottom') => {
     const isWhite =
       position === 'top'
-        ? isCreatingMode
+        ? isEditorMode
           ? newCaption.topExtensionWhite
           : currentCaption?.topExtensionWhite
-        : isCreatingMode
+        : isEditorMode
           ? newCaption.bottomExtensionWhite
           : currentCaption?.bottomExtensionWhite;
     return isWhite ? 'text-black placeholder-black/50' : 'text-white placeholder-white/50';
@@ -497,14 +894,111 @@ export const App: React.FC = () => {
     );
   }
 
+  if (results) {
+    return <ResultsView results={results} />;
+  }
+
   const showTopExtension = getShowTopExtension();
   const showBottomExtension = getShowBottomExtension();
 
+  // Layout shared with the render backend, so the preview matches the posted meme
+  const editorSlots: CaptionSlot[] = ['top', 'bottom'];
+  if (showTopExtension) editorSlots.push('topExtended');
+  if (showBottomExtension) editorSlots.push('bottomExtended');
+
+  const layout = layoutCaption(
+    {
+      topCaption: getInputValue('top'),
+      bottomCaption: getInputValue('bottom'),
+      topExtendedCaption: showTopExtension ? getInputValue('topExtended') : undefined,
+      bottomExtendedCaption: showBottomExtension ? getInputValue('bottomExtended') : undefined,
+      topExtensionWhite: isEditorMode
+        ? newCaption.topExtensionWhite
+        : currentCaption?.topExtensionWhite,
+      bottomExtensionWhite: isEditorMode
+        ? newCaption.bottomExtensionWhite
+        : currentCaption?.bottomExtensionWhite,
+      styles: isEditorMode ? newCaption.styles : currentCaption?.styles,
+      layers: isEditorMode ? newCaption.layers : currentCaption?.layers,
+    },
+    imageSize,
+    measureText,
+    { slots: isEditorMode ? editorSlots : [], fitMode }
+  );
+
+  // Styles of a closed banner or deleted layer can't be edited, the toolbar falling back to the top caption
+  const visibleStyleTarget =
+    (styleTarget === 'topExtended' && !showTopExtension) ||
+    (styleTarget === 'bottomExtended' && !showBottomExtension) ||
+    (typeof styleTarget === 'number' && !newCaption.layers[styleTarget])
+      ? 'top'
+      : styleTarget;
+
+  const topBanner = layout.banners.find((banner) => banner.slot === 'topExtended');
+  const bottomBanner = layout.banners.find((banner) => banner.slot === 'bottomExtended');
+  const topExtendedText = layout.texts.find((text) => text.slot === 'topExtended');
+  const bottomExtendedText = layout.texts.find((text) => text.slot === 'bottomExtended');
+  const topText = layout.texts.find((text) => text.slot === 'top');
+  const bottomText = layout.texts.find((text) => text.slot === 'bottom');
+
+  // Merges a moderator's removal or restoration into the carousel
+  const handleModCaptionChange = (updatedCaption: Caption) => {
+    setCaptions((prev) =>
+      prev.map((caption) =>
+        caption.id === updatedCaption.id
+          ? {
+              ...caption,
+              removed: updatedCaption.removed,
+              removedBy: updatedCaption.removedBy,
+            }
+          : caption
+      )
+    );
+  };
+
+  // Keeps reported captions from being reported twice, and drops the ones reports just hid
+  const handleReported = (hidden: boolean) => {
+    const captionId = reportingCaptionId;
+    setReportingCaptionId(undefined);
+    if (!captionId) return;
+
+    setReportedCaptionIds((prev) => [...prev, captionId]);
+    if (hidden) {
+      setCaptions((prev) => prev.filter((caption) => caption.id !== captionId));
+      setCurrentCaptionIndex((prev) => Math.max(0, Math.min(prev, captions.length - 2)));
+    }
+  };
+
   return (
-    <div className="h-screen bg-[#0B1416] text-white flex flex-col">
-      <div className="flex-1 flex flex-col">
-        {/* Top Extension - Create Mode */}
-        {isCreatingMode && (
+    <div className="h-screen bg-[#0B1416] text-white flex flex-col relative">
+      {reportingCaptionId && (
+        <ReportDialog
+          captionId={reportingCaptionId}
+          onClose={() => setReportingCaptionId(undefined)}
+          onReported={handleReported}
+        />
+      )}
+
+      {showModPanel && (
+        <ModPanel
+          onClose={() => setShowModPanel(false)}
+          onCaptionChange={handleModCaptionChange}
+        />
+      )}
+
+      {/* Removed Badge */}
+      {!isEditorMode && currentCaption?.removed && (
+        <div className="bg-[#343536] text-[#D7DADC] px-4 py-1 text-center text-xs sm:text-sm">
+          Removed by moderators
+        </div>
+      )}
+
+      {/* Final Render - View Mode, the live preview staying loaded underneath */}
+      {finalRenderCaptionId && <FinalRender captionId={finalRenderCaptionId} />}
+
+      <div className={`flex-1 flex flex-col ${finalRenderCaptionId ? 'hidden' : ''}`}>
+        {/* Top Extension - Editor Mode */}
+        {isEditorMode && (
           <div className="relative">
             <div
               className="h-4 sm:h-6 bg-[#343536] flex items-center justify-center cursor-pointer"
@@ -517,10 +1011,10 @@ export const App: React.FC = () => {
               )}
             </div>
 
-            {showTopExtension && (
+            {topBanner && topExtendedText && (
               <div
-                className={`${getExtensionBgColor('top')} relative flex items-center justify-center`}
-                style={{ height: calculateBannerHeight(getInputValue('topExtended')) }}
+                className={`${getExtensionBgColor('top')} relative`}
+                style={{ height: toVw(topBanner.height) }}
               >
                 <div className="absolute top-1/2 right-1 sm:right-2 transform -translate-y-1/2 flex flex-col space-y-1 sm:space-y-2 z-10">
                   <button
@@ -537,22 +1031,15 @@ export const App: React.FC = () => {
                   />
                 </div>
                 <textarea
-                  ref={topExtendedTextRef}
-                  className={`w-full bg-transparent border-none outline-none resize-none m-0 text-center ${getExtensionTextColor('top')} overflow-hidden flex items-center justify-center`}
+                  className={`absolute bg-transparent border-none outline-none resize-none m-0 p-0 text-center ${getExtensionTextColor('top')} overflow-hidden ${getSlotErrorClass('topExtended')}`}
                   placeholder="EXTENDED TOP CAPTION..."
                   value={getInputValue('topExtended')}
-                  onChange={(e) =>
-                    handleInputChange('topExtended', e.target.value, topExtendedTextRef)
-                  }
-                  disabled={!isCreatingMode}
+                  onChange={(e) => handleInputChange('topExtended', e.target.value)}
+                  onFocus={() => setStyleTarget('topExtended')}
+                  disabled={!isEditorMode}
                   style={{
-                    ...getTextStyle(),
-                    height: getTextAreaHeight(getInputValue('topExtended')),
-                    minHeight: `${MIN_HEIGHT_1_LINE_VW}vw`,
-                    padding: `${BANNER_PADDING_VW / 2}vw 2vw`,
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
+                    ...getLayoutTextStyle(topExtendedText),
+                    ...getLayoutBoxStyle(topExtendedText, topBanner.y),
                   }}
                 />
               </div>
@@ -561,104 +1048,101 @@ export const App: React.FC = () => {
         )}
 
         {/* Top Extension - View Mode */}
-        {!isCreatingMode && showTopExtension && (
+        {!isEditorMode && topBanner && topExtendedText && (
           <div
-            className={`${getExtensionBgColor('top')} flex items-center justify-center`}
-            style={{ height: calculateBannerHeight(getInputValue('topExtended')) }}
+            className={`${getExtensionBgColor('top')} relative`}
+            style={{ height: toVw(topBanner.height) }}
           >
-            <div
-              className={`w-full text-center ${getExtensionTextColor('top')} flex items-center justify-center`}
-              style={{
-                ...getTextStyle(),
-                padding: `${BANNER_PADDING_VW / 2}vw 2vw`,
-              }}
-            >
-              {getInputValue('topExtended').toUpperCase()}
-            </div>
+            <CaptionLines text={topExtendedText} originY={topBanner.y} />
           </div>
         )}
 
         {/* Image with Overlays */}
-        <div className="relative flex-1">
+        <div
+          className="relative overflow-hidden"
+          style={{ height: toVw(layout.image.height), background: LETTERBOX_FILL }}
+        >
           {imageUrl && (
-            <img
+            <MemeImage
               src={imageUrl}
               alt="Caption this"
-              className="w-full h-full object-cover"
-              style={{ aspectRatio: '16/9' }}
+              style={getLayoutRectStyle(layout.source, layout.image.y)}
+              onSize={setImageSize}
             />
           )}
 
           {/* Top Caption Overlay */}
-          {(isCreatingMode || getInputValue('top')) && (
-            <div className="absolute top-2 sm:top-4 left-0 right-0">
-              <div className="mx-2 sm:mx-4">
-                <textarea
-                  ref={topTextRef}
-                  className="w-full bg-transparent border-none outline-none m-0 p-0 text-white placeholder-white/50 resize-none text-center overflow-hidden"
-                  placeholder="TOP CAPTION..."
-                  value={getInputValue('top')}
-                  onChange={(e) => handleInputChange('top', e.target.value, topTextRef)}
-                  disabled={!isCreatingMode}
-                  style={{
-                    ...getTextStyle(),
-                    textShadow: '2px 2px 4px rgba(0,0,0,0.8)',
-                    height: getTextAreaHeight(getInputValue('top')),
-                    minHeight: isCreatingMode ? `${MIN_HEIGHT_1_LINE_VW}vw` : 'auto',
-                  }}
-                />
-              </div>
-            </div>
-          )}
+          {topText &&
+            (isEditorMode ? (
+              <textarea
+                className={`absolute bg-transparent border-none outline-none m-0 p-0 placeholder-white/50 resize-none text-center overflow-hidden ${getSlotErrorClass('top')}`}
+                placeholder="TOP CAPTION..."
+                value={getInputValue('top')}
+                onChange={(e) => handleInputChange('top', e.target.value)}
+                onFocus={() => setStyleTarget('top')}
+                style={{
+                  ...getLayoutTextStyle(topText),
+                  ...getLayoutBoxStyle(topText, layout.image.y),
+                }}
+              />
+            ) : (
+              <CaptionLines text={topText} originY={layout.image.y} />
+            ))}
 
           {/* Bottom Caption Overlay */}
-          {(isCreatingMode || getInputValue('bottom')) && (
-            <div className="absolute bottom-2 sm:bottom-4 left-0 right-0">
-              <div className="mx-2 sm:mx-4">
-                <textarea
-                  ref={bottomTextRef}
-                  className="w-full bg-transparent border-none outline-none m-0 p-0 text-white placeholder-white/50 resize-none text-center overflow-hidden"
-                  placeholder="BOTTOM CAPTION..."
-                  value={getInputValue('bottom')}
-                  onChange={(e) => handleInputChange('bottom', e.target.value, bottomTextRef)}
-                  disabled={!isCreatingMode}
-                  style={{
-                    ...getTextStyle(),
-                    textShadow: '2px 2px 4px rgba(0,0,0,0.8)',
-                    height: getTextAreaHeight(getInputValue('bottom')),
-                    minHeight: isCreatingMode ? `${MIN_HEIGHT_1_LINE_VW}vw` : 'auto',
-                  }}
-                />
-              </div>
-            </div>
+          {bottomText &&
+            (isEditorMode ? (
+              <textarea
+                className={`absolute bg-transparent border-none outline-none m-0 p-0 placeholder-white/50 resize-none text-center overflow-hidden ${getSlotErrorClass('bottom')}`}
+                placeholder="BOTTOM CAPTION..."
+                value={getInputValue('bottom')}
+                onChange={(e) => handleInputChange('bottom', e.target.value)}
+                onFocus={() => setStyleTarget('bottom')}
+                style={{
+                  ...getLayoutTextStyle(bottomText),
+                  ...getLayoutBoxStyle(bottomText, layout.image.y),
+                }}
+              />
+            ) : (
+              <CaptionLines text={bottomText} originY={layout.image.y} />
+            ))}
+
+          {/* Text Layers */}
+          {layout.layers.map((layer) =>
+            isEditorMode ? (
+              <LayerEditor
+                key={layer.index}
+                layer={layer}
+                value={newCaption.layers[layer.index]!}
+                frame={layout.image}
+                selected={visibleStyleTarget === layer.index}
+                hasError={errorLayer === layer.index}
+                onSelect={() => setStyleTarget(layer.index)}
+                onChange={(value) => handleLayerChange(layer.index, value)}
+              />
+            ) : (
+              <CaptionLayerLines key={layer.index} layer={layer} originY={layout.image.y} />
+            )
           )}
         </div>
 
         {/* Bottom Extension - View Mode */}
-        {!isCreatingMode && showBottomExtension && (
+        {!isEditorMode && bottomBanner && bottomExtendedText && (
           <div
-            className={`${getExtensionBgColor('bottom')} flex items-center justify-center`}
-            style={{ height: calculateBannerHeight(getInputValue('bottomExtended')) }}
+            className={`${getExtensionBgColor('bottom')} relative`}
+            style={{ height: toVw(bottomBanner.height) }}
           >
-            <div
-              className={`w-full text-center ${getExtensionTextColor('bottom')} flex items-center justify-center`}
-              style={{
-                ...getTextStyle(),
-                padding: `${BANNER_PADDING_VW / 2}vw 2vw`,
-              }}
-            >
-              {getInputValue('bottomExtended').toUpperCase()}
-            </div>
+            <CaptionLines text={bottomExtendedText} originY={bottomBanner.y} />
           </div>
         )}
 
-        {/* Bottom Extension - Create Mode */}
-        {isCreatingMode && (
+        {/* Bottom Extension - Editor Mode */}
+        {isEditorMode && (
           <div className="relative">
-            {showBottomExtension && (
+            {bottomBanner && bottomExtendedText && (
               <div
-                className={`${getExtensionBgColor('bottom')} relative flex items-center justify-center`}
-                style={{ height: calculateBannerHeight(getInputValue('bottomExtended')) }}
+                className={`${getExtensionBgColor('bottom')} relative`}
+                style={{ height: toVw(bottomBanner.height) }}
               >
                 <div className="absolute top-1/2 right-1 sm:right-2 transform -translate-y-1/2 flex flex-col space-y-1 sm:space-y-2 z-10">
                   <button
@@ -675,22 +1159,15 @@ export const App: React.FC = () => {
                   />
                 </div>
                 <textarea
-                  ref={bottomExtendedTextRef}
-                  className={`w-full bg-transparent border-none outline-none resize-none m-0 text-center ${getExtensionTextColor('bottom')} overflow-hidden flex items-center justify-center`}
+                  className={`absolute bg-transparent border-none outline-none resize-none m-0 p-0 text-center ${getExtensionTextColor('bottom')} overflow-hidden ${getSlotErrorClass('bottomExtended')}`}
                   placeholder="EXTENDED BOTTOM CAPTION..."
                   value={getInputValue('bottomExtended')}
-                  onChange={(e) =>
-                    handleInputChange('bottomExtended', e.target.value, bottomExtendedTextRef)
-                  }
-                  disabled={!isCreatingMode}
+                  onChange={(e) => handleInputChange('bottomExtended', e.target.value)}
+                  onFocus={() => setStyleTarget('bottomExtended')}
+                  disabled={!isEditorMode}
                   style={{
-                    ...getTextStyle(),
-                    height: getTextAreaHeight(getInputValue('bottomExtended')),
-                    minHeight: `${MIN_HEIGHT_1_LINE_VW}vw`,
-                    padding: `${BANNER_PADDING_VW / 2}vw 2vw`,
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
+                    ...getLayoutTextStyle(bottomExtendedText),
+                    ...getLayoutBoxStyle(bottomExtendedText, bottomBanner.y),
                   }}
                 />
               </div>
@@ -709,6 +1186,58 @@ export const App: React.FC = () => {
         )}
       </div>
 
+      {/* Style Toolbar - Editor Mode */}
+      {isEditorMode && (
+        <StyleToolbar
+          label={
+            typeof visibleStyleTarget === 'number'
+              ? `Text ${visibleStyleTarget + 1}`
+              : SLOT_LABELS[visibleStyleTarget]
+          }
+          style={
+            (typeof visibleStyleTarget === 'number'
+              ? newCaption.layers[visibleStyleTarget]?.style
+              : newCaption.styles[visibleStyleTarget]) ?? {}
+          }
+          defaultFill={getDefaultFill(visibleStyleTarget)}
+          onChange={(style) => handleStyleChange(visibleStyleTarget, style)}
+        >
+          {typeof visibleStyleTarget === 'number' && (
+            <>
+              <label className="flex items-center gap-1">
+                Rotation
+                <input
+                  type="range"
+                  min={-180}
+                  max={180}
+                  step={5}
+                  value={newCaption.layers[visibleStyleTarget]!.rotation}
+                  onChange={(e) =>
+                    handleLayerChange(visibleStyleTarget, {
+                      ...newCaption.layers[visibleStyleTarget]!,
+                      rotation: Number(e.target.value),
+                    })
+                  }
+                />
+              </label>
+              <button
+                className="text-[#818384] hover:text-white underline"
+                onClick={() => handleDeleteLayer(visibleStyleTarget)}
+              >
+                Delete text
+              </button>
+            </>
+          )}
+          <button
+            className="px-2 py-0.5 rounded border border-[#343536] bg-[#272729] disabled:opacity-50"
+            onClick={handleAddLayer}
+            disabled={newCaption.layers.length >= CAPTION_MAX_LAYERS}
+          >
+            Add text
+          </button>
+        </StyleToolbar>
+      )}
+
       {/* Bottom Toolbar - Responsive */}
       <div className="h-20 sm:h-24 flex-shrink-0 bg-[#1A1A1B] border-t border-[#343536] flex items-center justify-between px-2 sm:px-4 lg:px-8">
         {/* Left - Username with BoltBadge */}
@@ -716,10 +1245,40 @@ export const App: React.FC = () => {
           <div className="text-[#D7DADC] font-bold text-sm sm:text-lg lg:text-xl truncate">
             u/{currentCaption?.username || currentUsername}
           </div>
+          {isModerator && (
+            <button
+              className="ml-2 sm:ml-3 text-[#818384] hover:text-white text-xs sm:text-sm underline"
+              onClick={() => setShowModPanel(true)}
+            >
+              Mod
+            </button>
+          )}
+          {!isEditorMode && currentCaption?.id && (
+            <button
+              className="ml-2 sm:ml-3 text-[#818384] hover:text-white text-xs sm:text-sm underline whitespace-nowrap"
+              onClick={() => setShowFinalRender(!showFinalRender)}
+            >
+              {showFinalRender ? 'View live' : 'View final'}
+            </button>
+          )}
         </div>
 
         {/* Center - Navigation */}
         <div className="flex items-center space-x-2 sm:space-x-4">
+          {!USE_DUMMY_DATA && (
+            <select
+              className="bg-[#272729] border border-[#343536] rounded px-1 py-0.5 text-xs sm:text-sm text-white disabled:opacity-50"
+              value={captionSort}
+              onChange={(e) => void handleSortChange(e.target.value as CaptionSort)}
+              disabled={loadingMore}
+            >
+              {(Object.keys(SORT_LABELS) as CaptionSort[]).map((sort) => (
+                <option key={sort} value={sort}>
+                  {SORT_LABELS[sort]}
+                </option>
+              ))}
+            </select>
+          )}
           <button
             className="p-2 sm:p-3 bg-[#272729] hover:bg-[#343536] rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors border border-[#343536]"
             onClick={() => setCurrentCaptionIndex(Math.max(0, currentCaptionIndex - 1))}
@@ -729,6 +1288,7 @@ export const App: React.FC = () => {
           </button>
           <span className="text-xs sm:text-sm text-[#818384] px-1 sm:px-3 font-medium whitespace-nowrap">
             {currentCaptionIndex + 1} / {captions.length}
+            {nextCursor ? '+' : ''}
           </span>
           <button
             className="p-2 sm:p-3 bg-[#272729] hover:bg-[#343536] rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors border border-[#343536]"
@@ -744,19 +1304,65 @@ export const App: React.FC = () => {
         {/* Right - Action Button */}
         <div className="flex flex-col items-center justify-center gap-2">
           <div className="flex-shrink-0">
-            {isCreatingMode ? (
-              <button
-                className="bg-[#FF4500] hover:bg-[#FF5722] disabled:bg-[#FF4500]/50 disabled:cursor-not-allowed text-white px-3 py-2 sm:px-6 sm:py-3 lg:px-8 rounded-full font-medium transition-colors shadow-lg text-xs sm:text-sm lg:text-base flex items-center space-x-2"
-                onClick={handleCreateCaption}
-                disabled={creating}
-              >
-                {creating && (
-                  <div className="w-3 h-3 sm:w-4 sm:h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            {isEditorMode ? (
+              <div className="flex items-center space-x-2 sm:space-x-3">
+                {isEditingMode && (
+                  <button
+                    className="text-[#818384] hover:text-white text-xs sm:text-sm underline disabled:opacity-50"
+                    onClick={handleCancelEdit}
+                    disabled={creating}
+                  >
+                    Cancel
+                  </button>
                 )}
-                <span>{creating ? 'Creating...' : `Add Caption` } </span>
-              </button>
+                <button
+                  className="bg-[#FF4500] hover:bg-[#FF5722] disabled:bg-[#FF4500]/50 disabled:cursor-not-allowed text-white px-3 py-2 sm:px-6 sm:py-3 lg:px-8 rounded-full font-medium transition-colors shadow-lg text-xs sm:text-sm lg:text-base flex items-center space-x-2"
+                  onClick={isEditingMode ? handleUpdateCaption : handleCreateCaption}
+                  disabled={creating || !isContestOpen}
+                >
+                  {creating && (
+                    <div className="w-3 h-3 sm:w-4 sm:h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                  )}
+                  <span>
+                    {isEditingMode
+                      ? creating
+                        ? 'Saving...'
+                        : 'Save Caption'
+                      : creating
+                        ? 'Creating...'
+                        : 'Add Caption'}
+                  </span>
+                </button>
+              </div>
             ) : (
               <div className="flex items-center space-x-2 sm:space-x-3">
+                {isUserCaption && isContestOpen && (
+                  <div className="flex flex-col items-start text-xs sm:text-sm">
+                    <button
+                      className="text-[#818384] hover:text-white underline disabled:opacity-50"
+                      onClick={handleStartEdit}
+                      disabled={deleting}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className="text-[#818384] hover:text-red-500 underline disabled:opacity-50"
+                      onClick={handleDeleteCaption}
+                      disabled={deleting}
+                    >
+                      {deleting ? 'Deleting...' : 'Delete'}
+                    </button>
+                  </div>
+                )}
+                {!isUserCaption && isContestOpen && currentCaption?.id && (
+                  <button
+                    className="text-[#818384] hover:text-red-500 text-xs sm:text-sm underline disabled:opacity-50 disabled:no-underline"
+                    onClick={() => setReportingCaptionId(currentCaption.id)}
+                    disabled={reportedCaptionIds.includes(currentCaption.id)}
+                  >
+                    {reportedCaptionIds.includes(currentCaption.id) ? 'Reported' : 'Report'}
+                  </button>
+                )}
                 <button
                   className={`p-2 sm:p-3 rounded-full transition-colors border flex items-center justify-center ${
                     isUserCaption
@@ -766,7 +1372,7 @@ export const App: React.FC = () => {
                         : 'bg-[#272729] hover:bg-[#FF4500] border-[#343536] hover:border-[#FF4500] cursor-pointer'
                   } ${upvoting ? 'cursor-not-allowed' : ''}`}
                   onClick={handleUpvote}
-                  disabled={isUserCaption || upvoting}
+                  disabled={isUserCaption || upvoting || !isContestOpen}
                 >
                   {upvoting ? (
                     <div className="w-3 h-3 sm:w-5 sm:h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
@@ -789,7 +1395,13 @@ export const App: React.FC = () => {
       {error && (
         <div className="bg-red-600 text-white px-4 py-2 text-center text-sm sm:text-base">
           {error}
-          <button className="ml-4 underline" onClick={() => setError('')}>
+          <button
+            className="ml-4 underline"
+            onClick={() => {
+              setError('');
+              setErrorSlot(undefined);
+            }}
+          >
             Dismiss
           </button>
         </div>
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { CaptionInput } from '../../shared/types/caption.type';
+import { FitMode } from '../../shared/types/post.type';
+import {
+  DEFAULT_IMAGE_SIZE,
+  ImageSize,
+  LETTERBOX_FILL,
+  layoutCaption,
+} from '../../shared/layout/caption.layout';
+import { CaptionLayerLines, CaptionLines } from '../utils/others';
+import { getLayoutRectStyle, measureText, toVw } from '../utils/layout';
+import { MemeImage } from './MemeImage';
+
+interface CaptionPreviewProps {
+  caption: CaptionInput;
+  imageUrl: string;
+  fitMode?: FitMode;
+}
+
+// Read-only meme drawn from the shared layout, spanning the full webview width
+export const CaptionPreview: React.FC<CaptionPreviewProps> = ({ caption, imageUrl, fitMode }) => {
+  const [imageSize, setImageSize] = useState<ImageSize>(DEFAULT_IMAGE_SIZE);
+  const layout = layoutCaption(caption, imageSize, measureText, { fitMode });
+
+  return (
+    <div className="relative w-full" style={{ height: toVw(layout.height) }}>
+      {layout.banners.map((banner) => (
+        <div
+          key={banner.slot}
+          className="absolute"
+          style={{
+            left: toVw(banner.x),
+            top: toVw(banner.y),
+            width: toVw(banner.width),
+            height: toVw(banner.height),
+            background: banner.fill,
+          }}
+        />
+      ))}
+      <div
+        className="absolute overflow-hidden"
+        style={{ ...getLayoutRectStyle(layout.image), background: LETTERBOX_FILL }}
+      >
+        <MemeImage
+          src={imageUrl}
+          alt="Caption contest"
+          style={getLayoutRectStyle(
+            { ...layout.source, x: layout.source.x - layout.image.x },
+            layout.image.y
+          )}
+          onSize={setImageSize}
+        />
+        {layout.layers.map((layer) => (
+          <CaptionLayerLines key={layer.index} layer={layer} originY={layout.image.y} />
+        ))}
+      </div>
+      {layout.texts.map((text) => (
+        <CaptionLines key={text.slot} text={text} originY={0} />
+      ))}
+    </div>
+  );
+};
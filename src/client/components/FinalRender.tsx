@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { getErrorMessage } from '../utils/errors';
+
+interface FinalRenderProps {
+  captionId: string;
+}
+
+// Caption as the render backend draws it, i.e. the image posted when the contest ends
+export const FinalRender: React.FC<FinalRenderProps> = ({ captionId }) => {
+  const [imageUrl, setImageUrl] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let objectUrl = '';
+    let cancelled = false;
+
+    const loadRender = async () => {
+      try {
+        setImageUrl('');
+        setError('');
+
+        const response = await fetch(`/api/captions/${captionId}/render`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(getErrorMessage(errorData, 'Failed to render caption'));
+        }
+
+        const image = await response.blob();
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(image);
+        setImageUrl(objectUrl);
+      } catch (err) {
+        console.error('Error loading final render:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to render caption');
+        }
+      }
+    };
+
+    void loadRender();
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [captionId]);
+
+  return (
+    <div className="flex-1 flex items-center justify-center bg-black">
+      {imageUrl ? (
+        <img src={imageUrl} alt="Final meme" className="w-full h-auto" />
+      ) : error ? (
+        <div className="text-red-500 text-xs sm:text-sm px-4 text-center">{error}</div>
+      ) : (
+        <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin" />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useRef } from 'react';
+import { CaptionLayer } from '../../shared/types/caption.type';
+import {
+  CAPTION_LAYER_MIN_WIDTH,
+  LayoutLayer,
+  LayoutRect,
+} from '../../shared/layout/caption.layout';
+import { getLayoutRectStyle, getLayoutTextStyle, toLayoutUnits } from '../utils/layout';
+
+interface LayerEditorProps {
+  layer: LayoutLayer;
+  value: CaptionLayer;
+  // Image frame the layer is positioned on
+  frame: LayoutRect;
+  selected: boolean;
+  hasError: boolean;
+  onSelect: () => void;
+  onChange: (layer: CaptionLayer) => void;
+}
+
+// Pointer gesture in progress, with the layer as it was when the gesture started
+type Gesture = {
+  kind: 'move' | 'resize';
+  pointerX: number;
+  pointerY: number;
+  layer: CaptionLayer;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Text layer of the editor, dragged by its handle and resized from its right edge
+export const LayerEditor: React.FC<LayerEditorProps> = ({
+  layer,
+  value,
+  frame,
+  selected,
+  hasError,
+  onSelect,
+  onChange,
+}) => {
+  const gesture = useRef<Gesture | undefined>(undefined);
+
+  const startGesture = (kind: Gesture['kind']) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    gesture.current = { kind, pointerX: e.clientX, pointerY: e.clientY, layer: value };
+    onSelect();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = gesture.current;
+    if (!current) return;
+
+    const dx = toLayoutUnits(e.clientX - current.pointerX);
+    const dy = toLayoutUnits(e.clientY - current.pointerY);
+
+    if (current.kind === 'move') {
+      onChange({
+        ...current.layer,
+        x: clamp(current.layer.x + dx / frame.width, 0, 1),
+        y: clamp(current.layer.y + dy / frame.height, 0, 1),
+      });
+      return;
+    }
+
+    // Resizing follows the layer's own axis, both edges moving as the layer stays centered
+    const radians = (current.layer.rotation * Math.PI) / 180;
+    const distance = dx * Math.cos(radians) + dy * Math.sin(radians);
+    onChange({
+      ...current.layer,
+      width: clamp(current.layer.width + (2 * distance) / frame.width, CAPTION_LAYER_MIN_WIDTH, 1),
+    });
+  };
+
+  const endGesture = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!gesture.current) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    gesture.current = undefined;
+  };
+
+  const handleClass = 'absolute z-10 bg-[#FF4500] border border-white touch-none';
+
+  return (
+    <div
+      className={`absolute ${selected ? 'outline outline-1 outline-dashed outline-white' : ''} ${
+        hasError ? 'ring-2 ring-red-500' : ''
+      }`}
+      style={{
+        ...getLayoutRectStyle(layer.box, frame.y),
+        transform: `rotate(${layer.rotation}deg)`,
+      }}
+    >
+      <textarea
+        className="absolute inset-0 w-full h-full bg-transparent border-none outline-none resize-none m-0 p-0 overflow-hidden placeholder-white/50"
+        placeholder="TEXT..."
+        value={value.text}
+        onChange={(e) => onChange({ ...value, text: e.target.value })}
+        onFocus={onSelect}
+        style={getLayoutTextStyle(layer)}
+      />
+      {selected && (
+        <>
+          <div
+            className={`${handleClass} -top-2 -left-2 w-4 h-4 rounded-full cursor-move`}
+            onPointerDown={startGesture('move')}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endGesture}
+            onPointerCancel={endGesture}
+          />
+          <div
+            className={`${handleClass} top-1/2 -right-1.5 w-3 h-6 -translate-y-1/2 rounded cursor-ew-resize`}
+            onPointerDown={startGesture('resize')}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endGesture}
+            onPointerCancel={endGesture}
+          />
+        </>
+      )}
+    </div>
+  );
+};
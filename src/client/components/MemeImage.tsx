@@ -0,0 +1,59 @@
+import React, { useRef, useState } from 'react';
+import { ImageSize } from '../../shared/layout/caption.layout';
+import { getNaturalSize } from '../utils/layout';
+
+interface MemeImageProps {
+  src: string;
+  alt: string;
+  // Position of the image in its frame
+  style: React.CSSProperties;
+  onSize: (size: ImageSize) => void;
+}
+
+// Reddit keeps the extension of uploaded images, which tells animated GIFs apart
+const isGifUrl = (url: string) => /\.gif($|\?)/i.test(url);
+
+// Image of a meme, which animated GIFs play in with a pause button to hold a frame
+export const MemeImage: React.FC<MemeImageProps> = ({ src, alt, style, onSize }) => {
+  const image = useRef<HTMLImageElement>(null);
+  const frame = useRef<HTMLCanvasElement>(null);
+  const [paused, setPaused] = useState(false);
+
+  // The GIF keeps playing underneath, its current frame is copied over it while paused
+  const togglePaused = () => {
+    if (!paused && image.current && frame.current) {
+      frame.current.width = image.current.naturalWidth;
+      frame.current.height = image.current.naturalHeight;
+      frame.current.getContext('2d')?.drawImage(image.current, 0, 0);
+    }
+    setPaused(!paused);
+  };
+
+  return (
+    <>
+      <img
+        ref={image}
+        src={src}
+        alt={alt}
+        className="absolute max-w-none"
+        style={style}
+        onLoad={(e) => onSize(getNaturalSize(e.currentTarget))}
+      />
+      {isGifUrl(src) && (
+        <>
+          <canvas
+            ref={frame}
+            className={`absolute max-w-none ${paused ? '' : 'hidden'}`}
+            style={style}
+          />
+          <button
+            className="absolute top-1 right-1 z-20 px-2 py-0.5 rounded bg-black/60 text-white text-xs"
+            onClick={togglePaused}
+          >
+            {paused ? 'Play' : 'Pause'}
+          </button>
+        </>
+      )}
+    </>
+  );
+};
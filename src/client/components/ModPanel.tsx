@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { Caption } from '../../shared/types/caption.type';
+import {
+  ModAction,
+  ModCaption,
+  ModLogEntry,
+  REPORTS_MODERATOR,
+} from '../../shared/types/moderation.type';
+import { PublishJob } from '../../shared/types/publish.type';
+import { getErrorMessage } from '../utils/errors';
+
+interface ModPanelProps {
+  onClose: () => void;
+  onCaptionChange: (caption: Caption) => void;
+}
+
+// Past tense of each mod log action
+const ACTION_LABELS: Record<ModAction, string> = {
+  remove: 'removed',
+  restore: 'restored',
+  hide: 'hid',
+};
+
+// Who removed a caption, as shown to moderators
+const formatRemovedBy = (removedBy?: string) =>
+  removedBy === REPORTS_MODERATOR ? 'hidden by user reports' : `removed by u/${removedBy}`;
+
+// One line summary of every caption slot and layer
+const summarizeCaption = (caption: Caption) =>
+  [
+    caption.topExtendedCaption,
+    caption.topCaption,
+    caption.bottomCaption,
+    caption.bottomExtendedCaption,
+    ...(caption.layers ?? []).map((layer) => layer.text),
+  ]
+    .filter(Boolean)
+    .join(' / ');
+
+export const ModPanel: React.FC<ModPanelProps> = ({ onClose, onCaptionChange }) => {
+  const [captions, setCaptions] = useState<ModCaption[]>([]);
+  const [entries, setEntries] = useState<ModLogEntry[]>([]);
+  const [failedJobs, setFailedJobs] = useState<PublishJob[]>([]);
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busyCaptionId, setBusyCaptionId] = useState<string | undefined>(undefined);
+  const [retryingPostId, setRetryingPostId] = useState<string | undefined>(undefined);
+  const [error, setError] = useState('');
+
+  const loadQueue = async () => {
+    const [captionsResponse, logResponse, failuresResponse] = await Promise.all([
+      fetch('/api/mod/captions'),
+      fetch('/api/mod/log'),
+      fetch('/api/mod/publish-failures'),
+    ]);
+
+    const failedResponse = [captionsResponse, logResponse, failuresResponse].find(
+      (response) => !response.ok
+    );
+    if (failedResponse) {
+      const errorData = await failedResponse.json();
+      throw new Error(getErrorMessage(errorData, 'Failed to load moderation queue'));
+    }
+
+    setCaptions((await captionsResponse.json()).captions);
+    setEntries((await logResponse.json()).entries);
+    setFailedJobs((await failuresResponse.json()).jobs);
+  };
+
+  // Load captions and mod log
+  useEffect(() => {
+    loadQueue()
+      .catch((err) => {
+        console.error('Error loading moderation queue:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load moderation queue');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleModAction = async (caption: ModCaption, action: 'remove' | 'restore') => {
+    if (!caption.id || busyCaptionId) return;
+
+    try {
+      setBusyCaptionId(caption.id);
+
+      const response = await fetch(`/api/mod/captions/${caption.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'remove' ? { reason } : {}),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(getErrorMessage(errorData, `Failed to ${action} caption`));
+      }
+
+      const updatedCaption: Caption = (await response.json()).caption;
+      onCaptionChange(updatedCaption);
+
+      await loadQueue();
+      setError('');
+    } catch (err) {
+      console.error(`Error trying to ${action} caption:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} caption`);
+    } finally {
+      setBusyCaptionId(undefined);
+    }
+  };
+
+  const handleRetryJob = async (job: PublishJob) => {
+    if (retryingPostId) return;
+
+    try {
+      setRetryingPostId(job.postId);
+
+      const response = await fetch(`/api/mod/publish-failures/${job.postId}/retry`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(getErrorMessage(errorData, 'Failed to retry results'));
+      }
+
+      setFailedJobs((prev) => prev.filter((failedJob) => failedJob.postId !== job.postId));
+      setError('');
+    } catch (err) {
+      console.error('Error retrying results:', err);
+      setError(err instanceof Error ? err.message : 'Failed to retry results');
+    } finally {
+      setRetryingPostId(undefined);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 bg-[#0B1416] text-white flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-[#343536]">
+        <div className="font-bold text-sm sm:text-lg">Moderation</div>
+        <button className="text-[#818384] hover:text-white underline text-sm" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-4">
+        {loading ? (
+          <div className="text-sm text-[#818384]">Loading...</div>
+        ) : (
+          <>
+            <input
+              className="w-full bg-[#1A1A1B] border border-[#343536] rounded px-2 py-1 text-sm"
+              placeholder="Removal reason (optional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+
+            {/* Captions */}
+            <div className="space-y-2">
+              {captions.length === 0 && (
+                <div className="text-sm text-[#818384]">No captions yet.</div>
+              )}
+              {captions.map((caption) => (
+                <div
+                  key={caption.id}
+                  className={`flex items-center justify-between gap-2 bg-[#1A1A1B] border border-[#343536] rounded px-3 py-2 ${
+                    caption.removed ? 'opacity-60' : ''
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm truncate">{summarizeCaption(caption)}</div>
+                    <div className="text-xs text-[#818384]">
+                      u/{caption.username} · {caption.upvotes} upvotes · {caption.impressions} views
+                      {caption.reportCount > 0 && ` · ${caption.reportCount} reports`}
+                      {caption.removed && ` · ${formatRemovedBy(caption.removedBy)}`}
+                    </div>
+                    {caption.reports.map((report) => (
+                      <div key={report.username} className="text-xs text-[#818384] truncate">
+                        u/{report.username}: {report.reason}
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    className="flex-shrink-0 text-xs sm:text-sm px-3 py-1 rounded-full border border-[#343536] hover:border-[#FF4500] disabled:opacity-50"
+                    onClick={() => handleModAction(caption, caption.removed ? 'restore' : 'remove')}
+                    disabled={busyCaptionId !== undefined}
+                  >
+                    {busyCaptionId === caption.id ? '...' : caption.removed ? 'Restore' : 'Remove'}
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {/* Failed Results */}
+            {failedJobs.length > 0 && (
+              <div>
+                <div className="font-bold text-sm mb-2">Results that failed to post</div>
+                {failedJobs.map((job) => (
+                  <div
+                    key={job.postId}
+                    className="flex items-center justify-between gap-2 bg-[#1A1A1B] border border-red-600 rounded px-3 py-2 mb-2"
+                  >
+                    <div className="min-w-0 text-xs text-[#818384]">
+                      <div className="text-sm text-white truncate">
+                        Post {job.postId} · {job.winners.length} winners
+                      </div>
+                      <div className="truncate">
+                        Failed {job.attempts} times at {job.failedStep}: {job.lastError}
+                      </div>
+                    </div>
+                    <button
+                      className="flex-shrink-0 text-xs sm:text-sm px-3 py-1 rounded-full border border-[#343536] hover:border-[#FF4500] disabled:opacity-50"
+                      onClick={() => handleRetryJob(job)}
+                      disabled={retryingPostId !== undefined}
+                    >
+                      {retryingPostId === job.postId ? '...' : 'Retry'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Mod Log */}
+            <div>
+              <div className="font-bold text-sm mb-2">Mod log</div>
+              {entries.length === 0 && (
+                <div className="text-sm text-[#818384]">No actions yet.</div>
+              )}
+              {entries.map((entry) => (
+                <div key={entry.id} className="text-xs text-[#818384]">
+                  {new Date(entry.createdAt).toLocaleString()} ·{' '}
+                  {entry.moderator === REPORTS_MODERATOR ? 'User reports' : `u/${entry.moderator}`}{' '}
+                  {ACTION_LABELS[entry.action]} caption {entry.captionId.slice(0, 8)}
+                  {entry.reason && ` (${entry.reason})`}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-600 text-white px-4 py-2 text-center text-sm">
+          {error}
+          <button className="ml-4 underline" onClick={() => setError('')}>
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
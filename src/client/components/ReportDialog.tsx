@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { getErrorMessage } from '../utils/errors';
+
+// Same limit as the server's REPORT_REASON_MAX_LENGTH
+const REASON_MAX_LENGTH = 200;
+
+interface ReportDialogProps {
+  captionId: string;
+  onClose: () => void;
+  onReported: (hidden: boolean) => void;
+}
+
+export const ReportDialog: React.FC<ReportDialogProps> = ({ captionId, onClose, onReported }) => {
+  const [reason, setReason] = useState('');
+  const [reporting, setReporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleReport = async () => {
+    if (reporting) return;
+
+    try {
+      setReporting(true);
+
+      const response = await fetch(`/api/captions/${captionId}/report`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(getErrorMessage(errorData, 'Failed to report caption'));
+      }
+
+      const result = await response.json();
+      onReported(result.hidden);
+    } catch (err) {
+      console.error('Error reporting caption:', err);
+      setError(err instanceof Error ? err.message : 'Failed to report caption');
+    } finally {
+      setReporting(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 bg-black/70 flex items-center justify-center px-4">
+      <div className="w-full max-w-md bg-[#1A1A1B] border border-[#343536] rounded-lg p-4 space-y-3">
+        <div className="font-bold text-sm sm:text-lg">Report caption</div>
+        <textarea
+          className="w-full h-20 bg-[#0B1416] border border-[#343536] rounded px-2 py-1 text-sm resize-none"
+          placeholder="Why should moderators look at this caption?"
+          maxLength={REASON_MAX_LENGTH}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        {error && <div className="text-red-500 text-xs sm:text-sm">{error}</div>}
+        <div className="flex items-center justify-end space-x-3">
+          <button
+            className="text-[#818384] hover:text-white text-xs sm:text-sm underline disabled:opacity-50"
+            onClick={onClose}
+            disabled={reporting}
+          >
+            Cancel
+          </button>
+          <button
+            className="bg-[#FF4500] hover:bg-[#FF5722] disabled:bg-[#FF4500]/50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-full font-medium text-xs sm:text-sm"
+            onClick={handleReport}
+            disabled={reporting || !reason.trim()}
+          >
+            {reporting ? 'Reporting...' : 'Report'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { context, navigateTo } from '@devvit/web/client';
+import { ContestResults } from '../../shared/types/results.type';
+import { CaptionPreview } from './CaptionPreview';
+
+interface ResultsViewProps {
+  results: ContestResults;
+}
+
+export const ResultsView: React.FC<ResultsViewProps> = ({ results }) => {
+  // Results posts list themselves among the result posts
+  const resultPostIds = results.resultPostIds.filter((postId) => postId !== context.postId);
+
+  return (
+    <div className="h-screen bg-[#0B1416] text-white flex flex-col">
+      <div className="flex-shrink-0 bg-[#1A1A1B] border-b border-[#343536] px-4 py-3">
+        <div className="font-bold text-sm sm:text-lg lg:text-xl">Caption contest results</div>
+        <div className="text-xs sm:text-sm text-[#818384]">
+          Ended {new Date(results.finishedAt).toLocaleString()} · Submissions and votes are closed
+        </div>
+        {resultPostIds.length > 0 && (
+          <div className="flex flex-wrap gap-x-3 text-xs sm:text-sm">
+            {resultPostIds.map((postId, index) => (
+              <button
+                key={postId}
+                className="text-[#818384] hover:text-white underline"
+                onClick={() =>
+                  navigateTo(`https://www.reddit.com/comments/${postId.replace(/^t3_/, '')}`)
+                }
+              >
+                {resultPostIds.length === 1
+                  ? 'See the results post'
+                  : `See result post ${index + 1}`}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {results.winners.length === 0 && (
+          <div className="px-4 py-6 text-center text-sm text-[#818384]">
+            No caption got enough upvotes to win.
+          </div>
+        )}
+        {results.winners.map((winner) => (
+          <div key={winner.captionId} className="border-b border-[#343536] pb-3">
+            <div className="flex items-center justify-between px-4 py-2">
+              <div className="font-bold text-sm sm:text-lg">
+                #{winner.rank} · u/{winner.username}
+              </div>
+              <div className="text-[#D7DADC] font-bold text-xs sm:text-sm">
+                {winner.upvotes} upvotes
+              </div>
+            </div>
+            <CaptionPreview
+              caption={winner.caption}
+              imageUrl={results.imageUrl}
+              fitMode={results.fitMode}
+            />
+            {winner.imageUrl && (
+              <button
+                className="block px-4 pt-2 text-xs sm:text-sm text-[#818384] hover:text-white underline"
+                onClick={() => navigateTo(winner.imageUrl!)}
+              >
+                Open the generated image
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React from 'react';
+import {
+  CaptionAlign,
+  CaptionCasing,
+  CaptionFont,
+  CaptionStyle,
+} from '../../shared/types/caption.type';
+import {
+  CAPTION_ALIGNS,
+  CAPTION_FONTS,
+  CAPTION_FONT_SIZE,
+  CAPTION_FONT_SIZE_RANGE,
+  CAPTION_STROKE_WIDTH_MAX,
+  DEFAULT_STROKE_WIDTH,
+} from '../../shared/layout/caption.layout';
+
+// Font size change of each size button press
+const FONT_SIZE_STEP = 4;
+
+const CASING_LABELS: Record<CaptionCasing, string> = {
+  upper: 'ABC',
+  lower: 'abc',
+  none: 'As typed',
+};
+
+const ALIGN_LABELS: Record<CaptionAlign, string> = {
+  left: 'Left',
+  center: 'Center',
+  right: 'Right',
+};
+
+interface StyleToolbarProps {
+  // Caption slot or layer being styled
+  label: string;
+  style: CaptionStyle;
+  // Text color of the slot when the style sets none
+  defaultFill: string;
+  onChange: (style: CaptionStyle) => void;
+  // Extra controls for what is being styled
+  children?: React.ReactNode;
+}
+
+// Editor controls for the style of the caption slot or layer being edited
+export const StyleToolbar: React.FC<StyleToolbarProps> = ({
+  label,
+  style,
+  defaultFill,
+  onChange,
+  children,
+}) => {
+  const fontSize = style.fontSize ?? CAPTION_FONT_SIZE;
+  const strokeWidth = style.stroke ? (style.strokeWidth ?? DEFAULT_STROKE_WIDTH) : 0;
+
+  // Unset properties are dropped so the caption keeps the classic look for them
+  const update = (changes: Partial<CaptionStyle>) => {
+    const next: CaptionStyle = { ...style, ...changes };
+    for (const key of Object.keys(next) as (keyof CaptionStyle)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+    onChange(next);
+  };
+
+  const selectClass =
+    'bg-[#272729] border border-[#343536] rounded px-1 py-0.5 text-xs sm:text-sm text-white';
+  const buttonClass =
+    'px-2 py-0.5 rounded border border-[#343536] text-xs sm:text-sm disabled:opacity-50';
+
+  return (
+    <div className="flex-shrink-0 bg-[#1A1A1B] border-t border-[#343536] px-2 sm:px-4 py-2 flex flex-wrap items-center gap-2 text-xs sm:text-sm">
+      <span className="text-[#818384]">{label}</span>
+
+      <select
+        className={selectClass}
+        value={style.fontFamily ?? ''}
+        onChange={(e) => update({ fontFamily: (e.target.value || undefined) as CaptionFont })}
+      >
+        <option value="">Classic</option>
+        {(Object.keys(CAPTION_FONTS) as CaptionFont[]).map((font) => (
+          <option key={font} value={font}>
+            {CAPTION_FONTS[font].label}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-1">
+        <button
+          className={`${buttonClass} bg-[#272729]`}
+          onClick={() =>
+            update({ fontSize: Math.max(fontSize - FONT_SIZE_STEP, CAPTION_FONT_SIZE_RANGE.min) })
+          }
+          disabled={fontSize <= CAPTION_FONT_SIZE_RANGE.min}
+        >
+          A-
+        </button>
+        <span className="w-6 text-center">{fontSize}</span>
+        <button
+          className={`${buttonClass} bg-[#272729]`}
+          onClick={() =>
+            update({ fontSize: Math.min(fontSize + FONT_SIZE_STEP, CAPTION_FONT_SIZE_RANGE.max) })
+          }
+          disabled={fontSize >= CAPTION_FONT_SIZE_RANGE.max}
+        >
+          A+
+        </button>
+      </div>
+
+      <label className="flex items-center gap-1">
+        Color
+        <input
+          type="color"
+          className="w-6 h-6 bg-transparent"
+          value={style.fill ?? defaultFill}
+          onChange={(e) => update({ fill: e.target.value })}
+        />
+      </label>
+
+      <label className="flex items-center gap-1">
+        Outline
+        <select
+          className={selectClass}
+          value={strokeWidth}
+          onChange={(e) => {
+            const width = Number(e.target.value);
+            update(
+              width > 0
+                ? { stroke: style.stroke ?? '#000000', strokeWidth: width }
+                : { stroke: undefined, strokeWidth: undefined }
+            );
+          }}
+        >
+          <option value={0}>None</option>
+          {Array.from({ length: CAPTION_STROKE_WIDTH_MAX }, (_, index) => index + 1).map(
+            (width) => (
+              <option key={width} value={width}>
+                {width}
+              </option>
+            )
+          )}
+        </select>
+        {style.stroke && (
+          <input
+            type="color"
+            className="w-6 h-6 bg-transparent"
+            value={style.stroke}
+            onChange={(e) => update({ stroke: e.target.value })}
+          />
+        )}
+      </label>
+
+      <select
+        className={selectClass}
+        value={style.casing ?? 'upper'}
+        onChange={(e) => update({ casing: e.target.value as CaptionCasing })}
+      >
+        {(Object.keys(CASING_LABELS) as CaptionCasing[]).map((casing) => (
+          <option key={casing} value={casing}>
+            {CASING_LABELS[casing]}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-1">
+        {CAPTION_ALIGNS.map((align) => (
+          <button
+            key={align}
+            className={`${buttonClass} ${
+              (style.align ?? 'center') === align ? 'bg-[#FF4500]' : 'bg-[#272729]'
+            }`}
+            onClick={() => update({ align })}
+          >
+            {ALIGN_LABELS[align]}
+          </button>
+        ))}
+      </div>
+
+      <button
+        className="text-[#818384] hover:text-white underline disabled:opacity-50"
+        onClick={() => onChange({})}
+        disabled={Object.keys(style).length === 0}
+      >
+        Reset
+      </button>
+
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import { CaptionErrorCode, ErrorResponse } from '../../shared/types/error.type';
+import { CaptionSlot } from '../../shared/layout/caption.layout';
+
+// User facing message for each caption error code
+const CAPTION_ERROR_MESSAGES: Record<CaptionErrorCode, string> = {
+  UNAUTHENTICATED: 'Log in to Reddit to add a caption',
+  POST_NOT_FOUND: 'This caption contest has ended',
+  CAPTION_NOT_FOUND: 'This caption no longer exists',
+  NOT_AUTHOR: 'You can only change your own captions',
+  CONTEST_CLOSED: 'This caption contest is closed',
+  NOT_MODERATOR: 'Only moderators can do this',
+  INVALID_BODY: 'Your caption could not be read, please try again',
+  UNKNOWN_FIELD: 'Your caption could not be read, please try again',
+  INVALID_FIELD: 'Your caption could not be read, please try again',
+  TEXT_TOO_LONG: 'This caption is too long',
+  EMPTY_CAPTION: 'At least one caption field must be filled',
+  CAPTION_LIMIT_REACHED: "You've already added the maximum number of captions to this post",
+  OWN_CAPTION: "You can't report your own caption",
+  ALREADY_REPORTED: "You've already reported this caption",
+  EMPTY_REPORT_REASON: 'Tell the moderators why you are reporting this caption',
+  BLOCKED_WORD: "This caption contains a word that isn't allowed in this community",
+  BANNED_LINK: "This caption links to a site that isn't allowed in this community",
+  TOO_MANY_CAPITALS: 'This caption uses too many capital letters',
+  INVALID_STYLE: "This caption style isn't available",
+  PUBLISH_JOB_NOT_FOUND: 'These results are already being posted again',
+  RATE_LIMITED: "You're doing that too often, wait a minute and try again",
+  RENDER_FAILED: "The final image couldn't be made, please try again",
+  VOTE_CONFLICT: 'Lots of people are voting on this caption, please try again',
+};
+
+// Caption box of each caption input field
+const FIELD_SLOTS: Record<string, CaptionSlot> = {
+  topCaption: 'top',
+  bottomCaption: 'bottom',
+  topExtendedCaption: 'topExtended',
+  bottomExtendedCaption: 'bottomExtended',
+  'styles.topExtended': 'topExtended',
+  'styles.top': 'top',
+  'styles.bottom': 'bottom',
+  'styles.bottomExtended': 'bottomExtended',
+};
+
+/**
+ * Picks the message to show for a failed API call
+ */
+export function getErrorMessage(data: Partial<ErrorResponse>, fallback: string): string {
+  if (data.code) return CAPTION_ERROR_MESSAGES[data.code];
+  return data.message || fallback;
+}
+
+/**
+ * Picks the caption box a failed API call blames, if any
+ */
+export function getErrorSlot(data: Partial<ErrorResponse>): CaptionSlot | undefined {
+  return data.field ? FIELD_SLOTS[data.field] : undefined;
+}
+
+/**
+ * Picks the index of the text layer a failed API call blames, if any
+ */
+export function getErrorLayer(data: Partial<ErrorResponse>): number | undefined {
+  const match = data.field ? /^layers\.(\d+)/.exec(data.field) : null;
+  return match ? Number(match[1]) : undefined;
+}
@@ -0,0 +1,72 @@
+import {
+  CAPTION_FONTS,
+  LAYOUT_WIDTH,
+  LayoutLayer,
+  LayoutRect,
+  LayoutText,
+  ImageSize,
+  TextMeasurer,
+  captionFont,
+  createTextMeasurer,
+} from '../../shared/layout/caption.layout';
+import { CaptionCasing } from '../../shared/types/caption.type';
+
+const measureContext = document.createElement('canvas').getContext('2d');
+
+// Measures text with the browser's canvas, falling back to an average glyph width
+export const measureText: TextMeasurer = measureContext
+  ? createTextMeasurer(measureContext)
+  : (text, font) => text.length * parseFloat(font.split(' ')[1] ?? '0') * 0.6;
+
+// Converts layout units to viewport width, the preview spanning the full webview width
+export const toVw = (units: number) => `${(units / LAYOUT_WIDTH) * 100}vw`;
+
+// Converts a pointer distance in pixels back to layout units
+export const toLayoutUnits = (pixels: number) => (pixels / window.innerWidth) * LAYOUT_WIDTH;
+
+// Loads the bundled caption fonts, resolving once text can be measured with them
+export const loadCaptionFonts = () =>
+  Promise.all(
+    Object.values(CAPTION_FONTS).map(({ family }) =>
+      document.fonts.load(captionFont(undefined, `"${family}"`))
+    )
+  );
+
+const TEXT_TRANSFORMS: Record<CaptionCasing, 'uppercase' | 'lowercase' | 'none'> = {
+  upper: 'uppercase',
+  lower: 'lowercase',
+  none: 'none',
+};
+
+// Inline styles shared by every caption text rendered from a layout
+export const getLayoutTextStyle = (text: LayoutText | LayoutLayer) => ({
+  fontFamily: text.fontFamily,
+  fontWeight: text.fontWeight,
+  fontSize: toVw(text.fontSize),
+  lineHeight: toVw(text.lineHeight),
+  color: text.fill,
+  textShadow: text.shadow ? `0 0 4px ${text.shadow}` : undefined,
+  textTransform: TEXT_TRANSFORMS[text.casing],
+  textAlign: text.align,
+  // Drawn under the fill, so the outer half of the stroke shows like on the rendered meme
+  WebkitTextStroke: text.stroke ? `${toVw(text.strokeWidth * 2)} ${text.stroke}` : undefined,
+  paintOrder: 'stroke fill',
+});
+
+// Absolute position of a layout rectangle inside a container starting at originY
+export const getLayoutRectStyle = (rect: LayoutRect, originY = 0) => ({
+  left: toVw(rect.x),
+  top: toVw(rect.y - originY),
+  width: toVw(rect.width),
+  height: toVw(rect.height),
+});
+
+// Absolute position of a layout text box inside a container starting at originY
+export const getLayoutBoxStyle = (text: LayoutText, originY = 0) =>
+  getLayoutRectStyle(text.box, originY);
+
+// Natural size of a loaded image, for laying it out at its own aspect ratio
+export const getNaturalSize = (image: HTMLImageElement): ImageSize => ({
+  width: image.naturalWidth,
+  height: image.naturalHeight,
+});
@@ -1,4 +1,6 @@
 import { useEffect, useState } from 'react';
+import { LayoutLayer, LayoutText } from '../../shared/layout/caption.layout';
+import { getLayoutBoxStyle, getLayoutRectStyle, getLayoutTextStyle } from './layout';
 
 type CountdownProps = { targetTimestamp: number; };
 export function Countdown({ targetTimestamp }: CountdownProps) {
@@ -38,3 +40,39 @@ function getTimeLeft(target: number) {
 
   return { total: diff, days, hours, minutes, seconds };
 }
+
+type CaptionLinesProps = { text: LayoutText; originY: number };
+export function CaptionLines({ text, originY }: CaptionLinesProps) {
+  return (
+    <div
+      className="absolute text-center"
+      style={{ ...getLayoutTextStyle(text), ...getLayoutBoxStyle(text, originY) }}
+    >
+      {text.lines.map((line, index) => (
+        <div key={index} className="whitespace-pre">
+          {line}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type CaptionLayerLinesProps = { layer: LayoutLayer; originY: number };
+export function CaptionLayerLines({ layer, originY }: CaptionLayerLinesProps) {
+  return (
+    <div
+      className="absolute"
+      style={{
+        ...getLayoutTextStyle(layer),
+        ...getLayoutRectStyle(layer.box, originY),
+        transform: `rotate(${layer.rotation}deg)`,
+      }}
+    >
+      {layer.lines.map((line, index) => (
+        <div key={index} className="whitespace-pre">
+          {line}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import opentype from 'opentype.js';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { CAPTION_FONTS, captionFont, captionFontFamily } from '../../shared/layout/caption.layout';
+import { CaptionFont } from '../../shared/types/caption.type';
+import { measureCaptionText } from './captions.measure';
+
+const FONT_SIZE = 40;
+
+// Font file the metrics of a caption font were built from
+const loadFont = (font: CaptionFont) =>
+  opentype.loadSync(
+    fileURLToPath(new URL(`../../../backend/fonts/${CAPTION_FONTS[font].file}`, import.meta.url))
+  );
+
+const PRINTABLE_ASCII = Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index));
+
+describe.each(Object.keys(CAPTION_FONTS) as CaptionFont[])('measureCaptionText in %s', (name) => {
+  const font = loadFont(name);
+  const measure = (text: string) =>
+    measureCaptionText(text, captionFont(FONT_SIZE, captionFontFamily(name)));
+
+  it('measures every character of the font file like it', () => {
+    for (const codePoint of Object.keys(font.tables.cmap!.glyphIndexMap)) {
+      const char = String.fromCodePoint(Number(codePoint));
+      expect(measure(char), `U+${Number(codePoint).toString(16)}`).toBeCloseTo(
+        font.getAdvanceWidth(char, FONT_SIZE),
+        6
+      );
+    }
+  });
+
+  it('kerns every pair of printable ASCII characters like the font file', () => {
+    for (const left of PRINTABLE_ASCII) {
+      for (const right of PRINTABLE_ASCII) {
+        expect(measure(left + right), left + right).toBeCloseTo(
+          font.getAdvanceWidth(left + right, FONT_SIZE),
+          6
+        );
+      }
+    }
+  });
+
+  it.each([
+    'WHEN THE CODE WORKS ON THE FIRST TRY',
+    'Yet another "AVATAR" — Tout à l’heure, déjà vu',
+    'Ελληνικά και кириллица',
+    'Missing glyphs 🙃 漢字',
+  ])('measures "%s" like the font file', (text) => {
+    expect(measure(text)).toBeCloseTo(font.getAdvanceWidth(text, FONT_SIZE), 6);
+  });
+});
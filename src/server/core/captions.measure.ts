@@ -0,0 +1,38 @@
+import { TextMeasurer } from '../../shared/layout/caption.layout';
+import metrics from './captions.metrics.json';
+
+// Glyph metrics of a bundled font in font units, built from its file by tools/build-font-metrics.js
+interface FontMetrics {
+  unitsPerEm: number;
+  missingAdvance: number;
+  advances: Record<string, number>;
+  // Adjustment of the advance between two characters, by left then right character
+  kerning: Record<string, Record<string, number>>;
+}
+
+// Metrics by family of the fonts the webview and the render backend draw with
+const FONT_METRICS: Record<string, FontMetrics | undefined> = metrics;
+
+/**
+ * Measures caption text from the metrics of the bundled fonts, wrapping captions on the server like
+ * the webview and the render backend do
+ *
+ * Fonts are given as the CSS shorthand built by captionFont, its first family being measured.
+ */
+export const measureCaptionText: TextMeasurer = (text, font) => {
+  const [, size, families] = /^\w+ ([\d.]+)px (.+)$/.exec(font) ?? [];
+  const family = families?.split(',')[0]?.trim().replace(/^"|"$/g, '');
+  const fontMetrics = family ? FONT_METRICS[family] : undefined;
+  if (!fontMetrics) throw new Error(`Font ${font} isn't bundled`);
+
+  const { unitsPerEm, missingAdvance, advances, kerning } = fontMetrics;
+  let width = 0;
+  let previous: string | undefined;
+  for (const char of text) {
+    width += advances[char] ?? missingAdvance;
+    if (previous) width += kerning[previous]?.[char] ?? 0;
+    previous = char;
+  }
+
+  return (width * Number(size)) / unitsPerEm;
+};
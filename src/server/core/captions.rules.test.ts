@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CaptionInput } from '../../shared/types/caption.type';
+import {
+  CaptionRules,
+  checkCaptionRules,
+  parseBannedDomains,
+  parseBlockedWords,
+} from './captions.rules';
+import { CaptionError } from './errors';
+
+const RULES: CaptionRules = {
+  blockedWords: [],
+  maxLength: 100,
+  maxCapitalsPercent: 0,
+  blockLinks: false,
+  bannedDomains: [],
+};
+
+// Gets the code and field of the error the rules throw for a caption, if any
+function check(input: CaptionInput, rules: Partial<CaptionRules>) {
+  try {
+    checkCaptionRules(input, { ...RULES, ...rules });
+    return undefined;
+  } catch (error) {
+    if (!(error instanceof CaptionError)) throw error;
+    return { code: error.code, field: error.field, status: error.status };
+  }
+}
+
+describe('parseBlockedWords', () => {
+  it('matches plain entries as whole words regardless of case', () => {
+    const [pattern] = parseBlockedWords('  Spoon \n\n');
+
+    expect(pattern!.test('There is no SPOON')).toBe(true);
+    expect(pattern!.test('Teaspoons only')).toBe(false);
+  });
+
+  it('escapes plain entries and reads /pattern/flags lines as regular expressions', () => {
+    const [literal, regex] = parseBlockedWords('c++\n/ba+d/i');
+
+    expect(literal!.test('I write C++ for fun')).toBe(true);
+    expect(literal!.test('I write c for fun')).toBe(false);
+    expect(regex!.test('This is BAAAD')).toBe(true);
+  });
+
+  it('skips invalid regular expressions', () => {
+    vi.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+
+    expect(parseBlockedWords('/(/\nspoon')).toHaveLength(1);
+  });
+});
+
+describe('parseBannedDomains', () => {
+  it('keeps the lowercase host of each line', () => {
+    expect(parseBannedDomains('https://www.Example.com/path\n\n  spam.net  ')).toEqual([
+      'example.com',
+      'spam.net',
+    ]);
+  });
+});
+
+describe('checkCaptionRules', () => {
+  it('accepts captions following every rule', () => {
+    const rules = {
+      blockedWords: parseBlockedWords('spoon'),
+      maxCapitalsPercent: 50,
+      bannedDomains: ['spam.net'],
+    };
+
+    expect(check({ topCaption: 'When the code works', bottomCaption: 'LOL' }, rules)).toBe(
+      undefined
+    );
+  });
+
+  it('rejects blocked words and expressions in any text', () => {
+    const blockedWords = parseBlockedWords('spoon\n/fr[o0]g/i');
+
+    expect(check({ bottomCaption: 'There is no spoon' }, { blockedWords })).toEqual({
+      code: 'BLOCKED_WORD',
+      field: 'bottomCaption',
+      status: 400,
+    });
+    expect(
+      check(
+        { layers: [{ text: 'FR0G', x: 0.5, y: 0.5, width: 0.5, rotation: 0 }] },
+        { blockedWords }
+      )
+    ).toMatchObject({ code: 'BLOCKED_WORD', field: 'layers.0' });
+  });
+
+  it('rejects texts over the maximum length', () => {
+    expect(check({ topExtendedCaption: 'a'.repeat(11) }, { maxLength: 10 })).toMatchObject({
+      code: 'TEXT_TOO_LONG',
+      field: 'topExtendedCaption',
+    });
+    expect(check({ topExtendedCaption: 'a'.repeat(10) }, { maxLength: 10 })).toBe(undefined);
+  });
+
+  it('rejects texts over the capital letters ratio, short ones aside', () => {
+    expect(check({ topCaption: 'STOP SHOUTING please' }, { maxCapitalsPercent: 50 })).toMatchObject(
+      { code: 'TOO_MANY_CAPITALS', field: 'topCaption' }
+    );
+    expect(check({ topCaption: 'Stop SHOUTING please' }, { maxCapitalsPercent: 50 })).toBe(
+      undefined
+    );
+    expect(check({ topCaption: 'OMG WHY' }, { maxCapitalsPercent: 50 })).toBe(undefined);
+    expect(check({ topCaption: 'STOP SHOUTING PLEASE' }, { maxCapitalsPercent: 0 })).toBe(
+      undefined
+    );
+  });
+
+  it('rejects every link when links are blocked', () => {
+    for (const text of ['see https://example.com/a', 'go to www.example.com', 'example.co.uk']) {
+      expect(check({ topCaption: text }, { blockLinks: true })).toMatchObject({
+        code: 'BANNED_LINK',
+      });
+    }
+    expect(check({ topCaption: 'no links here.' }, { blockLinks: true })).toBe(undefined);
+  });
+
+  it('rejects links to banned domains and their subdomains only', () => {
+    const bannedDomains = ['spam.net'];
+
+    expect(check({ topCaption: 'buy at shop.spam.net' }, { bannedDomains })).toMatchObject({
+      code: 'BANNED_LINK',
+    });
+    expect(check({ topCaption: 'https://WWW.SPAM.NET/deal' }, { bannedDomains })).toMatchObject({
+      code: 'BANNED_LINK',
+    });
+    expect(check({ topCaption: 'read notspam.net' }, { bannedDomains })).toBe(undefined);
+  });
+});
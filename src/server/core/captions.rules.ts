@@ -0,0 +1,142 @@
+import { CaptionInput } from '../../shared/types/caption.type';
+import { CaptionError } from './errors';
+
+// Subreddit rules every caption text must follow
+export interface CaptionRules {
+  blockedWords: RegExp[];
+  maxLength: number;
+  // Highest share of capital letters allowed, in percent (0 turns the rule off)
+  maxCapitalsPercent: number;
+  blockLinks: boolean;
+  bannedDomains: string[];
+}
+
+// Short texts like "LOL" are never counted as shouting
+const CAPITALS_MIN_LETTERS = 10;
+
+const TEXT_FIELDS = [
+  'topCaption',
+  'bottomCaption',
+  'topExtendedCaption',
+  'bottomExtendedCaption',
+] as const;
+
+// Links with or without a scheme, e.g. https://example.com/a or www.example.com
+const LINK_PATTERN =
+  /\b(?:https?:\/\/|www\.)([^\s/?#]+)[^\s]*|\b((?:[a-z0-9-]+\.)+[a-z]{2,})(?:\/[^\s]*)?/gi;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Parses the blocked words setting, one entry per line
+ *
+ * `/pattern/flags` lines are regular expressions, anything else matches as a whole word
+ * regardless of case. Invalid expressions are skipped.
+ */
+export function parseBlockedWords(setting: string): RegExp[] {
+  const patterns: RegExp[] = [];
+
+  for (const line of setting.split('\n')) {
+    const entry = line.trim();
+    if (!entry) continue;
+
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(entry);
+    try {
+      patterns.push(
+        regex
+          ? new RegExp(regex[1]!, regex[2]!.replace('g', ''))
+          : new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(entry)}(?![\\p{L}\\p{N}])`, 'iu')
+      );
+    } catch (error) {
+      console.error(`Skipping invalid blocked word pattern ${entry}:`, error);
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Parses the banned domains setting, one domain per line
+ */
+export function parseBannedDomains(setting: string): string[] {
+  return setting
+    .split('\n')
+    .map((line) =>
+      line
+        .trim()
+        .toLowerCase()
+        .replace(/^https?:\/\//, '')
+        .replace(/^www\./, '')
+        .replace(/\/.*$/, '')
+    )
+    .filter(Boolean);
+}
+
+/**
+ * Throws a field-level CaptionError for the first caption text breaking a subreddit rule
+ */
+export function checkCaptionRules(input: CaptionInput, rules: CaptionRules): void {
+  const texts: [field: string, text: string | undefined][] = [
+    ...TEXT_FIELDS.map((field) => [field, input[field]] as [string, string | undefined]),
+    ...(input.layers ?? []).map(
+      (layer, index) => [`layers.${index}`, layer.text] as [string, string]
+    ),
+  ];
+
+  for (const [field, text] of texts) {
+    if (!text) continue;
+
+    if (text.length > rules.maxLength) {
+      throw new CaptionError(
+        'TEXT_TOO_LONG',
+        `${field} must be at most ${rules.maxLength} characters`,
+        { field }
+      );
+    }
+
+    if (rules.blockedWords.some((pattern) => pattern.test(text))) {
+      throw new CaptionError('BLOCKED_WORD', `${field} contains a blocked word`, { field });
+    }
+
+    const bannedLink = findBannedLink(text, rules);
+    if (bannedLink) {
+      throw new CaptionError('BANNED_LINK', `${field} links to ${bannedLink}`, { field });
+    }
+
+    if (rules.maxCapitalsPercent > 0) {
+      const letters = text.match(/\p{L}/gu) ?? [];
+      const capitals = text.match(/\p{Lu}/gu) ?? [];
+      if (
+        letters.length >= CAPITALS_MIN_LETTERS &&
+        (capitals.length / letters.length) * 100 > rules.maxCapitalsPercent
+      ) {
+        throw new CaptionError(
+          'TOO_MANY_CAPITALS',
+          `${field} must be at most ${rules.maxCapitalsPercent}% capital letters`,
+          { field }
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Finds the first link the rules forbid, returning its domain
+ */
+function findBannedLink(text: string, rules: CaptionRules): string | undefined {
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    const domain = (match[1] ?? match[2] ?? '').toLowerCase().replace(/^www\./, '');
+    if (!domain) continue;
+
+    if (rules.blockLinks) return domain;
+    if (
+      rules.bannedDomains.some(
+        (bannedDomain) => domain === bannedDomain || domain.endsWith(`.${bannedDomain}`)
+      )
+    ) {
+      return domain;
+    }
+  }
+
+  return undefined;
+}
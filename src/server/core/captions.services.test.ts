@@ -0,0 +1,368 @@
+import { RedisClient } from '@devvit/redis';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Caption, CaptionSort } from '../../shared/types/caption.type';
+import { CaptionsServices } from './captions.services';
+import { CaptionRules } from './captions.rules';
+import { ImpressionsServices } from './impressions.services';
+import { PostsServices } from './posts.services';
+import { createRedisStub } from './redis.stub';
+
+const POST_ID = 't3_post';
+
+const RULES: CaptionRules = {
+  blockedWords: [],
+  maxLength: 200,
+  maxCapitalsPercent: 0,
+  blockLinks: false,
+  bannedDomains: [],
+};
+
+let redis: RedisClient;
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  redis = createRedisStub();
+  await PostsServices.createPost(redis, {
+    id: POST_ID,
+    imageUrl: 'https://i.redd.it/meme.png',
+    deletesAt: Date.now() + 24 * 60 * 60 * 1000,
+    winnersCount: 3,
+    minUpvotes: 1,
+    status: 'open',
+    resultsMode: 'separate',
+    fitMode: 'fit',
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// Writes a caption as username, one millisecond after the previous one unless told otherwise
+async function addCaption(username: string, options: { sameTime?: boolean } = {}) {
+  if (!options.sameTime) vi.advanceTimersByTime(1);
+  return CaptionsServices.createCaption(
+    redis,
+    POST_ID,
+    username,
+    { topCaption: `Caption by ${username}` },
+    { maxCaptionsPerUser: 10 },
+    RULES
+  );
+}
+
+// Upvotes a caption by as many voters as given, on top of its author's upvote
+async function upvote(captionId: string, voters: number) {
+  for (let voter = 0; voter < voters; voter++) {
+    await CaptionsServices.setUpvote(redis, POST_ID, captionId, `voter${voter}`, true);
+  }
+}
+
+describe('getTopCaptions', () => {
+  it('ranks captions by upvotes, keeping only the winners count', async () => {
+    const first = await addCaption('alice');
+    const second = await addCaption('bob');
+    const third = await addCaption('carol');
+    await upvote(first.id!, 1);
+    await upvote(third.id!, 3);
+
+    const winners = await CaptionsServices.getTopCaptions(redis, POST_ID, {
+      count: 2,
+      minUpvotes: 1,
+    });
+
+    expect(winners.map(({ id, upvotes }) => ({ id, upvotes }))).toEqual([
+      { id: third.id, upvotes: 4 },
+      { id: first.id, upvotes: 2 },
+    ]);
+    expect(winners.map(({ id }) => id)).not.toContain(second.id);
+  });
+
+  it('breaks ties by the earliest caption, then by caption ID', async () => {
+    const late = await addCaption('alice');
+    const early = await addCaption('bob');
+    const sameTimeA = await addCaption('carol');
+    const sameTimeB = await addCaption('dave', { sameTime: true });
+    vi.setSystemTime(new Date('2025-12-31T00:00:00Z'));
+    const earliest = await addCaption('erin');
+    await Promise.all([late, early, sameTimeA, sameTimeB].map(({ id }) => upvote(id!, 2)));
+    await upvote(earliest.id!, 1);
+
+    const winners = await CaptionsServices.getTopCaptions(redis, POST_ID, {
+      count: 5,
+      minUpvotes: 1,
+    });
+
+    const sameTime = [sameTimeA.id!, sameTimeB.id!].sort();
+    expect(winners.map(({ id }) => id)).toEqual([late.id, early.id, ...sameTime, earliest.id]);
+  });
+
+  it('leaves out captions below the minimum upvotes', async () => {
+    const popular = await addCaption('alice');
+    const borderline = await addCaption('bob');
+    await addCaption('carol');
+    await upvote(popular.id!, 4);
+    await upvote(borderline.id!, 2);
+
+    const winners = await CaptionsServices.getTopCaptions(redis, POST_ID, {
+      count: 3,
+      minUpvotes: 3,
+    });
+
+    expect(winners.map(({ id }) => id)).toEqual([popular.id, borderline.id]);
+  });
+
+  it("doesn't let removed captions win", async () => {
+    const removed = await addCaption('alice');
+    const kept = await addCaption('bob');
+    await upvote(removed.id!, 5);
+    await CaptionsServices.setCaptionRemoved(redis, POST_ID, removed.id!, { removedBy: 'mod' });
+
+    const winners = await CaptionsServices.getTopCaptions(redis, POST_ID, {
+      count: 3,
+      minUpvotes: 1,
+    });
+
+    expect(winners.map(({ id }) => id)).toEqual([kept.id]);
+  });
+});
+
+describe('setCaptionRemoved', () => {
+  it('keeps an edit saved while a moderator removes the caption', async () => {
+    const caption = await addCaption('alice');
+
+    // Save the edit right after the removal read the caption
+    const hGetAll = redis.hGetAll.bind(redis);
+    vi.spyOn(redis, 'hGetAll').mockImplementationOnce(async (key) => {
+      const captionData = await hGetAll(key);
+      await CaptionsServices.updateCaption(
+        redis,
+        POST_ID,
+        caption.id!,
+        'alice',
+        { topCaption: 'Edited caption' },
+        { resetVotes: false },
+        RULES
+      );
+      return captionData;
+    });
+    await CaptionsServices.setCaptionRemoved(redis, POST_ID, caption.id!, { removedBy: 'mod' });
+
+    const stored = await CaptionsServices.getCaption(redis, POST_ID, caption.id!);
+    expect(stored).toMatchObject({ topCaption: 'Edited caption', removed: true, removedBy: 'mod' });
+  });
+});
+
+describe('updateCaption', () => {
+  const getRankScore = (captionId: string) => redis.zScore(`post:${POST_ID}:captions`, captionId);
+
+  // Edits alice's caption, dropping the votes of its previous text
+  const editAndReset = (captionId: string, topCaption = 'Edited caption') =>
+    CaptionsServices.updateCaption(
+      redis,
+      POST_ID,
+      captionId,
+      'alice',
+      { topCaption },
+      { resetVotes: true },
+      RULES
+    );
+
+  it('never shows the new text with the votes of the previous one', async () => {
+    const caption = await addCaption('alice');
+
+    // Read the caption a growing number of Redis round trips into the edit
+    for (let delay = 0; delay < 30; delay++) {
+      await upvote(caption.id!, 2);
+
+      const edit = editAndReset(caption.id!, `Edit ${delay}`);
+      for (let tick = 0; tick < delay; tick++) await new Promise(setImmediate);
+      const { topCaption } = (await CaptionsServices.getCaption(redis, POST_ID, caption.id!))!;
+      const upvotes = await CaptionsServices.getUpvoteCount(redis, POST_ID, caption.id!);
+      await edit;
+
+      if (topCaption === `Edit ${delay}`) {
+        expect(upvotes, `read after ${delay} round trips`).toBe(1);
+      }
+    }
+  });
+
+  it('retries the edit when a vote lands before the reset', async () => {
+    const caption = await addCaption('alice');
+    await upvote(caption.id!, 2);
+
+    // Bob votes on the old text once the edit watched the caption
+    const watch = redis.watch.bind(redis);
+    const watchSpy = vi.spyOn(redis, 'watch').mockImplementationOnce(async (...watchedKeys) => {
+      const txn = await watch(...watchedKeys);
+      await CaptionsServices.setUpvote(redis, POST_ID, caption.id!, 'bob', true);
+      return txn;
+    });
+    const edited = await editAndReset(caption.id!);
+
+    // Watched by both edit attempts and bob's vote
+    expect(watchSpy).toHaveBeenCalledTimes(3);
+    expect(edited).toMatchObject({ topCaption: 'Edited caption', upvotes: 1 });
+    expect(await CaptionsServices.getUpvoteCount(redis, POST_ID, caption.id!)).toBe(1);
+    expect(await getRankScore(caption.id!)).toBe(1);
+  });
+});
+
+describe('setUpvote', () => {
+  // Score the caption ranks by, which each vote's transaction keeps in step with its upvotes
+  const getRankScore = (captionId: string) => redis.zScore(`post:${POST_ID}:captions`, captionId);
+
+  it('counts every vote cast at the same time', async () => {
+    const caption = await addCaption('alice');
+
+    const changes = await Promise.all(
+      ['bob', 'carol', 'dave', 'erin'].map((username) =>
+        CaptionsServices.setUpvote(redis, POST_ID, caption.id!, username, true)
+      )
+    );
+
+    expect(changes.every(({ changed }) => changed)).toBe(true);
+    expect(changes.map(({ upvotes }) => upvotes).sort()).toEqual([2, 3, 4, 5]);
+    expect(await CaptionsServices.getUpvoteCount(redis, POST_ID, caption.id!)).toBe(5);
+    expect(await getRankScore(caption.id!)).toBe(5);
+  });
+
+  it('keeps the rank score in step when votes and unvotes race', async () => {
+    const caption = await addCaption('alice');
+    await upvote(caption.id!, 2);
+
+    await Promise.all([
+      CaptionsServices.setUpvote(redis, POST_ID, caption.id!, 'voter0', false),
+      CaptionsServices.setUpvote(redis, POST_ID, caption.id!, 'voter1', false),
+      CaptionsServices.setUpvote(redis, POST_ID, caption.id!, 'bob', true),
+      CaptionsServices.setUpvote(redis, POST_ID, caption.id!, 'bob', true),
+    ]);
+
+    expect(await CaptionsServices.getUpvoteCount(redis, POST_ID, caption.id!)).toBe(2);
+    expect(await getRankScore(caption.id!)).toBe(2);
+  });
+
+  it('gives up with VOTE_CONFLICT when every attempt loses the race', async () => {
+    const caption = await addCaption('alice');
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    // Another vote lands between each attempt's reads and its transaction
+    const zCard = redis.zCard.bind(redis);
+    let otherVoters = 0;
+    vi.spyOn(redis, 'zCard').mockImplementation(async (key) => {
+      const count = await zCard(key);
+      await redis.zAdd(key, { member: `other${otherVoters++}`, score: 1 });
+      return count;
+    });
+
+    await expect(
+      CaptionsServices.setUpvote(redis, POST_ID, caption.id!, 'bob', true)
+    ).rejects.toMatchObject({ code: 'VOTE_CONFLICT', status: 409 });
+    expect(otherVoters).toBe(5);
+    expect(await redis.zScore(`post:${POST_ID}:captions:${caption.id}:upvotes`, 'bob')).toBe(
+      undefined
+    );
+  });
+});
+
+describe('listCaptions', () => {
+  // Lists every page of an order as viewer, running between with the captions listed so far
+  async function listAll(
+    sort: CaptionSort,
+    between: (listed: string[]) => Promise<void> = async () => {}
+  ) {
+    const listed: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await CaptionsServices.listCaptions(redis, POST_ID, 'viewer', {
+        sort,
+        cursor,
+        limit: 2,
+      });
+      listed.push(...page.captions.map((caption) => caption.id!));
+      cursor = page.nextCursor;
+      await between(listed);
+    } while (cursor);
+    return listed;
+  }
+
+  it("lists every caption once in the 'top' order while captions and votes come in", async () => {
+    const captionIds: string[] = [];
+    for (const username of ['alice', 'bob', 'carol', 'dave', 'erin']) {
+      captionIds.push((await addCaption(username)).id!);
+    }
+
+    // Each page, a new caption gets voted above the ones listed, and the last listed gains a vote
+    let round = 0;
+    const listed = await listAll('top', async (listedSoFar) => {
+      const late = await addCaption(`late${round}`);
+      await upvote(late.id!, 3);
+      await CaptionsServices.setUpvote(redis, POST_ID, listedSoFar.at(-1)!, `fan${round++}`, true);
+    });
+
+    expect(listed.filter((captionId) => captionIds.includes(captionId)).sort()).toEqual(
+      [...captionIds].sort()
+    );
+    expect(new Set(listed).size).toBe(listed.length);
+  });
+
+  it("lists every caption once in the 'new' order while captions come in", async () => {
+    // Some captions are created in the same millisecond, ranked by ID
+    const captionIds: string[] = [];
+    for (const username of ['alice', 'bob', 'carol', 'dave', 'erin']) {
+      captionIds.push((await addCaption(username, { sameTime: username === 'bob' })).id!);
+      captionIds.push((await addCaption(`${username}2`, { sameTime: true })).id!);
+    }
+
+    // Each page, a new caption comes in ahead of the ones listed
+    let round = 0;
+    const listed = await listAll('new', async () => {
+      await addCaption(`late${round++}`);
+    });
+
+    expect([...listed].sort()).toEqual([...captionIds].sort());
+  });
+
+  it("lists every caption once in the 'fair' order while impressions come in", async () => {
+    const captions: Caption[] = [];
+    for (let author = 0; author < 12; author++) {
+      captions.push(await addCaption(`author${author}`));
+    }
+
+    // Each page, the captions listed are seen by others, which would rank them further down
+    let round = 0;
+    const listed = await listAll('fair', async (listedSoFar) => {
+      for (const caption of captions.filter(({ id }) => listedSoFar.includes(id!))) {
+        for (let viewer = 0; viewer < 3; viewer++) {
+          await ImpressionsServices.recordImpression(
+            redis,
+            POST_ID,
+            caption,
+            `viewer${round}${viewer}`
+          );
+        }
+      }
+      round++;
+    });
+
+    expect([...listed].sort()).toEqual(captions.map(({ id }) => id!).sort());
+  });
+
+  it('keeps a single fair order per viewer, whatever order the cursors name', async () => {
+    for (let author = 0; author < 5; author++) await addCaption(`author${author}`);
+    const listPage = (cursor?: string) =>
+      CaptionsServices.listCaptions(redis, POST_ID, 'viewer', { sort: 'fair', cursor, limit: 2 });
+
+    const { nextCursor } = await listPage();
+    const forged = await listPage('forged:2');
+
+    const order = JSON.parse((await redis.get(`post:${POST_ID}:users:viewer:fair`))!);
+    expect(forged.nextCursor).toBe(`${order.id}:4`);
+    expect(nextCursor).not.toBe(`${order.id}:2`);
+    expect(await redis.get(`post:${POST_ID}:users:viewer:fair:forged`)).toBeUndefined();
+  });
+});
@@ -1,20 +1,86 @@
-import { RedisClient } from '@devvit/redis';
-import { Caption, CaptionWithUpvotes } from '../../shared/types/caption.type';
-import { randomUUID } from 'node:crypto';
+import { RedisClient, ZMember } from '@devvit/redis';
+import {
+  Caption,
+  CaptionInput,
+  CaptionPage,
+  CaptionRevision,
+  CaptionSort,
+  CaptionWithUpvotes,
+  RankedCaption,
+} from '../../shared/types/caption.type';
+import { createHash, randomUUID } from 'node:crypto';
+import { CaptionError } from './errors';
+import { CaptionRules, checkCaptionRules } from './captions.rules';
+import { ImpressionsServices } from './impressions.services';
+import { ReportsServices } from './reports.services';
 
 // Redis key builders
 const keys = {
   captions: (postId: string) => `post:${postId}:captions`,
+  // Caption IDs scored by creation time
+  captionsByDate: (postId: string) => `post:${postId}:captions:created`,
   caption: (postId: string, captionId: string) => `post:${postId}:captions:${captionId}`,
   upvotes: (postId: string, captionId: string) => `post:${postId}:captions:${captionId}:upvotes`,
+  history: (postId: string, captionId: string) => `post:${postId}:captions:${captionId}:history`,
+  userCaptions: (postId: string, username: string) => `post:${postId}:users:${username}:captions`,
+  // Fair order a user last started paging through, frozen for the following pages
+  fairOrder: (postId: string, username: string) => `post:${postId}:users:${username}:fair`,
   post: (postId: string) => `post:${postId}`,
 } as const;
 
+// Attempts at an upvote transaction before giving up on a caption voted on too busily
+const UPVOTE_MAX_ATTEMPTS = 5;
+
+// Time a frozen fair order outlives the last page read from it, which also lets it expire
+// without a purge
+const FAIR_ORDER_TTL_SECONDS = 60 * 60;
+
+// Frozen fair order, its ID given by the server and named by the cursors paging through it
+interface FairOrder {
+  id: string;
+  captionIds: string[];
+}
+
+// Outcome of setting a user's upvote on a caption
+export interface UpvoteChange {
+  userUpvoted: boolean;
+  // Upvote count of the caption once the vote is set, its author's included
+  upvotes: number;
+  // Whether the vote differed from the one already set
+  changed: boolean;
+}
+
 // Redis data transformation utilities
 type RedisDataType = Record<string, string>;
 
+// Version of the caption hash schema, bumped whenever stored fields change meaning
+//   1. fixed top, bottom and banner slots (captions saved without a version)
+//   2. adds free-positioned text layers
+const CAPTION_SCHEMA_VERSION = 2;
+
+// Upgrades a caption hash from each version to the next
+const MIGRATIONS: Record<number, (redisData: RedisDataType) => RedisDataType> = {
+  1: (redisData) => ({ ...redisData, layers: '[]' }),
+};
+
+/**
+ * Upgrades a stored caption hash to the current schema version
+ */
+function migrateRedisData(redisData: RedisDataType): RedisDataType {
+  let data = redisData;
+  let version = data.version ? parseInt(data.version, 10) : 1;
+
+  while (version < CAPTION_SCHEMA_VERSION) {
+    data = { ...MIGRATIONS[version]!(data), version: (version + 1).toString() };
+    version += 1;
+  }
+
+  return data;
+}
+
 function toRedisDataType(caption: Caption): RedisDataType {
   return {
+    version: CAPTION_SCHEMA_VERSION.toString(),
     id: caption.id || '',
     username: caption.username,
     topExtendedCaption: caption.topExtendedCaption || '',
@@ -23,11 +89,20 @@ function toRedisDataType(caption: Caption): RedisDataType {
     bottomCaption: caption.bottomCaption || '',
     topExtensionWhite: caption.topExtensionWhite ? 'true' : 'false',
     bottomExtensionWhite: caption.bottomExtensionWhite ? 'true' : 'false',
+    styles: caption.styles ? JSON.stringify(caption.styles) : '',
+    layers: JSON.stringify(caption.layers ?? []),
     createdAt: caption.createdAt.toString(),
+    updatedAt: caption.updatedAt ? caption.updatedAt.toString() : '',
+    removed: caption.removed ? 'true' : 'false',
+    removedBy: caption.removedBy || '',
+    removedAt: caption.removedAt ? caption.removedAt.toString() : '',
   };
 }
 
-function fromRedisDataType(redisData: RedisDataType): Caption {
+function fromRedisDataType(storedData: RedisDataType): Caption {
+  const redisData = migrateRedisData(storedData);
+  const layers = JSON.parse(redisData.layers!) as Caption['layers'];
+
   return {
     id: redisData.id || undefined,
     username: redisData.username!,
@@ -37,169 +112,402 @@ function fromRedisDataType(redisData: RedisDataType): Caption {
     bottomCaption: redisData.bottomCaption || undefined,
     topExtensionWhite: redisData.topExtensionWhite === 'true' ? true : undefined,
     bottomExtensionWhite: redisData.bottomExtensionWhite === 'true' ? true : undefined,
+    styles: redisData.styles ? JSON.parse(redisData.styles) : undefined,
+    layers: layers?.length ? layers : undefined,
     createdAt: parseInt(redisData.createdAt!, 10),
+    updatedAt: redisData.updatedAt ? parseInt(redisData.updatedAt, 10) : undefined,
+    removed: redisData.removed === 'true' ? true : undefined,
+    removedBy: redisData.removedBy || undefined,
+    removedAt: redisData.removedAt ? parseInt(redisData.removedAt, 10) : undefined,
+  };
+}
+
+// Text fields and flags of a caption, as stored in its edit history
+export function toCaptionInput(caption: Caption): CaptionInput {
+  return {
+    topExtendedCaption: caption.topExtendedCaption,
+    bottomExtendedCaption: caption.bottomExtendedCaption,
+    topCaption: caption.topCaption,
+    bottomCaption: caption.bottomCaption,
+    topExtensionWhite: caption.topExtensionWhite,
+    bottomExtensionWhite: caption.bottomExtensionWhite,
+    styles: caption.styles,
+    layers: caption.layers,
   };
 }
 
 export class CaptionsServices {
 
   /**
-   * Creates a new caption for a post (for server calls)
+   * Creates a new caption for a post, credited to the authenticated user (for server calls)
    */
   static async createCaption(
     redis: RedisClient,
     postId: string,
-    caption: Caption
+    username: string,
+    input: CaptionInput,
+    limits: { maxCaptionsPerUser: number },
+    rules: CaptionRules
   ): Promise<Caption> {
     try {
-      // Check if post exists
-      const postExists = await redis.exists(keys.post(postId));
-      if (!postExists) {
-        throw new Error(`Post ${postId} does not exist`);
+      checkCaptionRules(input, rules);
+
+      await this.assertContestOpen(redis, postId);
+
+      // Enforce the per-user caption limit
+      const userCaptionsKey = keys.userCaptions(postId, username);
+      const userCaptionCount = await redis.zCard(userCaptionsKey);
+      if (userCaptionCount >= limits.maxCaptionsPerUser) {
+        throw new CaptionError(
+          'CAPTION_LIMIT_REACHED',
+          `You can only add ${limits.maxCaptionsPerUser} caption(s) to this post`,
+          { status: 409 }
+        );
       }
 
       // Generate random UUID for caption
       const captionId = randomUUID();
-      const captionWithId: Caption = { ...caption, id: captionId };
+      const captionWithId: Caption = { ...input, id: captionId, username, createdAt: Date.now() };
 
       // Save caption to Redis
       const captionKey = keys.caption(postId, captionId);
       await redis.hSet(captionKey, toRedisDataType(captionWithId));
 
-      // Add caption to sorted set for counting (score = 0 initially)
+      // Add caption to sorted set for counting (score = 1 initially, the author's upvote)
       const captionsKey = keys.captions(postId);
-      await redis.zAdd(captionsKey, { member: captionId, score: 0 });
+      await redis.zAdd(captionsKey, { member: captionId, score: 1 });
+      await redis.zAdd(keys.captionsByDate(postId), {
+        member: captionId,
+        score: captionWithId.createdAt,
+      });
 
       // Initialize upvotes with the caption author (score = 1)
       const upvotesKey = keys.upvotes(postId, captionId);
-      await redis.zAdd(upvotesKey, { member: caption.username, score: 1 });
+      await redis.zAdd(upvotesKey, { member: username, score: 1 });
+
+      // Track the caption against its author
+      await redis.zAdd(userCaptionsKey, { member: captionId, score: captionWithId.createdAt });
 
       return captionWithId;
     } catch (error) {
       console.error(`Error creating caption for post ${postId}:`, error);
+      if (error instanceof CaptionError) throw error;
       throw new Error(`Failed to create caption: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Upvotes or removes upvote from a caption (for server calls)
+   * Replaces the text of a caption while its contest is open, keeping the previous version in its history (for server calls)
+   */
+  static async updateCaption(
+    redis: RedisClient,
+    postId: string,
+    captionId: string,
+    username: string,
+    input: CaptionInput,
+    options: { resetVotes: boolean },
+    rules: CaptionRules
+  ): Promise<CaptionWithUpvotes> {
+    try {
+      checkCaptionRules(input, rules);
+
+      await this.assertContestOpen(redis, postId);
+      const caption = await this.getAuthoredCaption(redis, postId, captionId, username);
+
+      // Keep the previous version in the edit history
+      const editedAt = Date.now();
+      const revision: CaptionRevision = { ...toCaptionInput(caption), editedAt };
+      await redis.zAdd(keys.history(postId, captionId), {
+        member: JSON.stringify(revision),
+        score: editedAt,
+      });
+
+      // Save the new version (every text field is written, so cleared slots are emptied, while
+      // the removal fields are left to moderators)
+      const updatedCaption: Caption = {
+        ...input,
+        id: captionId,
+        username: caption.username,
+        createdAt: caption.createdAt,
+        updatedAt: editedAt,
+        removed: caption.removed,
+        removedBy: caption.removedBy,
+        removedAt: caption.removedAt,
+      };
+      const { removed, removedBy, removedAt, ...captionData } = toRedisDataType(updatedCaption);
+
+      // Optionally drop the votes collected by the previous version, along with saving the new
+      // one so no vote counts towards the new text before the reset
+      const resetVotesOf = options.resetVotes ? caption.username : undefined;
+      let saved = false;
+      for (let attempt = 1; attempt <= UPVOTE_MAX_ATTEMPTS && !saved; attempt++) {
+        saved = await this.trySaveEdit(redis, postId, captionId, captionData, resetVotesOf);
+      }
+      if (!saved) {
+        throw new CaptionError(
+          'VOTE_CONFLICT',
+          `Too many concurrent votes on caption ${captionId}`,
+          { status: 409 }
+        );
+      }
+
+      const upvotes = await redis.zCard(keys.upvotes(postId, captionId));
+      return { ...updatedCaption, upvotes, userUpvoted: true };
+    } catch (error) {
+      console.error(`Error updating caption ${captionId} for post ${postId}:`, error);
+      if (error instanceof CaptionError) throw error;
+      throw new Error(`Failed to update caption: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Deletes a caption with its upvotes and history while its contest is open (for server calls)
    */
-  static async upvoteCaption(
+  static async deleteCaption(
     redis: RedisClient,
     postId: string,
     captionId: string,
     username: string
-  ): Promise<boolean> {
+  ): Promise<void> {
+    try {
+      await this.assertContestOpen(redis, postId);
+      await this.getAuthoredCaption(redis, postId, captionId, username);
+
+      // Remove the caption from the post and author indexes
+      await redis.zRem(keys.captions(postId), [captionId]);
+      await redis.zRem(keys.captionsByDate(postId), [captionId]);
+      await redis.zRem(keys.userCaptions(postId, username), [captionId]);
+
+      // Delete caption data, upvotes, history and reports
+      await redis.del(keys.caption(postId, captionId));
+      await redis.del(keys.upvotes(postId, captionId));
+      await redis.del(keys.history(postId, captionId));
+      await ReportsServices.deleteReports(redis, postId, captionId);
+    } catch (error) {
+      console.error(`Error deleting caption ${captionId} for post ${postId}:`, error);
+      if (error instanceof CaptionError) throw error;
+      throw new Error(`Failed to delete caption: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Flags a caption as removed by a moderator, or clears the flag when `removal` is null (for server calls)
+   */
+  static async setCaptionRemoved(
+    redis: RedisClient,
+    postId: string,
+    captionId: string,
+    removal: { removedBy: string } | null
+  ): Promise<Caption> {
     try {
-      // Check if caption exists
       const captionKey = keys.caption(postId, captionId);
-      const captionExists = await redis.exists(captionKey);
-      if (!captionExists) {
-        throw new Error(`Caption ${captionId} does not exist`);
+      const captionData = await redis.hGetAll(captionKey);
+      if (!captionData || Object.keys(captionData).length === 0) {
+        throw new CaptionError('CAPTION_NOT_FOUND', `Caption ${captionId} does not exist`, {
+          status: 404,
+        });
       }
 
-      const upvotesKey = keys.upvotes(postId, captionId);
+      const caption: Caption = {
+        ...fromRedisDataType(captionData),
+        removed: removal ? true : undefined,
+        removedBy: removal?.removedBy,
+        removedAt: removal ? Date.now() : undefined,
+      };
+
+      // Only write the removal fields, so edits saved meanwhile aren't overwritten
+      await redis.hSet(captionKey, {
+        removed: caption.removed ? 'true' : 'false',
+        removedBy: caption.removedBy || '',
+        removedAt: caption.removedAt ? caption.removedAt.toString() : '',
+      });
+
+      return caption;
+    } catch (error) {
+      console.error(`Error updating removal of caption ${captionId} for post ${postId}:`, error);
+      if (error instanceof CaptionError) throw error;
+      throw new Error(`Failed to update caption: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      // Get current upvotes list
-      const upvotesList = await redis.zRange(upvotesKey, 0, -1);
-      const userHasUpvoted = upvotesList.some(item => item.member === username);
+  /**
+   * Gets a single caption, or null when it doesn't exist (for server calls)
+   */
+  static async getCaption(
+    redis: RedisClient,
+    postId: string,
+    captionId: string
+  ): Promise<Caption | null> {
+    try {
+      const captionData = await redis.hGetAll(keys.caption(postId, captionId));
+      if (!captionData || Object.keys(captionData).length === 0) {
+        return null;
+      }
 
-      let userUpvoted: boolean;
+      return fromRedisDataType(captionData);
+    } catch (error) {
+      console.error(`Error getting caption ${captionId} for post ${postId}:`, error);
+      throw new Error(`Failed to get caption: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      if (userHasUpvoted) {
-        // Remove upvote
-        await redis.zRem(upvotesKey, [username]);
-        userUpvoted = false;
-      } else {
-        // Add upvote
-        await redis.zAdd(upvotesKey, { member: username, score: 1 });
-        userUpvoted = true;
+  /**
+   * Sets whether a user upvotes a caption, leaving things as they are when the vote already is
+   * (for server calls)
+   *
+   * The vote and the caption's score are written in one transaction, retried whenever the
+   * contest, the caption or its upvotes change meanwhile.
+   */
+  static async setUpvote(
+    redis: RedisClient,
+    postId: string,
+    captionId: string,
+    username: string,
+    upvoted: boolean
+  ): Promise<UpvoteChange> {
+    try {
+      for (let attempt = 1; attempt <= UPVOTE_MAX_ATTEMPTS; attempt++) {
+        const change = await this.trySetUpvote(redis, postId, captionId, username, upvoted);
+        if (change) return change;
       }
 
-      // Update caption score in main captions sorted set
-      const upvoteCount = await redis.zCard(upvotesKey);
-      const captionsKey = keys.captions(postId);
-      await redis.zAdd(captionsKey, { member: captionId, score: upvoteCount });
-
-      return userUpvoted;
+      throw new CaptionError('VOTE_CONFLICT', `Too many concurrent votes on caption ${captionId}`, {
+        status: 409,
+      });
     } catch (error) {
       console.error(`Error upvoting caption ${captionId} for post ${postId}:`, error);
+      if (error instanceof CaptionError) throw error;
       throw new Error(`Failed to upvote caption: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Gets the upvote count of a caption, its author's included (for server calls)
+   */
+  static async getUpvoteCount(
+    redis: RedisClient,
+    postId: string,
+    captionId: string
+  ): Promise<number> {
+    try {
+      return await redis.zCard(keys.upvotes(postId, captionId));
+    } catch (error) {
+      console.error(`Error getting upvotes of caption ${captionId} for post ${postId}:`, error);
+      throw new Error(
+        `Failed to get upvotes: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Gets all captions with upvote information for a specific user (for server calls)
+   *
+   * Removed captions are only listed for moderators (`includeRemoved`) and for their author.
    */
   static async getCaptionsWithUpvotes(
     redis: RedisClient,
     postId: string,
-    username: string
+    username: string,
+    options: { includeRemoved?: boolean } = {}
   ): Promise<CaptionWithUpvotes[]> {
     try {
-      const captionsKey = keys.captions(postId);
-      const captionItems = await redis.zRange(captionsKey, 0, -1);
-
-      const captionsWithUpvotes: CaptionWithUpvotes[] = [];
-
-      for (const item of captionItems) {
-        try {
-          const captionId = item.member;
-
-          // Get caption data
-          const captionKey = keys.caption(postId, captionId);
-          const captionData = await redis.hGetAll(captionKey);
-
-          if (!captionData || Object.keys(captionData).length === 0) {
-            continue;
-          }
+      const captionItems = await redis.zRange(keys.captions(postId), 0, -1);
+      return await this.loadCaptions(
+        redis,
+        postId,
+        username,
+        captionItems.map((item) => item.member),
+        options
+      );
+    } catch (error) {
+      console.error(`Error getting captions with upvotes for post ${postId}:`, error);
+      throw new Error(`Failed to get captions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-          const caption = fromRedisDataType(captionData);
+  /**
+   * Lists a page of the captions written by others, in the given order, from the position a
+   * previous page's cursor points at (for server calls)
+   *
+   * Removed captions are only listed for moderators (`includeRemoved`), so pages can come back
+   * shorter than `limit` while more follow.
+   */
+  static async listCaptions(
+    redis: RedisClient,
+    postId: string,
+    username: string,
+    options: { sort: CaptionSort; cursor?: string; limit: number; includeRemoved?: boolean }
+  ): Promise<CaptionPage> {
+    const { sort, cursor, limit } = options;
 
-          // Get upvotes information
-          const upvotesKey = keys.upvotes(postId, captionId);
-          const upvotesList = await redis.zRange(upvotesKey, 0, -1);
-          const upvotes = upvotesList.length;
-          const userUpvoted = upvotesList.some((item) => item.member === username);
-
-          captionsWithUpvotes.push({
-            ...caption,
-            upvotes,
-            userUpvoted,
-          });
-        } catch (error) {
-          console.error(`Error processing caption ${item.member}:`, error);
-        }
-      }
+    try {
+      const ownCaptions = await redis.zRange(keys.userCaptions(postId, username), 0, -1);
+      const ownIds = new Set(ownCaptions.map((item) => item.member));
+
+      const { pageIds, nextCursor } =
+        sort === 'top'
+          ? await this.findTop(redis, postId, ownIds, cursor, limit)
+          : sort === 'new'
+            ? await this.findNewest(redis, postId, ownIds, cursor, limit)
+            : await this.findAtOffset(redis, postId, username, ownIds, { sort, cursor, limit });
+
+      const captions = await this.loadCaptions(redis, postId, username, pageIds, {
+        includeRemoved: options.includeRemoved,
+      });
+      return { captions, nextCursor };
+    } catch (error) {
+      console.error(`Error listing captions for post ${postId}:`, error);
+      throw new Error(`Failed to list captions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      return captionsWithUpvotes;
+  /**
+   * Gets the captions a user wrote on a post, oldest first, removed ones included (for server calls)
+   */
+  static async getUserCaptions(
+    redis: RedisClient,
+    postId: string,
+    username: string
+  ): Promise<CaptionWithUpvotes[]> {
+    try {
+      const captionItems = await redis.zRange(keys.userCaptions(postId, username), 0, -1);
+      return await this.loadCaptions(
+        redis,
+        postId,
+        username,
+        captionItems.map((item) => item.member),
+        { includeRemoved: true }
+      );
     } catch (error) {
-      console.error(`Error getting captions with upvotes for post ${postId}:`, error);
+      console.error(`Error getting captions of ${username} for post ${postId}:`, error);
       throw new Error(`Failed to get captions: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Gets the top 3 captions by upvotes (for Devvit component calls)
+   * Gets the winning captions of a post (for Devvit component calls)
+   *
+   * Captions with fewer than `minUpvotes` upvotes can't win. The rest are ranked by upvotes,
+   * ties going to the caption submitted first and then to the lowest caption ID, so the same
+   * votes always produce the same winners.
    */
-  static async getTopCaptions(redis: RedisClient, postId: string): Promise<Caption[]> {
+  static async getTopCaptions(
+    redis: RedisClient,
+    postId: string,
+    options: { count: number; minUpvotes: number }
+  ): Promise<RankedCaption[]> {
     try {
       const captionsKey = keys.captions(postId);
 
-      // Get total count and calculate start index for top 3
-      const totalCount = await redis.zCard(captionsKey);
-      const startIndex = Math.max(0, totalCount - 3);
-      const endIndex = totalCount - 1;
-
-      // Get top 3 captions (highest scores last, so we get the last 3)
-      const topCaptionItems = await redis.zRange(captionsKey, startIndex, endIndex);
+      // Get every caption reaching the threshold (scores are upvote counts)
+      const eligibleItems = await redis.zRange(captionsKey, options.minUpvotes, '+inf', {
+        by: 'score',
+      });
 
-      // Reverse to get highest scores first
-      topCaptionItems.reverse();
+      // Load each caption, skipping the ones whose data is gone
+      const candidates: { caption: Caption; upvotes: number }[] = [];
 
-      const topCaptions: Caption[] = [];
-
-      for (const item of topCaptionItems) {
+      for (const item of eligibleItems) {
         try {
           const captionId = item.member;
 
@@ -212,14 +520,30 @@ export class CaptionsServices {
           }
 
           const caption = fromRedisDataType(captionData);
-          topCaptions.push(caption);
+
+          // Removed captions can't win
+          if (caption.removed) {
+            continue;
+          }
+
+          candidates.push({ caption, upvotes: item.score });
         } catch (error) {
           console.error(`Error processing top caption ${item.member}:`, error);
           continue;
         }
       }
 
-      return topCaptions;
+      // Rank by upvotes, then earliest submission, then caption ID
+      candidates.sort(
+        (a, b) =>
+          b.upvotes - a.upvotes ||
+          a.caption.createdAt - b.caption.createdAt ||
+          (a.caption.id ?? '').localeCompare(b.caption.id ?? '')
+      );
+
+      return candidates
+        .slice(0, options.count)
+        .map((candidate) => ({ ...candidate.caption, upvotes: candidate.upvotes }));
     } catch (error) {
       console.error(`Error getting top captions for post ${postId}:`, error);
       throw new Error(`Failed to get top captions: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -243,19 +567,401 @@ export class CaptionsServices {
           const captionKey = keys.caption(postId, captionId);
           const upvotesKey = keys.upvotes(postId, captionId);
 
-          // Delete caption data and upvotes
+          // Delete the author's caption index
+          const username = await redis.hGet(captionKey, 'username');
+          if (username) await redis.del(keys.userCaptions(postId, username));
+
+          // Delete caption data, upvotes and history
           await redis.del(captionKey);
           await redis.del(upvotesKey);
+          await redis.del(keys.history(postId, captionId));
         } catch (error) {
           console.error(`Error deleting caption ${captionId}:`, error);
         }
       }
 
-      // Delete the main captions sorted set
+      // Delete the main captions sorted set and its date index
       await redis.del(captionsKey);
+      await redis.del(keys.captionsByDate(postId));
     } catch (error) {
       console.error(`Error purging captions and upvotes for post ${postId} from Devvit:`, error);
       throw new Error(`Failed to purge captions: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
+
+  /**
+   * Throws unless the post exists and its contest hasn't ended or finished
+   */
+  private static async assertContestOpen(redis: RedisClient, postId: string): Promise<void> {
+    const [deletesAt, status] = await redis.hMGet(keys.post(postId), ['deletesAt', 'status']);
+    if (!deletesAt) {
+      throw new CaptionError('POST_NOT_FOUND', `Post ${postId} does not exist`, { status: 404 });
+    }
+    if (status === 'finished' || Number.parseInt(deletesAt, 10) <= Date.now()) {
+      throw new CaptionError('CONTEST_CLOSED', `The contest for post ${postId} is closed`, {
+        status: 409,
+      });
+    }
+  }
+
+  /**
+   * Gets captions with their upvotes, looking every caption up at once
+   *
+   * Removed captions are skipped unless `includeRemoved` or written by username, and so are
+   * captions deleted since their ID was read.
+   */
+  private static async loadCaptions(
+    redis: RedisClient,
+    postId: string,
+    username: string,
+    captionIds: string[],
+    options: { includeRemoved?: boolean } = {}
+  ): Promise<CaptionWithUpvotes[]> {
+    const loaded = await Promise.all(
+      captionIds.map(async (captionId) => {
+        try {
+          const upvotesKey = keys.upvotes(postId, captionId);
+          const [captionData, upvotes, userScore] = await Promise.all([
+            redis.hGetAll(keys.caption(postId, captionId)),
+            redis.zCard(upvotesKey),
+            redis.zScore(upvotesKey, username),
+          ]);
+          if (!captionData || Object.keys(captionData).length === 0) return undefined;
+
+          const caption = fromRedisDataType(captionData);
+          if (caption.removed && !options.includeRemoved && caption.username !== username) {
+            return undefined;
+          }
+
+          return { ...caption, upvotes, userUpvoted: userScore !== undefined };
+        } catch (error) {
+          console.error(`Error processing caption ${captionId}:`, error);
+          return undefined;
+        }
+      })
+    );
+
+    return loaded.filter((caption): caption is CaptionWithUpvotes => caption !== undefined);
+  }
+
+  /**
+   * Finds the page of captions ranked after the cursor's in the 'top' order, most upvoted first
+   * and ties by descending ID, as Redis ranks them
+   *
+   * The cursor holds the last listed caption's upvotes and ID rather than its position, so votes
+   * cast between pages don't shift the captions still to come.
+   */
+  private static async findTop(
+    redis: RedisClient,
+    postId: string,
+    ownIds: Set<string>,
+    cursor: string | undefined,
+    limit: number
+  ): Promise<{ pageIds: string[]; nextCursor?: string }> {
+    const captionItems = await redis.zRange(keys.captions(postId), 0, -1, {
+      by: 'rank',
+      reverse: true,
+    });
+
+    // Captions after the cursor's have fewer upvotes, or as many and a lower ID
+    const [lastUpvotes = Infinity, lastId = ''] = cursor?.split(':') ?? [];
+    const remaining = captionItems.filter(
+      ({ member, score }) =>
+        !ownIds.has(member) &&
+        (score < Number(lastUpvotes) || (score === Number(lastUpvotes) && member < lastId))
+    );
+
+    const page = remaining.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      pageIds: page.map((item) => item.member),
+      nextCursor: last && remaining.length > limit ? `${last.score}:${last.member}` : undefined,
+    };
+  }
+
+  /**
+   * Finds the page of captions created before the cursor's in the 'new' order, newest first and
+   * ties by descending ID, as Redis ranks them
+   *
+   * The cursor holds the last listed caption's creation time and ID rather than its position, so
+   * captions created between pages don't shift the captions still to come.
+   */
+  private static async findNewest(
+    redis: RedisClient,
+    postId: string,
+    ownIds: Set<string>,
+    cursor: string | undefined,
+    limit: number
+  ): Promise<{ pageIds: string[]; nextCursor?: string }> {
+    await this.indexCaptionDates(redis, postId);
+
+    // Captions after the cursor's are older, or as old and with a lower ID
+    const [lastCreatedAt = '+inf', lastId] = cursor?.split(':') ?? [];
+    const isAfterCursor = ({ member, score }: ZMember) =>
+      lastId === undefined || score < Number(lastCreatedAt) || member < lastId;
+
+    // Reads one caption past the page to tell whether another page follows, reading on while
+    // the user's own captions or the ones as old as the cursor's take up room
+    const remaining: ZMember[] = [];
+    for (let offset = 0; remaining.length <= limit; offset += limit + 1) {
+      const captionItems = await redis.zRange(keys.captionsByDate(postId), lastCreatedAt, '-inf', {
+        by: 'score',
+        reverse: true,
+        limit: { offset, count: limit + 1 },
+      });
+      remaining.push(
+        ...captionItems.filter((item) => !ownIds.has(item.member) && isAfterCursor(item))
+      );
+      if (captionItems.length <= limit) break;
+    }
+
+    const page = remaining.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      pageIds: page.map((item) => item.member),
+      nextCursor: last && remaining.length > limit ? `${last.score}:${last.member}` : undefined,
+    };
+  }
+
+  /**
+   * Finds the page of captions at the cursor's position in the fair orders
+   *
+   * Cursors also name the order frozen for the user on their first page, so impressions counted
+   * meanwhile don't reshuffle the captions still to come. Each user keeps one order per post, so a
+   * first page, or a cursor whose order was replaced or expired, starts a new one.
+   */
+  private static async findAtOffset(
+    redis: RedisClient,
+    postId: string,
+    username: string,
+    ownIds: Set<string>,
+    options: { sort: 'fair' | 'unvoted'; cursor?: string; limit: number }
+  ): Promise<{ pageIds: string[]; nextCursor?: string }> {
+    const { sort, cursor, limit } = options;
+
+    const [orderId, position = '0'] = cursor?.split(':') ?? [];
+    const order = await this.getFairOrder(redis, postId, username, orderId);
+    const offset = Number(position);
+    const captionIds = order.captionIds.filter((captionId) => !ownIds.has(captionId));
+
+    const { pageIds, end } =
+      sort === 'unvoted'
+        ? await this.findUnvoted(redis, postId, username, captionIds, offset, limit)
+        : {
+            pageIds: captionIds.slice(offset, offset + limit),
+            end: Math.min(offset + limit, captionIds.length),
+          };
+
+    return { pageIds, nextCursor: end < captionIds.length ? `${order.id}:${end}` : undefined };
+  }
+
+  /**
+   * Gets the fair order frozen for username when its ID is orderId, or ranks every caption ID of
+   * a post into a new one replacing it
+   */
+  private static async getFairOrder(
+    redis: RedisClient,
+    postId: string,
+    username: string,
+    orderId: string | undefined
+  ): Promise<FairOrder> {
+    const orderKey = keys.fairOrder(postId, username);
+    if (orderId) {
+      const frozen = await redis.get(orderKey);
+      const order = frozen ? (JSON.parse(frozen) as FairOrder) : undefined;
+      if (order?.id === orderId) {
+        await redis.expire(orderKey, FAIR_ORDER_TTL_SECONDS);
+        return order;
+      }
+    }
+
+    // Weighted shuffle seeded by the user and post, weights falling as impressions double so the
+    // captions seen the least tend to come first
+    const [captionItems, impressionCounts] = await Promise.all([
+      redis.zRange(keys.captions(postId), 0, -1),
+      ImpressionsServices.getImpressionCounts(redis, postId),
+    ]);
+    const rank = (captionId: string) => {
+      const hash = createHash('sha256').update(`${postId}:${username}:${captionId}`).digest('hex');
+      const uniform = (Number.parseInt(hash.slice(0, 13), 16) + 1) / (2 ** 52 + 1);
+      const exposure = Math.floor(Math.log2(1 + (impressionCounts.get(captionId) ?? 0)));
+      return Math.log(uniform) * (1 + exposure);
+    };
+    const ranks = new Map(captionItems.map((item) => [item.member, rank(item.member)]));
+    const order: FairOrder = {
+      id: randomUUID(),
+      captionIds: [...ranks.keys()].sort((a, b) => ranks.get(b)! - ranks.get(a)!),
+    };
+
+    await redis.set(orderKey, JSON.stringify(order), {
+      expiration: new Date(Date.now() + FAIR_ORDER_TTL_SECONDS * 1000),
+    });
+    return order;
+  }
+
+  /**
+   * Finds the next captions username hasn't upvoted, checking them a page at a time
+   */
+  private static async findUnvoted(
+    redis: RedisClient,
+    postId: string,
+    username: string,
+    captionIds: string[],
+    offset: number,
+    limit: number
+  ): Promise<{ pageIds: string[]; end: number }> {
+    const pageIds: string[] = [];
+    let end = offset;
+
+    while (pageIds.length < limit && end < captionIds.length) {
+      const batch = captionIds.slice(end, end + limit);
+      const scores = await Promise.all(
+        batch.map((captionId) => redis.zScore(keys.upvotes(postId, captionId), username))
+      );
+
+      for (const [index, captionId] of batch.entries()) {
+        end++;
+        if (scores[index] === undefined) pageIds.push(captionId);
+        if (pageIds.length === limit) break;
+      }
+    }
+
+    return { pageIds, end };
+  }
+
+  /**
+   * Adds the captions written before the date index existed to it
+   */
+  private static async indexCaptionDates(redis: RedisClient, postId: string): Promise<void> {
+    const [indexed, total] = await Promise.all([
+      redis.zCard(keys.captionsByDate(postId)),
+      redis.zCard(keys.captions(postId)),
+    ]);
+    if (indexed >= total) return;
+
+    const captionItems = await redis.zRange(keys.captions(postId), 0, -1);
+    const dates = await Promise.all(
+      captionItems.map((item) => redis.hGet(keys.caption(postId, item.member), 'createdAt'))
+    );
+    const members = captionItems.flatMap((item, index) => {
+      const createdAt = Number.parseInt(dates[index] ?? '', 10);
+      return Number.isNaN(createdAt) ? [] : [{ member: item.member, score: createdAt }];
+    });
+    if (members.length > 0) await redis.zAdd(keys.captionsByDate(postId), ...members);
+  }
+
+  /**
+   * Runs one attempt of setUpvote, returning nothing when a watched key changed before it was
+   * written
+   */
+  private static async trySetUpvote(
+    redis: RedisClient,
+    postId: string,
+    captionId: string,
+    username: string,
+    upvoted: boolean
+  ): Promise<UpvoteChange | undefined> {
+    const captionKey = keys.caption(postId, captionId);
+    const upvotesKey = keys.upvotes(postId, captionId);
+    const txn = await redis.watch(keys.post(postId), captionKey, upvotesKey);
+
+    try {
+      await this.assertContestOpen(redis, postId);
+      if (!(await redis.exists(captionKey))) {
+        throw new CaptionError('CAPTION_NOT_FOUND', `Caption ${captionId} does not exist`, {
+          status: 404,
+        });
+      }
+
+      const hasUpvoted = (await redis.zScore(upvotesKey, username)) !== undefined;
+      const count = await redis.zCard(upvotesKey);
+      if (hasUpvoted === upvoted) {
+        await txn.unwatch();
+        return { userUpvoted: upvoted, upvotes: count, changed: false };
+      }
+
+      const upvotes = upvoted ? count + 1 : count - 1;
+      await txn.multi();
+      if (upvoted) {
+        await txn.zAdd(upvotesKey, { member: username, score: 1 });
+      } else {
+        await txn.zRem(upvotesKey, [username]);
+      }
+      await txn.zAdd(keys.captions(postId), { member: captionId, score: upvotes });
+
+      // EXEC is refused once a watched key changed, either with no results or as an error
+      const results = await txn.exec().catch((error: unknown) => {
+        console.warn(`Upvote transaction on caption ${captionId} aborted:`, error);
+        return null;
+      });
+      if (!results?.length) return undefined;
+
+      return { userUpvoted: upvoted, upvotes, changed: true };
+    } catch (error) {
+      await txn.unwatch().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Saves an edited caption, leaving only its author's upvote when resetVotesOf names them, in a
+   * transaction aborted when a vote lands meanwhile
+   */
+  private static async trySaveEdit(
+    redis: RedisClient,
+    postId: string,
+    captionId: string,
+    captionData: RedisDataType,
+    resetVotesOf: string | undefined
+  ): Promise<boolean> {
+    const captionKey = keys.caption(postId, captionId);
+    const upvotesKey = keys.upvotes(postId, captionId);
+    const txn = await redis.watch(captionKey, upvotesKey);
+
+    try {
+      await txn.multi();
+      await txn.hSet(captionKey, captionData);
+      if (resetVotesOf) {
+        await txn.del(upvotesKey);
+        await txn.zAdd(upvotesKey, { member: resetVotesOf, score: 1 });
+        await txn.zAdd(keys.captions(postId), { member: captionId, score: 1 });
+      }
+
+      // EXEC is refused once a watched key changed, either with no results or as an error
+      const results = await txn.exec().catch((error: unknown) => {
+        console.warn(`Edit transaction on caption ${captionId} aborted:`, error);
+        return null;
+      });
+      return !!results?.length;
+    } catch (error) {
+      await txn.unwatch().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a caption, throwing unless it exists and was written by username
+   */
+  private static async getAuthoredCaption(
+    redis: RedisClient,
+    postId: string,
+    captionId: string,
+    username: string
+  ): Promise<Caption> {
+    const captionData = await redis.hGetAll(keys.caption(postId, captionId));
+    if (!captionData || Object.keys(captionData).length === 0) {
+      throw new CaptionError('CAPTION_NOT_FOUND', `Caption ${captionId} does not exist`, {
+        status: 404,
+      });
+    }
+
+    const caption = fromRedisDataType(captionData);
+    if (caption.username !== username) {
+      throw new CaptionError('NOT_AUTHOR', `Caption ${captionId} belongs to another user`, {
+        status: 403,
+      });
+    }
+
+    return caption;
+  }
 }
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CaptionError } from './errors';
+import { parseCaptionInput } from './captions.validation';
+
+// Gets the code and field of the error parsing a caption throws, if any
+function parse(body: unknown) {
+  try {
+    parseCaptionInput(body);
+    return undefined;
+  } catch (error) {
+    if (!(error instanceof CaptionError)) throw error;
+    return { code: error.code, field: error.field, status: error.status };
+  }
+}
+
+const layer = (text: string, width: number) => ({ text, x: 0.5, y: 0.5, width, rotation: 0 });
+
+describe('parseCaptionInput', () => {
+  it('accepts captions wrapping on as many lines as the editor allows', () => {
+    expect(
+      parse({
+        topCaption: 'When the meeting could have been an email',
+        layers: [layer('Me, looking at the deploy logs', 0.35)],
+      })
+    ).toBe(undefined);
+  });
+
+  it('rejects slots wrapping past two lines in their style', () => {
+    const text = 'And it was also scheduled over lunch for everyone';
+
+    expect(parse({ bottomCaption: text })).toBe(undefined);
+    expect(parse({ bottomCaption: text, styles: { bottom: { fontSize: 48 } } })).toEqual({
+      code: 'TEXT_TOO_LONG',
+      field: 'bottomCaption',
+      status: 400,
+    });
+  });
+
+  it('rejects layers wrapping past four lines', () => {
+    expect(parse({ layers: [layer('Me, looking at the deploy logs again', 0.2)] })).toEqual({
+      code: 'TEXT_TOO_LONG',
+      field: 'layers.0',
+      status: 400,
+    });
+  });
+});
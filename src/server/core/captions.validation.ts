@@ -0,0 +1,151 @@
+import { CAPTION_SORTS, CaptionInput, CaptionSort } from '../../shared/types/caption.type';
+import {
+  CAPTION_LAYER_MAX_LINES,
+  CAPTION_MAX_LINES,
+  DEFAULT_IMAGE_SIZE,
+  layoutCaption,
+} from '../../shared/layout/caption.layout';
+import {
+  SLOT_FIELDS,
+  isPlainObject,
+  parseCaptionInput as parseCaptionFields,
+} from '../../shared/validation/caption.validation';
+import { CaptionError } from './errors';
+import { measureCaptionText } from './captions.measure';
+
+// Longest reason accepted with a report
+export const REPORT_REASON_MAX_LENGTH = 200;
+
+// Captions listed per page unless asked otherwise, and at most
+const CAPTIONS_PAGE_SIZE = 10;
+const CAPTIONS_MAX_PAGE_SIZE = 50;
+
+// Cursors of each order: the upvotes or creation time and the ID of the last caption listed for
+// 'top' and 'new', which the captions after it are found from whatever came in meanwhile, a
+// position in the order frozen for the user for the fair ones
+const CURSOR_PATTERNS: Record<CaptionSort, RegExp> = {
+  top: /^\d+:[\w-]+$/,
+  new: /^\d+:[\w-]+$/,
+  fair: /^[\w-]+:\d+$/,
+  unvoted: /^[\w-]+:\d+$/,
+};
+
+/**
+ * Validates a caption request body against the CaptionInput type, and checks its texts fit on
+ * their lines
+ */
+export function parseCaptionInput(body: unknown): CaptionInput {
+  const input = parseCaptionFields(body);
+  checkCaptionLines(input);
+  return input;
+}
+
+/**
+ * Throws for the first slot or layer wrapping past its maximum number of lines, as the editor
+ * prevents
+ *
+ * Slots and layers are as wide whatever the image, so any image size gives the same lines.
+ */
+function checkCaptionLines(input: CaptionInput): void {
+  const layout = layoutCaption(input, DEFAULT_IMAGE_SIZE, measureCaptionText);
+
+  for (const text of layout.texts) {
+    if (text.lines.length > CAPTION_MAX_LINES) {
+      const field = SLOT_FIELDS[text.slot];
+      throw new CaptionError('TEXT_TOO_LONG', `${field} must fit on ${CAPTION_MAX_LINES} lines`, {
+        field,
+      });
+    }
+  }
+
+  for (const layer of layout.layers) {
+    if (layer.lines.length > CAPTION_LAYER_MAX_LINES) {
+      const field = `layers.${layer.index}`;
+      throw new CaptionError(
+        'TEXT_TOO_LONG',
+        `${field} must fit on ${CAPTION_LAYER_MAX_LINES} lines`,
+        { field }
+      );
+    }
+  }
+}
+
+/**
+ * Validates the query of a caption listing, a missing cursor meaning the first page
+ */
+export function parseCaptionListQuery(query: Record<string, unknown>): {
+  sort: CaptionSort;
+  cursor?: string;
+  limit: number;
+} {
+  const { sort = 'top', cursor, limit = CAPTIONS_PAGE_SIZE.toString() } = query;
+
+  const captionSort = CAPTION_SORTS.find((value) => value === sort);
+  if (!captionSort) {
+    throw new CaptionError('INVALID_FIELD', `sort must be one of ${CAPTION_SORTS.join(', ')}`, {
+      field: 'sort',
+    });
+  }
+  if (
+    cursor !== undefined &&
+    (typeof cursor !== 'string' || !CURSOR_PATTERNS[captionSort].test(cursor))
+  ) {
+    throw new CaptionError('INVALID_FIELD', 'cursor must come from a previous page', {
+      field: 'cursor',
+    });
+  }
+  const pageSize = typeof limit === 'string' && /^\d+$/.test(limit) ? Number(limit) : 0;
+  if (pageSize < 1 || pageSize > CAPTIONS_MAX_PAGE_SIZE) {
+    throw new CaptionError(
+      'INVALID_FIELD',
+      `limit must be a whole number from 1 to ${CAPTIONS_MAX_PAGE_SIZE}`,
+      { field: 'limit' }
+    );
+  }
+
+  return { sort: captionSort, cursor, limit: pageSize };
+}
+
+/**
+ * Validates an upvote request body, returning whether the user upvotes the caption
+ */
+export function parseUpvote(body: unknown): boolean {
+  if (!isPlainObject(body)) {
+    throw new CaptionError('INVALID_BODY', 'Upvote must be a JSON object');
+  }
+
+  const { upvoted } = body;
+  if (typeof upvoted !== 'boolean') {
+    throw new CaptionError('INVALID_FIELD', 'upvoted must be a boolean', { field: 'upvoted' });
+  }
+
+  return upvoted;
+}
+
+/**
+ * Validates a report request body, returning its trimmed reason
+ */
+export function parseReportReason(body: unknown): string {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new CaptionError('INVALID_BODY', 'Report must be a JSON object');
+  }
+
+  const { reason } = body as Record<string, unknown>;
+  if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+    throw new CaptionError('INVALID_FIELD', 'reason must be a string', { field: 'reason' });
+  }
+
+  const text = (reason ?? '').trim();
+  if (!text) {
+    throw new CaptionError('EMPTY_REPORT_REASON', 'A report needs a reason', { field: 'reason' });
+  }
+  if (text.length > REPORT_REASON_MAX_LENGTH) {
+    throw new CaptionError(
+      'TEXT_TOO_LONG',
+      `reason must be at most ${REPORT_REASON_MAX_LENGTH} characters`,
+      { field: 'reason' }
+    );
+  }
+
+  return text;
+}
@@ -0,0 +1,23 @@
+import { Response } from 'express';
+import { ErrorResponse } from '../../shared/types/error.type';
+import { CaptionError } from '../../shared/validation/caption.error';
+
+// Caption failures are shared with the render backend, which validates captions the same way
+export { CaptionError };
+
+/**
+ * Sends a CaptionError as a typed error response, anything else as a generic 500
+ */
+export function sendError(res: Response, error: unknown, fallbackMessage: string): void {
+  if (error instanceof CaptionError) {
+    const body: ErrorResponse = { status: 'error', code: error.code, message: error.message };
+    if (error.field) body.field = error.field;
+    res.status(error.status).json(body);
+    return;
+  }
+
+  res.status(500).json({
+    status: 'error',
+    message: error instanceof Error ? error.message : fallbackMessage,
+  });
+}
@@ -0,0 +1,116 @@
+import { RedisClient } from '@devvit/redis';
+import { Caption } from '../../shared/types/caption.type';
+
+// Redis key builders
+const keys = {
+  // Distinct viewers of each caption, by caption ID
+  impressions: (postId: string) => `post:${postId}:impressions`,
+  // Users the carousel showed a caption to, scored by when they first saw it
+  viewers: (postId: string, captionId: string) => `post:${postId}:captions:${captionId}:viewers`,
+} as const;
+
+export class ImpressionsServices {
+  /**
+   * Counts a caption as seen by a user, once per user and never for its author (for server calls)
+   */
+  static async recordImpression(
+    redis: RedisClient,
+    postId: string,
+    caption: Caption,
+    username: string
+  ): Promise<void> {
+    const captionId = caption.id;
+    if (!captionId || caption.username === username) return;
+
+    try {
+      const added = await redis.zAdd(keys.viewers(postId, captionId), {
+        member: username,
+        score: Date.now(),
+      });
+      if (added > 0) await redis.zIncrBy(keys.impressions(postId), captionId, 1);
+    } catch (error) {
+      console.error(
+        `Error recording impression of caption ${captionId} for post ${postId}:`,
+        error
+      );
+      throw new Error(
+        `Failed to record impression: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Gets how many users saw each caption of a post, captions nobody saw being left out (for
+   * server calls)
+   */
+  static async getImpressionCounts(
+    redis: RedisClient,
+    postId: string
+  ): Promise<Map<string, number>> {
+    try {
+      const impressionItems = await redis.zRange(keys.impressions(postId), 0, -1);
+      return new Map(impressionItems.map((item) => [item.member, item.score]));
+    } catch (error) {
+      console.error(`Error getting impressions for post ${postId}:`, error);
+      throw new Error(
+        `Failed to get impressions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Adds how many users saw each caption, as listed to moderators (for server calls)
+   */
+  static async addImpressions<T extends Pick<Caption, 'id'>>(
+    redis: RedisClient,
+    postId: string,
+    captions: T[]
+  ): Promise<(T & { impressions: number })[]> {
+    const impressionCounts = await this.getImpressionCounts(redis, postId);
+    return captions.map((caption) => ({
+      ...caption,
+      impressions: (caption.id && impressionCounts.get(caption.id)) || 0,
+    }));
+  }
+
+  /**
+   * Deletes the impressions of a caption, once it is deleted (for server calls)
+   */
+  static async deleteImpressions(
+    redis: RedisClient,
+    postId: string,
+    captionId: string
+  ): Promise<void> {
+    try {
+      await redis.zRem(keys.impressions(postId), [captionId]);
+      await redis.del(keys.viewers(postId, captionId));
+    } catch (error) {
+      console.error(
+        `Error deleting impressions of caption ${captionId} for post ${postId}:`,
+        error
+      );
+      throw new Error(
+        `Failed to delete impressions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Deletes every impression of a post (for server calls)
+   */
+  static async purgeImpressions(redis: RedisClient, postId: string): Promise<void> {
+    try {
+      const impressionItems = await redis.zRange(keys.impressions(postId), 0, -1);
+      for (const item of impressionItems) {
+        await redis.del(keys.viewers(postId, item.member));
+      }
+
+      await redis.del(keys.impressions(postId));
+    } catch (error) {
+      console.error(`Error purging impressions for post ${postId}:`, error);
+      throw new Error(
+        `Failed to purge impressions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { RedisClient } from '@devvit/redis';
+import type { RealtimeClient } from '@devvit/web/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveServices } from './live.services';
+import { createRedisStub } from './redis.stub';
+
+const POST_ID = 't3_post';
+
+let redis: RedisClient;
+const send = vi.fn();
+const realtime = { send } as unknown as RealtimeClient;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  redis = createRedisStub();
+  send.mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const vote = (captionId: string, delta: number) =>
+  LiveServices.recordVote({ redis, realtime }, POST_ID, captionId, delta);
+
+// Vote changes of the messages sent, in order
+const getSentChanges = () =>
+  send.mock.calls.map(([, message]) =>
+    Object.fromEntries(
+      Object.entries((message as { changes: Record<string, { delta: number }> }).changes).map(
+        ([captionId, { delta }]) => [captionId, delta]
+      )
+    )
+  );
+
+describe('recordVote', () => {
+  it('sends votes held back by the throttle with the first vote after it', async () => {
+    await vote('a', 1);
+    await vote('a', 1);
+    await vote('b', 1);
+
+    vi.advanceTimersByTime(2000);
+    await vote('b', 1);
+
+    expect(getSentChanges()).toEqual([{ a: 1 }, { a: 1, b: 2 }]);
+  });
+});
+
+describe('flushHeldVotes', () => {
+  it('sends the held votes of posts no vote came to for a whole window, once', async () => {
+    await vote('a', 1);
+    await vote('a', 1);
+
+    await LiveServices.flushHeldVotes({ redis, realtime });
+    expect(getSentChanges()).toEqual([{ a: 1 }]);
+
+    vi.advanceTimersByTime(2000);
+    await LiveServices.flushHeldVotes({ redis, realtime });
+    await LiveServices.flushHeldVotes({ redis, realtime });
+
+    expect(getSentChanges()).toEqual([{ a: 1 }, { a: 1 }]);
+  });
+});
+
+describe('publishCaptionUpdated', () => {
+  it('sends the caption with its current upvotes', async () => {
+    const caption = { id: 'a', username: 'alice', topCaption: 'Edited', createdAt: 1 };
+    await redis.zAdd(`post:${POST_ID}:captions:a:upvotes`, { member: 'alice', score: 1 });
+
+    await LiveServices.publishCaptionUpdated({ redis, realtime }, POST_ID, caption, {
+      votesReset: true,
+    });
+
+    expect(send).toHaveBeenCalledWith(`post_${POST_ID}`, {
+      type: 'caption-updated',
+      caption,
+      upvotes: 1,
+      votesReset: true,
+    });
+  });
+});
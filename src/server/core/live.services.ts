@@ -0,0 +1,193 @@
+import { RedisClient } from '@devvit/redis';
+import type { JsonValue } from '@devvit/web/shared';
+import type { RealtimeClient } from '@devvit/web/server';
+import { Caption } from '../../shared/types/caption.type';
+import { LiveMessage, LiveVoteChange, getLiveChannel } from '../../shared/types/live.type';
+import { CaptionsServices } from './captions.services';
+
+// Redis key builders
+const keys = {
+  // Vote deltas not sent yet, by caption ID
+  pendingVotes: (postId: string) => `post:${postId}:live:votes`,
+  // Set while a vote message was sent less than VOTE_THROTTLE_MS ago
+  votesThrottle: (postId: string) => `post:${postId}:live:votes:throttle`,
+  // Posts with votes held back by the throttle, scored by when the first was held back
+  heldVotes: () => 'live:votes:held',
+} as const;
+
+// At most one vote message per post in this window, the votes in between going with the next
+// vote after it, or with the next run of the flush-live-votes cron job when none comes
+const VOTE_THROTTLE_MS = 2000;
+
+// Devvit clients live updates are sent with
+export interface LiveClients {
+  redis: RedisClient;
+  realtime: RealtimeClient;
+}
+
+export class LiveServices {
+  /**
+   * Tells the post's viewers about a new caption (for server calls)
+   *
+   * Live updates are best effort: failures are logged, never failing the change they announce.
+   */
+  static async publishCaptionCreated(
+    realtime: RealtimeClient,
+    postId: string,
+    caption: Caption
+  ): Promise<void> {
+    try {
+      // New captions start with their author's upvote
+      await this.send(realtime, postId, { type: 'caption-created', caption, upvotes: 1 });
+    } catch (error) {
+      console.error(`Error publishing caption ${caption.id} for post ${postId}:`, error);
+    }
+  }
+
+  /**
+   * Tells the post's viewers about an edited caption, or one a moderator removed or restored (for
+   * server calls)
+   */
+  static async publishCaptionUpdated(
+    clients: LiveClients,
+    postId: string,
+    caption: Caption,
+    options: { votesReset: boolean } = { votesReset: false }
+  ): Promise<void> {
+    const { redis, realtime } = clients;
+
+    try {
+      const upvotes = await CaptionsServices.getUpvoteCount(redis, postId, caption.id!);
+      await this.send(realtime, postId, {
+        type: 'caption-updated',
+        caption,
+        upvotes,
+        votesReset: options.votesReset,
+      });
+    } catch (error) {
+      console.error(`Error publishing update of caption ${caption.id} for post ${postId}:`, error);
+    }
+  }
+
+  /**
+   * Tells the post's viewers about a deleted caption (for server calls)
+   */
+  static async publishCaptionDeleted(
+    realtime: RealtimeClient,
+    postId: string,
+    captionId: string
+  ): Promise<void> {
+    try {
+      await this.send(realtime, postId, { type: 'caption-deleted', captionId });
+    } catch (error) {
+      console.error(`Error publishing deletion of caption ${captionId} for post ${postId}:`, error);
+    }
+  }
+
+  /**
+   * Counts a vote towards the next vote message, sending it now unless one was just sent (for
+   * server calls)
+   */
+  static async recordVote(
+    clients: LiveClients,
+    postId: string,
+    captionId: string,
+    delta: number
+  ): Promise<void> {
+    const { redis } = clients;
+
+    try {
+      await redis.hIncrBy(keys.pendingVotes(postId), captionId, delta);
+
+      const now = Date.now();
+      const sendNow = await redis.set(keys.votesThrottle(postId), now.toString(), {
+        nx: true,
+        expiration: new Date(now + VOTE_THROTTLE_MS),
+      });
+      if (sendNow) {
+        // Votes held back earlier go with this one
+        await redis.zRem(keys.heldVotes(), [postId]);
+        await this.flushVotes(clients, postId);
+        return;
+      }
+
+      // Votes held back by the throttle wait for the next vote, or the cron job. Only the first
+      // is recorded, so the job sends posts that have waited a whole window.
+      if ((await redis.zScore(keys.heldVotes(), postId)) === undefined) {
+        await redis.zAdd(keys.heldVotes(), { member: postId, score: now });
+      }
+    } catch (error) {
+      console.error(`Error publishing vote on caption ${captionId} for post ${postId}:`, error);
+    }
+  }
+
+  /**
+   * Sends the votes held back by the throttle of every post no vote came to since (for the
+   * flush-live-votes cron job)
+   */
+  static async flushHeldVotes(clients: LiveClients): Promise<void> {
+    const { redis } = clients;
+    const heldBefore = Date.now() - VOTE_THROTTLE_MS;
+    const posts = await redis.zRange(keys.heldVotes(), 0, heldBefore, { by: 'score' });
+    // The job runs every minute, costing this single read while no votes are held back
+    if (posts.length === 0) return;
+
+    for (const { member: postId } of posts) {
+      try {
+        await redis.zRem(keys.heldVotes(), [postId]);
+        await this.flushVotes(clients, postId);
+      } catch (error) {
+        console.error(`Error flushing held votes for post ${postId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Sends the vote deltas gathered since the previous vote message
+   */
+  private static async flushVotes(clients: LiveClients, postId: string): Promise<void> {
+    const { redis, realtime } = clients;
+    const pending = await redis.hGetAll(keys.pendingVotes(postId));
+
+    const changes: Record<string, LiveVoteChange> = {};
+    for (const [captionId, value] of Object.entries(pending)) {
+      const delta = parseInt(value, 10);
+      if (!delta) continue;
+
+      // Taking the sent delta off keeps the votes counted meanwhile for the next message
+      await redis.hIncrBy(keys.pendingVotes(postId), captionId, -delta);
+      changes[captionId] = {
+        delta,
+        upvotes: await CaptionsServices.getUpvoteCount(redis, postId, captionId),
+      };
+    }
+
+    if (Object.keys(changes).length === 0) return;
+    await this.send(realtime, postId, { type: 'votes', changes });
+  }
+
+  /**
+   * Deletes the live update state of a post (for server calls)
+   */
+  static async purgeLive(redis: RedisClient, postId: string): Promise<void> {
+    try {
+      await redis.del(keys.pendingVotes(postId));
+      await redis.del(keys.votesThrottle(postId));
+      await redis.zRem(keys.heldVotes(), [postId]);
+    } catch (error) {
+      console.error(`Error purging live updates for post ${postId}:`, error);
+      throw new Error(
+        `Failed to purge live updates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private static async send(
+    realtime: RealtimeClient,
+    postId: string,
+    message: LiveMessage
+  ): Promise<void> {
+    // Round trip through JSON drops the undefined optional fields realtime messages can't carry
+    await realtime.send(getLiveChannel(postId), JSON.parse(JSON.stringify(message)) as JsonValue);
+  }
+}
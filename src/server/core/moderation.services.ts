@@ -0,0 +1,163 @@
+import { RedisClient } from '@devvit/redis';
+import type { RedditClient } from '@devvit/web/server';
+import { randomUUID } from 'node:crypto';
+import { Caption } from '../../shared/types/caption.type';
+import {
+  ModAction,
+  ModLogEntry,
+  REPORTS_MODERATOR,
+} from '../../shared/types/moderation.type';
+import { CaptionsServices } from './captions.services';
+import { CaptionError } from './errors';
+
+// Redis key builders
+const keys = {
+  modLog: (postId: string) => `post:${postId}:modlog`,
+} as const;
+
+// Longest removal reason kept in the mod log
+const MAX_REASON_LENGTH = 200;
+
+export class ModerationServices {
+  /**
+   * Throws unless the user moderates the subreddit (for server calls)
+   */
+  static async assertModerator(
+    reddit: RedditClient,
+    subredditName: string,
+    username: string
+  ): Promise<void> {
+    if (!(await this.isModerator(reddit, subredditName, username))) {
+      throw new CaptionError('NOT_MODERATOR', `u/${username} is not a moderator`, { status: 403 });
+    }
+  }
+
+  /**
+   * Checks whether the user moderates the subreddit (for server calls)
+   */
+  static async isModerator(
+    reddit: RedditClient,
+    subredditName: string,
+    username: string
+  ): Promise<boolean> {
+    try {
+      const moderators = await reddit.getModerators({ subredditName, username }).all();
+      return moderators.some((moderator) => moderator.username === username);
+    } catch (error) {
+      console.error(`Error checking moderator status of ${username}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Hides a caption from regular users and from the winners, logging the action (for server calls)
+   */
+  static async removeCaption(
+    redis: RedisClient,
+    postId: string,
+    captionId: string,
+    moderator: string,
+    reason?: string
+  ): Promise<Caption> {
+    const caption = await CaptionsServices.setCaptionRemoved(redis, postId, captionId, {
+      removedBy: moderator,
+    });
+    await this.addLogEntry(redis, postId, 'remove', captionId, moderator, reason);
+    return caption;
+  }
+
+  /**
+   * Hides a caption that reached the report threshold, logging the action (for server calls)
+   */
+  static async hideReportedCaption(
+    redis: RedisClient,
+    postId: string,
+    captionId: string,
+    reportCount: number
+  ): Promise<Caption> {
+    const caption = await CaptionsServices.setCaptionRemoved(redis, postId, captionId, {
+      removedBy: REPORTS_MODERATOR,
+    });
+    await this.addLogEntry(
+      redis,
+      postId,
+      'hide',
+      captionId,
+      REPORTS_MODERATOR,
+      `Reported by ${reportCount} users`
+    );
+    return caption;
+  }
+
+  /**
+   * Makes a removed caption visible again, logging the action (for server calls)
+   */
+  static async restoreCaption(
+    redis: RedisClient,
+    postId: string,
+    captionId: string,
+    moderator: string
+  ): Promise<Caption> {
+    const caption = await CaptionsServices.setCaptionRemoved(redis, postId, captionId, null);
+    await this.addLogEntry(redis, postId, 'restore', captionId, moderator);
+    return caption;
+  }
+
+  /**
+   * Gets the latest mod log entries of a post, newest first (for server calls)
+   */
+  static async getModLog(redis: RedisClient, postId: string, limit = 50): Promise<ModLogEntry[]> {
+    try {
+      const items = await redis.zRange(keys.modLog(postId), 0, limit - 1, {
+        by: 'rank',
+        reverse: true,
+      });
+      return items.map((item) => JSON.parse(item.member) as ModLogEntry);
+    } catch (error) {
+      console.error(`Error getting mod log for post ${postId}:`, error);
+      throw new Error(
+        `Failed to get mod log: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Purges the mod log of a post (for Devvit component calls)
+   */
+  static async purgeModLog(redis: RedisClient, postId: string): Promise<void> {
+    try {
+      await redis.del(keys.modLog(postId));
+    } catch (error) {
+      console.error(`Error purging mod log for post ${postId}:`, error);
+      throw new Error(
+        `Failed to purge mod log: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Appends an entry to the mod log of a post
+   */
+  private static async addLogEntry(
+    redis: RedisClient,
+    postId: string,
+    action: ModAction,
+    captionId: string,
+    moderator: string,
+    reason?: string
+  ): Promise<void> {
+    const entry: ModLogEntry = {
+      id: randomUUID(),
+      action,
+      captionId,
+      moderator,
+      createdAt: Date.now(),
+    };
+    if (reason) entry.reason = reason.slice(0, MAX_REASON_LENGTH);
+
+    await redis.zAdd(keys.modLog(postId), {
+      member: JSON.stringify(entry),
+      score: entry.createdAt,
+    });
+  }
+}
@@ -1,5 +1,13 @@
 import { RedisClient } from '@devvit/redis';
-import { Post } from '../../shared/types/post.type';
+import { DEFAULT_FIT_MODE } from '../../shared/layout/caption.layout';
+import { ContestStatus, FitMode, Post, ResultsMode } from '../../shared/types/post.type';
+
+// Contest defaults, also used for posts created before these settings existed
+export const DEFAULT_WINNERS_COUNT = 3;
+export const MAX_WINNERS_COUNT = 10;
+export const DEFAULT_MIN_UPVOTES = 1;
+export const DEFAULT_RESULTS_MODE: ResultsMode = 'separate';
+export const RESULTS_MODES: ResultsMode[] = ['gallery', 'results-post', 'separate'];
 
 export class PostsServices {
   /**
@@ -13,7 +21,12 @@ export class PostsServices {
       const postData: Record<string, string> = {
         id: post.id,
         imageUrl: post.imageUrl,
-        deletesAt: post.deletesAt.toString()
+        deletesAt: post.deletesAt.toString(),
+        winnersCount: post.winnersCount.toString(),
+        minUpvotes: post.minUpvotes.toString(),
+        resultsMode: post.resultsMode,
+        fitMode: post.fitMode,
+        status: post.status,
       };
 
       // Add jobId if it exists
@@ -49,6 +62,14 @@ export class PostsServices {
         imageUrl: postData.imageUrl!,
         jobId: postData.jobId,
         deletesAt: Number.parseInt(postData.deletesAt!),
+        winnersCount: postData.winnersCount
+          ? Number.parseInt(postData.winnersCount)
+          : DEFAULT_WINNERS_COUNT,
+        minUpvotes: postData.minUpvotes ? Number.parseInt(postData.minUpvotes) : DEFAULT_MIN_UPVOTES,
+        resultsMode: (postData.resultsMode as ResultsMode | undefined) ?? DEFAULT_RESULTS_MODE,
+        fitMode: (postData.fitMode as FitMode | undefined) ?? DEFAULT_FIT_MODE,
+        resultPostIds: postData.resultPostIds ? JSON.parse(postData.resultPostIds) : undefined,
+        status: (postData.status as ContestStatus | undefined) ?? 'open',
       };
     } catch (error) {
       console.error(`Error getting post ${postId}:`, error);
@@ -58,6 +79,39 @@ export class PostsServices {
     }
   }
 
+  /**
+   * Records the posts created for the results of a post
+   */
+  static async setResultPostIds(
+    redis: RedisClient,
+    postId: string,
+    resultPostIds: string[]
+  ): Promise<void> {
+    try {
+      await redis.hSet(`post:${postId}`, { resultPostIds: JSON.stringify(resultPostIds) });
+    } catch (error) {
+      console.error(`Error saving result posts of post ${postId}:`, error);
+      throw new Error(
+        `Failed to save result posts: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Switches a post to its finished state, showing its results
+   */
+  static async finishPost(redis: RedisClient, postId: string): Promise<void> {
+    try {
+      const status: ContestStatus = 'finished';
+      await redis.hSet(`post:${postId}`, { status });
+    } catch (error) {
+      console.error(`Error finishing post ${postId}:`, error);
+      throw new Error(
+        `Failed to finish post: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Purges a post from Redis and returns status and jobId (for Devvit component calls)
    */
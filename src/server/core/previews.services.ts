@@ -0,0 +1,146 @@
+import { RedisClient } from '@devvit/redis';
+import type { RedditClient, SettingsClient } from '@devvit/web/server';
+import { createHash } from 'node:crypto';
+import { RenderRequest } from '../../shared/types/render.type';
+import { CaptionsServices, toCaptionInput } from './captions.services';
+import { CaptionError } from './errors';
+import { PostsServices } from './posts.services';
+import { RenderServices } from './render.services';
+
+// Redis key builders
+const keys = {
+  // Latest preview of each caption, by caption ID
+  previews: (postId: string) => `post:${postId}:previews`,
+  rateLimit: (username: string) => `previews:rate:${username}`,
+} as const;
+
+// Previews a user can ask for each minute, cached or not
+const PREVIEW_RATE_LIMIT = 20;
+const PREVIEW_RATE_WINDOW_SECONDS = 60;
+// Previews of a post are dropped after a week without a new one
+const PREVIEW_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Backend render of a caption, cached under the hash of everything it was rendered from
+export interface CaptionPreview {
+  hash: string;
+  contentType: string;
+  // Base64 image data
+  data: string;
+}
+
+// Devvit clients previews are rendered with
+export interface PreviewClients {
+  redis: RedisClient;
+  reddit: RedditClient;
+  settings: SettingsClient;
+}
+
+export class PreviewsServices {
+  /**
+   * Gets a caption rendered exactly as it would be posted, from the cache while nothing it is
+   * rendered from changed (for server calls)
+   */
+  static async getPreview(
+    clients: PreviewClients,
+    postId: string,
+    captionId: string,
+    username: string,
+    options: { includeRemoved: boolean }
+  ): Promise<CaptionPreview> {
+    await this.assertWithinRateLimit(clients.redis, username);
+
+    const caption = await CaptionsServices.getCaption(clients.redis, postId, captionId);
+    if (!caption || (caption.removed && !options.includeRemoved)) {
+      throw new CaptionError('CAPTION_NOT_FOUND', `Caption ${captionId} does not exist`, {
+        status: 404,
+      });
+    }
+
+    const post = await PostsServices.getPost(clients.redis, postId);
+    if (!post) {
+      throw new CaptionError('POST_NOT_FOUND', 'Post not found', { status: 404 });
+    }
+
+    // Same request as the publish job's, so the preview is the posted image
+    const request: RenderRequest = {
+      imageUrl: post.imageUrl,
+      caption: { ...toCaptionInput(caption), username: caption.username },
+      fitMode: post.fitMode,
+      output: await RenderServices.getOutput(clients),
+    };
+    const hash = createHash('sha256').update(JSON.stringify(request)).digest('hex');
+
+    const cached = await clients.redis.hGet(keys.previews(postId), captionId);
+    if (cached) {
+      const preview = JSON.parse(cached) as CaptionPreview;
+      if (preview.hash === hash) return preview;
+    }
+
+    let preview: CaptionPreview;
+    try {
+      const render = await RenderServices.render(clients.settings, request);
+      const [, contentType, data] = /^data:([^;]+);base64,(.*)$/s.exec(render.image) ?? [];
+      if (!contentType || !data) throw new Error('Render is not a Base64 data URL');
+
+      preview = { hash, contentType, data };
+    } catch (error) {
+      console.error(`Error rendering preview of caption ${captionId} for post ${postId}:`, error);
+      throw new CaptionError('RENDER_FAILED', 'Failed to render caption', { status: 502 });
+    }
+
+    await clients.redis.hSet(keys.previews(postId), { [captionId]: JSON.stringify(preview) });
+    await clients.redis.expire(keys.previews(postId), PREVIEW_TTL_SECONDS);
+
+    return preview;
+  }
+
+  /**
+   * Drops the cached preview of a caption, once it is edited or deleted (for server calls)
+   */
+  static async invalidatePreview(
+    redis: RedisClient,
+    postId: string,
+    captionId: string
+  ): Promise<void> {
+    try {
+      await redis.hDel(keys.previews(postId), [captionId]);
+    } catch (error) {
+      console.error(
+        `Error invalidating preview of caption ${captionId} for post ${postId}:`,
+        error
+      );
+      throw new Error(
+        `Failed to invalidate preview: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Deletes every cached preview of a post (for server calls)
+   */
+  static async purgePreviews(redis: RedisClient, postId: string): Promise<void> {
+    try {
+      await redis.del(keys.previews(postId));
+    } catch (error) {
+      console.error(`Error purging previews for post ${postId}:`, error);
+      throw new Error(
+        `Failed to purge previews: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Counts a preview request against the user's limit, in fixed windows
+   */
+  private static async assertWithinRateLimit(redis: RedisClient, username: string): Promise<void> {
+    const key = keys.rateLimit(username);
+    const count = await redis.incrBy(key, 1);
+    if (count === 1) await redis.expire(key, PREVIEW_RATE_WINDOW_SECONDS);
+
+    if (count > PREVIEW_RATE_LIMIT) {
+      throw new CaptionError('RATE_LIMITED', 'Too many previews, try again in a minute', {
+        status: 429,
+      });
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { RedisClient } from '@devvit/redis';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResultsMode } from '../../shared/types/post.type';
+import { RenderResponse } from '../../shared/types/render.type';
+import { CaptionsServices } from './captions.services';
+import { PostsServices } from './posts.services';
+import { PublishClients, PublishServices } from './publish.services';
+import { createRedisStub } from './redis.stub';
+import { RenderServices } from './render.services';
+
+const POST_ID = 't3_post';
+const IMAGE_URL = 'https://i.redd.it/meme.png';
+
+let redis: RedisClient;
+
+// Reddit and media clients recording what the job submits
+const reddit = {
+  getCurrentSubreddit: vi.fn(async () => ({ name: 'memes' })),
+  submitPost: vi.fn(async () => ({ id: 't3_submitted' })),
+  submitCustomPost: vi.fn(async () => ({ id: 't3_custom' })),
+};
+const media = {
+  upload: vi.fn(async () => ({
+    mediaId: 'media',
+    mediaUrl: `https://i.redd.it/winner${media.upload.mock.calls.length}.jpeg`,
+  })),
+};
+
+const render = (): RenderResponse => ({
+  success: true,
+  image: 'data:image/jpeg;base64,cmVuZGVyZWQ=',
+  contentType: 'image/jpeg',
+  width: 730,
+  height: 430,
+  bytes: 8,
+  renderMs: 12,
+});
+
+// Contest where bob's caption beats alice's
+async function createContest(resultsMode: ResultsMode) {
+  await PostsServices.createPost(redis, {
+    id: POST_ID,
+    imageUrl: IMAGE_URL,
+    deletesAt: Date.now() + 24 * 60 * 60 * 1000,
+    winnersCount: 3,
+    minUpvotes: 1,
+    status: 'open',
+    resultsMode,
+    fitMode: 'fit',
+  });
+
+  const rules = {
+    blockedWords: [],
+    maxLength: 200,
+    maxCapitalsPercent: 0,
+    blockLinks: false,
+    bannedDomains: [],
+  };
+  for (const username of ['alice', 'bob']) {
+    const caption = await CaptionsServices.createCaption(
+      redis,
+      POST_ID,
+      username,
+      { topCaption: `Caption by ${username}` },
+      { maxCaptionsPerUser: 1 },
+      rules
+    );
+    if (username === 'bob') {
+      await CaptionsServices.setUpvote(redis, POST_ID, caption.id!, 'carol', true);
+    }
+  }
+}
+
+const publish = () =>
+  PublishServices.publishResults(
+    { redis, reddit, media, scheduler: {}, settings: {} } as unknown as PublishClients,
+    POST_ID,
+    IMAGE_URL
+  );
+
+beforeEach(() => {
+  redis = createRedisStub();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(RenderServices, 'getOutput').mockResolvedValue({});
+  vi.spyOn(RenderServices, 'renderBatch').mockImplementation(async (_settings, request) => ({
+    success: true,
+    results: request.captions.map(render),
+  }));
+  // Skips the pause given to uploads
+  vi.spyOn(globalThis, 'setTimeout').mockImplementation(((callback: () => void) => {
+    callback();
+    return 0;
+  }) as unknown as typeof setTimeout);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+});
+
+describe('publishResults', () => {
+  it("submits one image post per winner in the 'separate' mode", async () => {
+    await createContest('separate');
+
+    await publish();
+
+    expect(reddit.submitCustomPost).not.toHaveBeenCalled();
+    expect(reddit.submitPost.mock.calls).toEqual([
+      [expect.objectContaining({ kind: 'image', imageUrls: ['https://i.redd.it/winner1.jpeg'] })],
+      [expect.objectContaining({ kind: 'image', imageUrls: ['https://i.redd.it/winner2.jpeg'] })],
+    ]);
+  });
+
+  it("submits one image post of every winner in rank order in the 'gallery' mode", async () => {
+    await createContest('gallery');
+
+    await publish();
+
+    expect(reddit.submitCustomPost).not.toHaveBeenCalled();
+    expect(reddit.submitPost.mock.calls).toEqual([
+      [
+        expect.objectContaining({
+          kind: 'image',
+          title: 'Caption contest results: #1 u/bob, #2 u/alice',
+          imageUrls: ['https://i.redd.it/winner1.jpeg', 'https://i.redd.it/winner2.jpeg'],
+        }),
+      ],
+    ]);
+  });
+
+  it("submits one custom post in the 'results-post' mode", async () => {
+    await createContest('results-post');
+
+    await publish();
+
+    expect(reddit.submitPost).not.toHaveBeenCalled();
+    expect(media.upload).not.toHaveBeenCalled();
+    expect(reddit.submitCustomPost).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,595 @@
+import { RedisClient } from '@devvit/redis';
+import type {
+  MediaClient,
+  RedditClient,
+  SchedulerClient,
+  SettingsClient,
+} from '@devvit/web/server';
+import { DEFAULT_FIT_MODE } from '../../shared/layout/caption.layout';
+import { PublishJob, PublishStep, PublishWinner } from '../../shared/types/publish.type';
+import { RenderCaption, RenderResponse } from '../../shared/types/render.type';
+import { ContestResults } from '../../shared/types/results.type';
+import { CaptionsServices, toCaptionInput } from './captions.services';
+import { CaptionError } from './errors';
+import { ImpressionsServices } from './impressions.services';
+import { LiveServices } from './live.services';
+import { ModerationServices } from './moderation.services';
+import { DEFAULT_RESULTS_MODE, PostsServices } from './posts.services';
+import { PreviewsServices } from './previews.services';
+import { RenderServices } from './render.services';
+import { ReportsServices } from './reports.services';
+import { ResultsServices } from './results.services';
+
+// Redis key builders
+const keys = {
+  job: (postId: string) => `post:${postId}:publish`,
+  render: (postId: string, captionId: string) => `post:${postId}:publish:renders:${captionId}`,
+  lock: (postId: string) => `post:${postId}:publish:lock`,
+  deadLetter: () => 'publish:dead-letter',
+} as const;
+
+// Runs allowed before a contest goes to the dead-letter list
+const MAX_ATTEMPTS = 5;
+// Retry delays double from the base delay, up to the max delay
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+// A run holding the lock longer than this is considered dead
+const LOCK_TTL_MS = 10 * 60 * 1000;
+// Rendered images only need to outlive the retries
+const RENDER_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Devvit clients the job works with
+export interface PublishClients {
+  redis: RedisClient;
+  reddit: RedditClient;
+  media: MediaClient;
+  scheduler: SchedulerClient;
+  settings: SettingsClient;
+}
+
+export class PublishServices {
+  /**
+   * Publishes the winning captions of a post and switches it to its results view, resuming from the last completed step (for scheduled jobs)
+   *
+   * The original post is kept with its comments. Its captions are purged once the results snapshot
+   * holds the winners, their final votes and links to the published posts.
+   *
+   * Each step records its result in Redis before the next one starts, so a failed run can be retried
+   * without rendering, uploading or submitting a winner twice. Failures are retried with backoff, and
+   * after MAX_ATTEMPTS runs the contest goes to the dead-letter list for moderators.
+   */
+  static async publishResults(
+    clients: PublishClients,
+    postId: string,
+    imageUrl: string
+  ): Promise<void> {
+    const { redis } = clients;
+
+    // Only one run per post at a time
+    const locked = await redis.set(keys.lock(postId), Date.now().toString(), {
+      nx: true,
+      expiration: new Date(Date.now() + LOCK_TTL_MS),
+    });
+    if (!locked) {
+      console.log(`Results of post ${postId} are already being published`);
+      return;
+    }
+
+    let job: PublishJob | null = null;
+    let step: PublishStep = 'render';
+
+    try {
+      job = await this.getOrCreateJob(redis, postId, imageUrl);
+      if (!job) {
+        console.log(`Post ${postId} has nothing left to publish`);
+        return;
+      }
+
+      job.status = 'running';
+      job.retryJobId = undefined;
+      job.nextRetryAt = undefined;
+      await this.saveJob(redis, job);
+
+      // Render and upload the winners (results posts draw the captions in the web client instead)
+      if (job.resultsMode !== 'results-post') {
+        step = 'render';
+        await this.renderWinners(clients, job);
+
+        step = 'upload';
+        let uploaded = false;
+        for (const winner of job.winners) {
+          if (winner.mediaUrl) continue;
+          await this.uploadWinner(clients, job, winner);
+          await this.saveJob(redis, job);
+          uploaded = true;
+        }
+        // pause once to make sure the images are properly uploaded
+        if (uploaded) await new Promise((r) => setTimeout(r, 3000));
+      }
+
+      step = 'submit';
+      await this.submitResults(clients, job);
+      await PostsServices.setResultPostIds(redis, postId, this.getResultPostIds(job));
+
+      step = 'finish';
+      if (!job.finished) {
+        await ResultsServices.saveResults(redis, postId, this.toContestResults(job));
+        await PostsServices.finishPost(redis, postId);
+        job.finished = true;
+        await this.saveJob(redis, job);
+      }
+
+      step = 'purge';
+      await CaptionsServices.purgeCaptionsAndUpvotes(redis, postId);
+      await ModerationServices.purgeModLog(redis, postId);
+      await ReportsServices.purgeReports(redis, postId);
+      await PreviewsServices.purgePreviews(redis, postId);
+      await LiveServices.purgeLive(redis, postId);
+      await ImpressionsServices.purgeImpressions(redis, postId);
+      await this.purgeJob(clients, postId);
+
+      console.log(`Successfully published results of post ${postId}`);
+    } catch (error) {
+      console.error(`Error publishing results of post ${postId} at step ${step}:`, error);
+      if (job) await this.handleFailure(clients, job, step, error);
+    } finally {
+      await redis.del(keys.lock(postId));
+    }
+  }
+
+  /**
+   * Gets the contests that failed to publish, most recent first (for server calls)
+   */
+  static async getDeadLetters(redis: RedisClient): Promise<PublishJob[]> {
+    try {
+      const items = await redis.zRange(keys.deadLetter(), 0, -1, { by: 'rank', reverse: true });
+
+      const jobs: PublishJob[] = [];
+      for (const item of items) {
+        const job = await this.getJob(redis, item.member);
+        if (job) jobs.push(job);
+      }
+
+      return jobs;
+    } catch (error) {
+      console.error('Error getting failed publish jobs:', error);
+      throw new Error(
+        `Failed to get failed publish jobs: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Takes a contest off the dead-letter list and runs its job again right away (for server calls)
+   */
+  static async retryDeadLetter(
+    redis: RedisClient,
+    scheduler: SchedulerClient,
+    postId: string
+  ): Promise<PublishJob> {
+    try {
+      const job = await this.getJob(redis, postId);
+      const deadLettered = await redis.zScore(keys.deadLetter(), postId);
+      if (!job || deadLettered === undefined) {
+        throw new CaptionError(
+          'PUBLISH_JOB_NOT_FOUND',
+          `No failed publish job for post ${postId}`,
+          { status: 404 }
+        );
+      }
+
+      job.status = 'retrying';
+      job.attempts = 0;
+      job.nextRetryAt = Date.now();
+      job.retryJobId = await scheduler.runJob({
+        name: 'post-best-captions',
+        data: { postId, imageUrl: job.imageUrl },
+        runAt: new Date(job.nextRetryAt),
+      });
+      await this.saveJob(redis, job);
+      await redis.zRem(keys.deadLetter(), [postId]);
+
+      return job;
+    } catch (error) {
+      console.error(`Error retrying publish job of post ${postId}:`, error);
+      if (error instanceof CaptionError) throw error;
+      throw new Error(
+        `Failed to retry publish job: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Deletes the publish state of a post, cancelling its pending retry (for Devvit component calls)
+   */
+  static async purgeJob(
+    clients: Pick<PublishClients, 'redis' | 'scheduler'>,
+    postId: string
+  ): Promise<void> {
+    const { redis, scheduler } = clients;
+
+    try {
+      const job = await this.getJob(redis, postId);
+      if (job) {
+        for (const winner of job.winners) {
+          await redis.del(keys.render(postId, winner.captionId));
+        }
+        if (job.retryJobId && job.status === 'retrying') {
+          await scheduler.cancelJob(job.retryJobId);
+        }
+      }
+
+      await redis.del(keys.job(postId));
+      await redis.zRem(keys.deadLetter(), [postId]);
+    } catch (error) {
+      console.error(`Error purging publish job of post ${postId}:`, error);
+      throw new Error(
+        `Failed to purge publish job: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Gets the publish state of a post
+   */
+  private static async getJob(redis: RedisClient, postId: string): Promise<PublishJob | null> {
+    const data = await redis.get(keys.job(postId));
+    return data ? (JSON.parse(data) as PublishJob) : null;
+  }
+
+  /**
+   * Saves the publish state of a post
+   */
+  private static async saveJob(redis: RedisClient, job: PublishJob): Promise<void> {
+    job.updatedAt = Date.now();
+    await redis.set(keys.job(job.postId), JSON.stringify(job));
+  }
+
+  /**
+   * Resumes the publish state of a post, or starts it by freezing the winners (null once the post is gone)
+   */
+  private static async getOrCreateJob(
+    redis: RedisClient,
+    postId: string,
+    imageUrl: string
+  ): Promise<PublishJob | null> {
+    const existingJob = await this.getJob(redis, postId);
+    if (existingJob) {
+      // Jobs started before results modes existed posted each winner separately
+      existingJob.resultsMode ??= DEFAULT_RESULTS_MODE;
+      existingJob.fitMode ??= DEFAULT_FIT_MODE;
+      return existingJob;
+    }
+
+    const post = await PostsServices.getPost(redis, postId);
+    if (!post || post.status === 'finished') return null;
+
+    // Winners are picked once, so retries publish the same captions
+    const topCaptions = await CaptionsServices.getTopCaptions(redis, postId, {
+      count: post.winnersCount,
+      minUpvotes: post.minUpvotes,
+    });
+
+    const now = Date.now();
+    const job: PublishJob = {
+      postId,
+      imageUrl: imageUrl || post.imageUrl,
+      status: 'running',
+      attempts: 0,
+      resultsMode: post.resultsMode,
+      fitMode: post.fitMode,
+      winners: topCaptions.map((caption) => ({
+        captionId: caption.id!,
+        username: caption.username,
+        caption: toCaptionInput(caption),
+        upvotes: caption.upvotes,
+        rendered: false,
+      })),
+      finished: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.saveJob(redis, job);
+
+    return job;
+  }
+
+  /**
+   * Gets the stored render of a winner, if it hasn't expired
+   */
+  private static async getRender(
+    redis: RedisClient,
+    postId: string,
+    winner: PublishWinner
+  ): Promise<string | undefined> {
+    if (!winner.rendered) return undefined;
+    return (await redis.get(keys.render(postId, winner.captionId))) || undefined;
+  }
+
+  /**
+   * Renders the winners missing a render in one batch, then renders the ones it failed one at a time
+   *
+   * A winner failing in the batch only costs it a request of its own; failing on its own too fails
+   * the step, keeping the renders that succeeded for the retry.
+   */
+  private static async renderWinners(clients: PublishClients, job: PublishJob): Promise<void> {
+    const pending: PublishWinner[] = [];
+    for (const winner of job.winners) {
+      if (winner.mediaUrl) continue;
+      if (await this.getRender(clients.redis, job.postId, winner)) continue;
+      winner.rendered = false;
+      pending.push(winner);
+    }
+    if (pending.length === 0) return;
+
+    const output = await RenderServices.getOutput(clients);
+
+    if (pending.length > 1) {
+      try {
+        const { results } = await RenderServices.renderBatch(clients.settings, {
+          imageUrl: job.imageUrl,
+          captions: pending.map((winner) => this.toRenderCaption(winner)),
+          fitMode: job.fitMode,
+          output,
+        });
+
+        for (let index = 0; index < pending.length; index++) {
+          const winner = pending[index]!;
+          const result = results[index];
+          if (result?.success) {
+            await this.storeRender(clients.redis, job, winner, result);
+          } else {
+            console.error(
+              `Batch render failed for caption ${winner.captionId}: ${result ? `${result.code} ${result.message}` : 'No result'}`
+            );
+          }
+        }
+        await this.saveJob(clients.redis, job);
+      } catch (error) {
+        console.error(`Batch render failed for post ${job.postId}:`, error);
+      }
+    }
+
+    for (const winner of pending) {
+      if (winner.rendered) continue;
+
+      const render = await RenderServices.render(clients.settings, {
+        imageUrl: job.imageUrl,
+        caption: this.toRenderCaption(winner),
+        fitMode: job.fitMode,
+        output,
+      });
+      await this.storeRender(clients.redis, job, winner, render);
+      await this.saveJob(clients.redis, job);
+    }
+  }
+
+  /**
+   * Caption of a winner as sent to the backend, with the username its credit names
+   */
+  private static toRenderCaption(winner: PublishWinner): RenderCaption {
+    return { ...winner.caption, username: winner.username };
+  }
+
+  /**
+   * Stores the render of a winner until it is uploaded
+   */
+  private static async storeRender(
+    redis: RedisClient,
+    job: PublishJob,
+    winner: PublishWinner,
+    render: RenderResponse
+  ): Promise<void> {
+    console.log(
+      `Rendered caption ${winner.captionId}: ${render.width}x${render.height} ${render.contentType}, ${render.bytes} bytes in ${render.renderMs}ms`
+    );
+    // Base64 image data URL, JPEG or animated GIF
+    await redis.set(keys.render(job.postId, winner.captionId), render.image, {
+      expiration: new Date(Date.now() + RENDER_TTL_MS),
+    });
+    winner.rendered = true;
+  }
+
+  /**
+   * Uploads the stored render of a winner to Reddit
+   */
+  private static async uploadWinner(
+    clients: PublishClients,
+    job: PublishJob,
+    winner: PublishWinner
+  ): Promise<void> {
+    const renderKey = keys.render(job.postId, winner.captionId);
+    const imageData = await clients.redis.get(renderKey);
+    if (!imageData) {
+      winner.rendered = false;
+      throw new Error(`Render of caption ${winner.captionId} is missing`);
+    }
+
+    // Animated GIFs are rendered as GIF data URLs, which Reddit uploads as their own media type
+    const type = imageData.startsWith('data:image/gif') ? 'gif' : 'image';
+    const mediaAsset = await clients.media.upload({ url: imageData, type });
+
+    winner.mediaUrl = mediaAsset.mediaUrl;
+    await clients.redis.del(renderKey);
+  }
+
+  /**
+   * Submits the results in the contest's results mode, skipping the posts already submitted
+   */
+  private static async submitResults(clients: PublishClients, job: PublishJob): Promise<void> {
+    const { redis } = clients;
+
+    if (job.resultsMode === 'separate') {
+      for (const winner of job.winners) {
+        if (winner.submittedPostId) continue;
+        await this.submitWinner(clients, winner);
+        await this.saveJob(redis, job);
+      }
+      return;
+    }
+
+    // Nothing to show without winners
+    if (job.winners.length === 0) return;
+
+    if (!job.resultsPostId) {
+      job.resultsPostId =
+        job.resultsMode === 'gallery'
+          ? await this.submitGallery(clients, job)
+          : await this.submitResultsPost(clients, job);
+      await this.saveJob(redis, job);
+    }
+
+    if (job.resultsMode === 'results-post') {
+      await ResultsServices.saveResults(redis, job.resultsPostId, this.toContestResults(job));
+    }
+  }
+
+  /**
+   * Submits the uploaded image of a winner as a new post
+   */
+  private static async submitWinner(clients: PublishClients, winner: PublishWinner): Promise<void> {
+    const subreddit = await clients.reddit.getCurrentSubreddit();
+    const post = await clients.reddit.submitPost({
+      kind: 'image',
+      title: `Caption created by u/${winner.username}`,
+      subredditName: subreddit.name,
+      imageUrls: [winner.mediaUrl!],
+    });
+
+    winner.submittedPostId = post.id;
+    console.log(`Successfully posted caption by ${winner.username}`);
+  }
+
+  /**
+   * Submits one image gallery post of every uploaded winner image in rank order, the title naming their authors
+   */
+  private static async submitGallery(clients: PublishClients, job: PublishJob): Promise<string> {
+    const ranking = job.winners
+      .map((winner, index) => `#${index + 1} u/${winner.username}`)
+      .join(', ');
+
+    const subreddit = await clients.reddit.getCurrentSubreddit();
+    const post = await clients.reddit.submitPost({
+      kind: 'image',
+      title: `Caption contest results: ${ranking}`,
+      subredditName: subreddit.name,
+      // Several images make a gallery post, though the client types only allow one
+      imageUrls: job.winners.map((winner) => winner.mediaUrl!) as [string],
+    });
+
+    console.log(
+      `Successfully posted image gallery of the ${job.winners.length} winners of post ${job.postId}`
+    );
+    return post.id;
+  }
+
+  /**
+   * Submits one interactive post where the web client draws every winner in rank order
+   */
+  private static async submitResultsPost(
+    clients: PublishClients,
+    job: PublishJob
+  ): Promise<string> {
+    const subreddit = await clients.reddit.getCurrentSubreddit();
+    const post = await clients.reddit.submitCustomPost({
+      title: `Caption contest results: the top ${job.winners.length} captions`,
+      subredditName: subreddit.name,
+      splash: {
+        backgroundUri: job.imageUrl,
+        appIconUri: 'logo.png',
+        heading: 'See the Winning Captions',
+      },
+    });
+
+    console.log(`Successfully posted results post of post ${job.postId}`);
+    return post.id;
+  }
+
+  /**
+   * Lists the posts the results were published to
+   */
+  private static getResultPostIds(job: PublishJob): string[] {
+    if (job.resultsMode === 'separate') {
+      return job.winners.flatMap((winner) =>
+        winner.submittedPostId ? [winner.submittedPostId] : []
+      );
+    }
+    return job.resultsPostId ? [job.resultsPostId] : [];
+  }
+
+  /**
+   * Builds the final standings of the contest from its frozen winners
+   */
+  private static toContestResults(job: PublishJob): ContestResults {
+    return {
+      postId: job.postId,
+      imageUrl: job.imageUrl,
+      fitMode: job.fitMode,
+      winners: job.winners.map((winner, index) => ({
+        rank: index + 1,
+        captionId: winner.captionId,
+        username: winner.username,
+        caption: winner.caption,
+        upvotes: winner.upvotes,
+        imageUrl: winner.mediaUrl,
+      })),
+      resultPostIds: this.getResultPostIds(job),
+      finishedAt: job.createdAt,
+    };
+  }
+
+  /**
+   * Schedules a retry with backoff, or moves the contest to the dead-letter list once it ran out of attempts
+   */
+  private static async handleFailure(
+    clients: PublishClients,
+    job: PublishJob,
+    step: PublishStep,
+    error: unknown
+  ): Promise<void> {
+    const { redis, scheduler } = clients;
+
+    try {
+      job.attempts += 1;
+      job.failedStep = step;
+      job.lastError = error instanceof Error ? error.message : 'Unknown error';
+
+      if (job.attempts < MAX_ATTEMPTS) {
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1), RETRY_MAX_DELAY_MS);
+        job.status = 'retrying';
+        job.nextRetryAt = Date.now() + delay;
+        job.retryJobId = await scheduler.runJob({
+          name: 'post-best-captions',
+          data: { postId: job.postId, imageUrl: job.imageUrl },
+          runAt: new Date(job.nextRetryAt),
+        });
+        await this.saveJob(redis, job);
+        console.log(
+          `Retrying results of post ${job.postId} in ${delay / 1000}s (attempt ${job.attempts + 1})`
+        );
+        return;
+      }
+
+      job.status = 'failed';
+      await this.saveJob(redis, job);
+      await redis.zAdd(keys.deadLetter(), { member: job.postId, score: job.updatedAt });
+      console.error(
+        `Results of post ${job.postId} failed ${job.attempts} times, moved to dead-letter list`
+      );
+
+      // Let moderators know the contest needs them
+      const subreddit = await clients.reddit.getCurrentSubreddit();
+      await clients.reddit.modMail.createModNotification({
+        subject: 'Caption contest results could not be posted',
+        bodyMarkdown: [
+          `Posting the results of https://reddit.com/comments/${job.postId.replace(/^t3_/, '')} failed ${job.attempts} times at the "${step}" step: ${job.lastError}`,
+          '',
+          'Open the post and use the Mod panel to retry.',
+        ].join('\n'),
+        subredditId: subreddit.id,
+      });
+    } catch (failureError) {
+      console.error(`Error handling publish failure of post ${job.postId}:`, failureError);
+    }
+  }
+}
@@ -0,0 +1,363 @@
+import type { RedisClient, SetOptions, ZMember, ZRangeOptions } from '@devvit/redis';
+
+type Value = string | Map<string, string> | Map<string, number>;
+
+// Stored value with the time it expires at, if any
+type Entry = { value: Value; expiresAt?: number };
+
+/**
+ * In-memory stand-in for the Devvit Redis client, covering the commands the services use (for
+ * tests)
+ *
+ * Every command yields to the event loop like a network round trip would, so concurrent calls
+ * interleave. Transactions follow Redis: queued commands run together on EXEC, which returns
+ * null without running them once a watched key changed.
+ */
+export class RedisStub {
+  readonly #entries = new Map<string, Entry>();
+  // Bumped on every write of a key, for WATCH
+  readonly #versions = new Map<string, number>();
+
+  async get(key: string): Promise<string | undefined> {
+    await tick();
+    const value = this.#read(key);
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  async set(key: string, value: string, options: SetOptions = {}): Promise<string> {
+    await tick();
+    if (options.nx && this.#read(key) !== undefined) return '';
+    if (options.xx && this.#read(key) === undefined) return '';
+    this.#write(key, value, options.expiration?.getTime());
+    return 'OK';
+  }
+
+  async exists(...keys: string[]): Promise<number> {
+    await tick();
+    return keys.filter((key) => this.#read(key) !== undefined).length;
+  }
+
+  async del(...keys: string[]): Promise<void> {
+    await tick();
+    this.delNow(keys);
+  }
+
+  async incrBy(key: string, value: number): Promise<number> {
+    await tick();
+    const next = Number(this.#read(key) ?? 0) + value;
+    this.#write(key, next.toString(), this.#entries.get(key)?.expiresAt);
+    return next;
+  }
+
+  async expire(key: string, seconds: number): Promise<void> {
+    await tick();
+    const entry = this.#live(key);
+    if (entry) entry.expiresAt = Date.now() + seconds * 1000;
+  }
+
+  async hGet(key: string, field: string): Promise<string | undefined> {
+    await tick();
+    return this.#hash(key).get(field);
+  }
+
+  async hMGet(key: string, fields: string[]): Promise<(string | null)[]> {
+    await tick();
+    const hash = this.#hash(key);
+    return fields.map((field) => hash.get(field) ?? null);
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    await tick();
+    return Object.fromEntries(this.#hash(key));
+  }
+
+  async hSet(key: string, fieldValues: Record<string, string>): Promise<number> {
+    await tick();
+    return this.hSetNow(key, fieldValues);
+  }
+
+  async hSetNX(key: string, field: string, value: string): Promise<number> {
+    await tick();
+    const hash = this.#hash(key);
+    if (hash.has(field)) return 0;
+    hash.set(field, value);
+    this.#write(key, hash);
+    return 1;
+  }
+
+  async hDel(key: string, fields: string[]): Promise<number> {
+    await tick();
+    const hash = this.#hash(key);
+    const removed = fields.filter((field) => hash.delete(field)).length;
+    this.#write(key, hash);
+    return removed;
+  }
+
+  async hIncrBy(key: string, field: string, value: number): Promise<number> {
+    await tick();
+    const hash = this.#hash(key);
+    const next = Number(hash.get(field) ?? 0) + value;
+    hash.set(field, next.toString());
+    this.#write(key, hash);
+    return next;
+  }
+
+  async zAdd(key: string, ...members: ZMember[]): Promise<number> {
+    await tick();
+    return this.#zAdd(key, members);
+  }
+
+  async zRem(key: string, members: string[]): Promise<number> {
+    await tick();
+    return this.#zRem(key, members);
+  }
+
+  async zIncrBy(key: string, member: string, value: number): Promise<number> {
+    await tick();
+    const set = this.#sortedSet(key);
+    const next = (set.get(member) ?? 0) + value;
+    set.set(member, next);
+    this.#write(key, set);
+    return next;
+  }
+
+  async zScore(key: string, member: string): Promise<number | undefined> {
+    await tick();
+    return this.#sortedSet(key).get(member);
+  }
+
+  async zCard(key: string): Promise<number> {
+    await tick();
+    return this.#zCard(key);
+  }
+
+  async zRange(
+    key: string,
+    start: number | string,
+    stop: number | string,
+    options: ZRangeOptions = { by: 'rank' }
+  ): Promise<ZMember[]> {
+    await tick();
+    return this.#zRange(key, start, stop, options);
+  }
+
+  async watch(...keys: string[]): Promise<RedisStubTransaction> {
+    await tick();
+    return new RedisStubTransaction(
+      this,
+      new Map(keys.map((key) => [key, this.#versions.get(key) ?? 0]))
+    );
+  }
+
+  /**
+   * Runs queued transaction commands unless a watched key changed since it was watched
+   */
+  execute(
+    watched: Map<string, number>,
+    commands: ((stub: RedisStub) => unknown)[]
+  ): unknown[] | null {
+    for (const [key, version] of watched) {
+      if ((this.#versions.get(key) ?? 0) !== version) return null;
+    }
+    return commands.map((command) => command(this));
+  }
+
+  delNow(keys: string[]): void {
+    for (const key of keys) this.#delete(key);
+  }
+
+  hSetNow(key: string, fieldValues: Record<string, string>): number {
+    const hash = this.#hash(key);
+    const added = Object.keys(fieldValues).filter((field) => !hash.has(field)).length;
+    for (const [field, value] of Object.entries(fieldValues)) hash.set(field, value);
+    this.#write(key, hash);
+    return added;
+  }
+
+  zAddNow(key: string, members: ZMember[]): number {
+    return this.#zAdd(key, members);
+  }
+
+  zRemNow(key: string, members: string[]): number {
+    return this.#zRem(key, members);
+  }
+
+  zCardNow(key: string): number {
+    return this.#zCard(key);
+  }
+
+  #live(key: string): Entry | undefined {
+    const entry = this.#entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.#entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  #read(key: string): Value | undefined {
+    return this.#live(key)?.value;
+  }
+
+  #write(key: string, value: Value, expiresAt?: number): void {
+    const empty = typeof value !== 'string' && value.size === 0;
+    if (empty) this.#entries.delete(key);
+    else this.#entries.set(key, { value, expiresAt: expiresAt ?? this.#live(key)?.expiresAt });
+    this.#versions.set(key, (this.#versions.get(key) ?? 0) + 1);
+  }
+
+  #delete(key: string): void {
+    if (this.#entries.delete(key)) this.#versions.set(key, (this.#versions.get(key) ?? 0) + 1);
+  }
+
+  #hash(key: string): Map<string, string> {
+    const value = this.#read(key);
+    return value instanceof Map ? new Map(value as Map<string, string>) : new Map();
+  }
+
+  #sortedSet(key: string): Map<string, number> {
+    const value = this.#read(key);
+    return value instanceof Map ? new Map(value as Map<string, number>) : new Map();
+  }
+
+  #zAdd(key: string, members: ZMember[]): number {
+    const set = this.#sortedSet(key);
+    const added = members.filter(({ member }) => !set.has(member)).length;
+    for (const { member, score } of members) set.set(member, score);
+    this.#write(key, set);
+    return added;
+  }
+
+  #zRem(key: string, members: string[]): number {
+    const set = this.#sortedSet(key);
+    const removed = members.filter((member) => set.delete(member)).length;
+    this.#write(key, set);
+    return removed;
+  }
+
+  #zCard(key: string): number {
+    return this.#sortedSet(key).size;
+  }
+
+  #zRange(
+    key: string,
+    start: number | string,
+    stop: number | string,
+    options: ZRangeOptions
+  ): ZMember[] {
+    const members = [...this.#sortedSet(key)]
+      .map(([member, score]) => ({ member, score }))
+      .sort((a, b) => a.score - b.score || (a.member < b.member ? -1 : 1));
+    if (options.reverse) members.reverse();
+
+    let range: ZMember[];
+    if (options.by === 'score') {
+      // Reversed score ranges go from the highest score down, like ZRANGE BYSCORE REV
+      const [min, max] = options.reverse ? [stop, start] : [start, stop];
+      range = members.filter(
+        ({ score }) => aboveBound(score, min, 'min') && aboveBound(-score, max, 'max')
+      );
+    } else {
+      const size = members.length;
+      const from = Number(start) < 0 ? size + Number(start) : Number(start);
+      const to = Number(stop) < 0 ? size + Number(stop) : Number(stop);
+      range = members.slice(Math.max(0, from), to + 1);
+    }
+
+    const { offset = 0, count } = options.limit ?? {};
+    return range.slice(offset, count === undefined ? undefined : offset + count);
+  }
+}
+
+/**
+ * Transaction of a RedisStub, queueing the commands sent after MULTI until EXEC
+ */
+export class RedisStubTransaction {
+  readonly #stub: RedisStub;
+  readonly #watched: Map<string, number>;
+  #commands: ((stub: RedisStub) => unknown)[] | undefined;
+
+  constructor(stub: RedisStub, watched: Map<string, number>) {
+    this.#stub = stub;
+    this.#watched = watched;
+  }
+
+  async multi(): Promise<void> {
+    await tick();
+    this.#commands = [];
+  }
+
+  async del(...keys: string[]): Promise<this> {
+    await tick();
+    this.#queue((stub) => stub.delNow(keys));
+    return this;
+  }
+
+  async hSet(key: string, fieldValues: Record<string, string>): Promise<this> {
+    await tick();
+    this.#queue((stub) => stub.hSetNow(key, fieldValues));
+    return this;
+  }
+
+  async zAdd(key: string, ...members: ZMember[]): Promise<this> {
+    await tick();
+    this.#queue((stub) => stub.zAddNow(key, members));
+    return this;
+  }
+
+  async zRem(key: string, members: string[]): Promise<this> {
+    await tick();
+    this.#queue((stub) => stub.zRemNow(key, members));
+    return this;
+  }
+
+  async zCard(key: string): Promise<this> {
+    await tick();
+    this.#queue((stub) => stub.zCardNow(key));
+    return this;
+  }
+
+  async exec(): Promise<unknown[] | null> {
+    await tick();
+    const results = this.#stub.execute(this.#watched, this.#commands ?? []);
+    this.#commands = undefined;
+    this.#watched.clear();
+    return results;
+  }
+
+  async discard(): Promise<void> {
+    await tick();
+    this.#commands = undefined;
+    this.#watched.clear();
+  }
+
+  async unwatch(): Promise<this> {
+    await tick();
+    this.#watched.clear();
+    return this;
+  }
+
+  #queue(command: (stub: RedisStub) => unknown): void {
+    if (!this.#commands) throw new Error('Transaction commands must follow MULTI');
+    this.#commands.push(command);
+  }
+}
+
+/**
+ * Creates an empty in-memory Redis, typed as the Devvit client the services take (for tests)
+ */
+export function createRedisStub(): RedisClient {
+  return new RedisStub() as unknown as RedisClient;
+}
+
+const tick = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+// Whether a score passes a ZRANGE bound: '-inf', '+inf', '(exclusive' or inclusive numbers
+function aboveBound(score: number, bound: number | string, side: 'min' | 'max'): boolean {
+  const text = String(bound);
+  if (text === '-inf') return side === 'min';
+  if (text === '+inf') return side === 'max';
+  const exclusive = text.startsWith('(');
+  const value = Number(exclusive ? text.slice(1) : text) * (side === 'max' ? -1 : 1);
+  return exclusive ? score > value : score >= value;
+}
@@ -0,0 +1,100 @@
+import type { SettingsClient } from '@devvit/web/server';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createApp } from '../../../backend/src/app.js';
+import type { ImageFetcher } from '../../../backend/src/fetcher.js';
+import { renderCaption, renderCaptions } from '../../../backend/src/renderer.js';
+import { RequestVerifier } from '../../../backend/src/signing.js';
+import { RenderServices } from './render.services';
+
+// node-canvas and fabric aren't needed to check the requests reach the backend, so rendering is stubbed
+vi.mock('../../../backend/src/renderer.js', () => ({
+  renderCaption: vi.fn(),
+  renderCaptions: vi.fn(),
+}));
+
+const RENDERED = {
+  data: Buffer.from('rendered'),
+  contentType: 'image/jpeg' as const,
+  width: 730,
+  height: 430,
+  renderMs: 12,
+};
+
+const settings = {
+  get: async (key: string) => (key === 'SIGNING_KEY' ? 'test:test-secret' : undefined),
+} as unknown as SettingsClient;
+
+let server: Server;
+
+// Runs the render backend in-process, requests to its public origin being sent to it instead
+beforeAll(async () => {
+  const app = createApp({
+    verifier: new RequestVerifier({
+      keys: new Map([['test', 'test-secret']]),
+      maxAgeMs: 60_000,
+      maxNonces: 1000,
+    }),
+    render: {
+      maxOutputSize: 2048,
+      gifMaxFrames: 150,
+      gifMaxOutputSize: 640,
+      gifMaxOutputBytes: 3_145_728,
+    },
+    batchMaxCaptions: 10,
+    fetcher: {
+      fetchImage: async () => ({
+        data: new Uint8Array([1, 2, 3]),
+        contentType: 'image/png',
+        width: 730,
+        height: 430,
+      }),
+    } as unknown as ImageFetcher,
+  });
+
+  server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  const fetch = globalThis.fetch;
+  vi.stubGlobal('fetch', (url: string, init: RequestInit) => {
+    const { pathname, search } = new URL(url);
+    return fetch(`http://127.0.0.1:${port}${pathname}${search}`, init);
+  });
+
+  vi.mocked(renderCaption).mockResolvedValue(RENDERED);
+  vi.mocked(renderCaptions).mockImplementation(async (_source, captions) =>
+    captions.map(() => ({ status: 'fulfilled' as const, value: RENDERED }))
+  );
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('RenderServices', () => {
+  it('renders a caption through the backend, which accepts its signature', async () => {
+    const response = await RenderServices.render(settings, {
+      imageUrl: 'https://i.redd.it/meme.png',
+      caption: { topCaption: 'Top text' },
+    });
+
+    expect(response).toMatchObject({ success: true, contentType: 'image/jpeg' });
+    expect(renderCaption).toHaveBeenCalledTimes(1);
+  });
+
+  it('renders a batch through the backend, which accepts its signature', async () => {
+    const response = await RenderServices.renderBatch(settings, {
+      imageUrl: 'https://i.redd.it/meme.png',
+      captions: [{ topCaption: 'First' }, { bottomCaption: 'Second' }],
+    });
+
+    expect(response.results).toEqual([
+      expect.objectContaining({ success: true }),
+      expect.objectContaining({ success: true }),
+    ]);
+  });
+});
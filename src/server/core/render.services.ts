@@ -0,0 +1,91 @@
+import type { RedditClient, SettingsClient } from '@devvit/web/server';
+import {
+  BatchRenderRequest,
+  BatchRenderResponse,
+  OutputSpec,
+  RenderErrorResponse,
+  RenderRequest,
+  RenderResponse,
+} from '../../shared/types/render.type';
+import { parseSigningKey, signRenderRequest } from './render.signing';
+import { SettingsServices } from './settings.services';
+
+// Backend rendering captions over their contest image
+const RENDER_URL = 'https://snapcap.belfodil.me/generateCaption';
+const BATCH_RENDER_URL = 'https://snapcap.belfodil.me/generateCaptions';
+// Output of rendered memes, which Reddit re-encodes on upload anyway
+const RENDER_OUTPUT: OutputSpec = { format: 'jpeg', quality: 90, watermark: false };
+
+export class RenderServices {
+  /**
+   * Gets the output memes are posted with, with the subreddit's credit if it has one
+   */
+  static async getOutput(clients: {
+    reddit: RedditClient;
+    settings: SettingsClient;
+  }): Promise<OutputSpec> {
+    const watermark = await SettingsServices.getWatermark(clients.settings);
+    if (!watermark) return RENDER_OUTPUT;
+
+    const subreddit = await clients.reddit.getCurrentSubreddit();
+    return { ...RENDER_OUTPUT, watermark: { ...watermark, subreddit: subreddit.name } };
+  }
+
+  /**
+   * Renders a caption over its image
+   */
+  static async render(settings: SettingsClient, request: RenderRequest): Promise<RenderResponse> {
+    const response = await this.requestRender(settings, RENDER_URL, request);
+    return (await response.json()) as RenderResponse;
+  }
+
+  /**
+   * Renders captions over the same image, each succeeding or failing on its own
+   */
+  static async renderBatch(
+    settings: SettingsClient,
+    request: BatchRenderRequest
+  ): Promise<BatchRenderResponse> {
+    const response = await this.requestRender(settings, BATCH_RENDER_URL, request);
+    return (await response.json()) as BatchRenderResponse;
+  }
+
+  /**
+   * Sends a signed render request to the backend, asking for JSON
+   */
+  private static async requestRender(
+    settings: SettingsClient,
+    url: string,
+    body: RenderRequest | BatchRenderRequest
+  ): Promise<Response> {
+    const signingKey = parseSigningKey((await settings.get<string>('SIGNING_KEY')) ?? '');
+    if (!signingKey) {
+      throw new Error('SIGNING_KEY not found in settings, or not written keyId:secret');
+    }
+
+    // Signed over the exact bytes sent
+    const payload = JSON.stringify(body);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...signRenderRequest(signingKey, 'POST', url, payload),
+      },
+      body: payload,
+    });
+
+    if (!response.ok) {
+      // The backend answers errors with a JSON envelope, its request ID finding them in its logs
+      const error = (await response.json().catch(() => null)) as RenderErrorResponse | null;
+      const fields = error?.fields?.map((issue) => issue.message).join(', ');
+      throw new Error(
+        error
+          ? `Render failed: ${response.status} ${error.code} ${error.message}${fields ? ` (${fields})` : ''} [request ${error.requestId}]`
+          : `Render failed: ${response.status} ${response.statusText}`
+      );
+    }
+    return response;
+  }
+}
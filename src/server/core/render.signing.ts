@@ -0,0 +1,49 @@
+import { createHash, createHmac, randomUUID } from 'node:crypto';
+import { SIGNATURE_HEADERS, getSignaturePayload } from '../../shared/signing/request.signing';
+
+// Key the render backend knows the app by, set as "keyId:secret" in the global settings
+export interface SigningKey {
+  id: string;
+  secret: string;
+}
+
+/**
+ * Parses the signing key setting, written "keyId:secret"
+ */
+export function parseSigningKey(setting: string): SigningKey | null {
+  const separator = setting.indexOf(':');
+  if (separator <= 0) return null;
+
+  const id = setting.slice(0, separator).trim();
+  const secret = setting.slice(separator + 1).trim();
+  return id && secret ? { id, secret } : null;
+}
+
+/**
+ * Gets the headers signing a request to the render backend, valid for a few minutes and only once
+ */
+export function signRenderRequest(
+  key: SigningKey,
+  method: string,
+  url: string,
+  body: string
+): Record<string, string> {
+  const { pathname, search } = new URL(url);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const nonce = randomUUID();
+
+  const payload = getSignaturePayload({
+    method,
+    path: `${pathname}${search}`,
+    timestamp,
+    nonce,
+    bodyHash: createHash('sha256').update(body).digest('hex'),
+  });
+
+  return {
+    [SIGNATURE_HEADERS.keyId]: key.id,
+    [SIGNATURE_HEADERS.timestamp]: String(timestamp),
+    [SIGNATURE_HEADERS.nonce]: nonce,
+    [SIGNATURE_HEADERS.signature]: createHmac('sha256', key.secret).update(payload).digest('hex'),
+  };
+}
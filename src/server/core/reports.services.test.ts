@@ -0,0 +1,86 @@
+import { RedisClient } from '@devvit/redis';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Caption } from '../../shared/types/caption.type';
+import { CaptionsServices } from './captions.services';
+import { ModerationServices } from './moderation.services';
+import { PostsServices } from './posts.services';
+import { createRedisStub } from './redis.stub';
+import { ReportsServices } from './reports.services';
+
+const POST_ID = 't3_post';
+
+let redis: RedisClient;
+let caption: Caption;
+
+beforeEach(async () => {
+  redis = createRedisStub();
+  await PostsServices.createPost(redis, {
+    id: POST_ID,
+    imageUrl: 'https://i.redd.it/meme.png',
+    deletesAt: Date.now() + 24 * 60 * 60 * 1000,
+    winnersCount: 3,
+    minUpvotes: 1,
+    status: 'open',
+    resultsMode: 'separate',
+    fitMode: 'fit',
+  });
+  caption = await CaptionsServices.createCaption(
+    redis,
+    POST_ID,
+    'alice',
+    { topCaption: 'Reported caption' },
+    { maxCaptionsPerUser: 1 },
+    {
+      blockedWords: [],
+      maxLength: 200,
+      maxCapitalsPercent: 0,
+      blockLinks: false,
+      bannedDomains: [],
+    }
+  );
+});
+
+const report = (username: string, hideThreshold: number) =>
+  ReportsServices.reportCaption(redis, POST_ID, caption.id!, username, 'spam', { hideThreshold });
+
+const getHides = async () =>
+  (await ModerationServices.getModLog(redis, POST_ID)).filter(({ action }) => action === 'hide');
+
+describe('reportCaption', () => {
+  it('hides a caption whose reports passed a threshold lowered since', async () => {
+    await report('bob', 3);
+    await report('carol', 3);
+
+    const { reportCount, hidden } = await report('dave', 1);
+
+    expect({ reportCount, hidden }).toEqual({ reportCount: 3, hidden: true });
+    expect(await CaptionsServices.getCaption(redis, POST_ID, caption.id!)).toMatchObject({
+      removed: true,
+    });
+  });
+
+  it('hides a caption only once, even after a moderator restores it', async () => {
+    await Promise.all(['bob', 'carol', 'dave'].map((username) => report(username, 2)));
+    await ModerationServices.restoreCaption(redis, POST_ID, caption.id!, 'mod');
+
+    const { hidden } = await report('erin', 2);
+
+    expect(hidden).toBe(false);
+    expect(await getHides()).toHaveLength(1);
+    expect(await CaptionsServices.getCaption(redis, POST_ID, caption.id!)).toMatchObject({
+      removed: undefined,
+    });
+  });
+});
+
+describe('deleteReports', () => {
+  it('drops the reports and review entry of a caption its author deleted', async () => {
+    await report('bob', 1);
+
+    await CaptionsServices.deleteCaption(redis, POST_ID, caption.id!, 'alice');
+
+    expect(await ReportsServices.getReports(redis, POST_ID, caption.id!)).toEqual([]);
+    expect(await ReportsServices.getPendingReview(redis)).toEqual([]);
+    expect(await redis.zRange(`post:${POST_ID}:reports`, 0, -1)).toEqual([]);
+  });
+});
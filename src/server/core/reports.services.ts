@@ -0,0 +1,234 @@
+import { RedisClient } from '@devvit/redis';
+import { CaptionWithUpvotes } from '../../shared/types/caption.type';
+import { CaptionReport, ReportedCaption } from '../../shared/types/moderation.type';
+import { CaptionsServices } from './captions.services';
+import { CaptionError } from './errors';
+import { ModerationServices } from './moderation.services';
+
+// Redis key builders
+const keys = {
+  reports: (postId: string, captionId: string) => `post:${postId}:captions:${captionId}:reports`,
+  reportCounts: (postId: string) => `post:${postId}:reports`,
+  // When reports hid each caption, by caption ID
+  hiddenByReports: (postId: string) => `post:${postId}:reports:hidden`,
+  pendingReview: () => 'reports:pending',
+} as const;
+
+// Pending review members are `${postId}:${captionId}`
+const toPendingMember = (postId: string, captionId: string) => `${postId}:${captionId}`;
+
+export class ReportsServices {
+  /**
+   * Stores a user's report of a caption, hiding the caption when its reports reach the threshold (for server calls)
+   *
+   * Each user can report a caption once. Reports hide a caption once its count reaches the
+   * threshold and never again, so a caption a moderator restored isn't hidden by the reports that
+   * follow.
+   */
+  static async reportCaption(
+    redis: RedisClient,
+    postId: string,
+    captionId: string,
+    username: string,
+    reason: string,
+    options: { hideThreshold: number }
+  ): Promise<{ reportCount: number; hidden: boolean }> {
+    try {
+      const caption = await CaptionsServices.getCaption(redis, postId, captionId);
+      if (!caption) {
+        throw new CaptionError('CAPTION_NOT_FOUND', `Caption ${captionId} does not exist`, {
+          status: 404,
+        });
+      }
+      if (caption.username === username) {
+        throw new CaptionError('OWN_CAPTION', "You can't report your own caption", {
+          status: 403,
+        });
+      }
+
+      // One report per user
+      const report: CaptionReport = {
+        username,
+        reason,
+        createdAt: Date.now(),
+      };
+      const added = await redis.hSetNX(
+        keys.reports(postId, captionId),
+        username,
+        JSON.stringify(report)
+      );
+      if (!added) {
+        throw new CaptionError(
+          'ALREADY_REPORTED',
+          `u/${username} already reported caption ${captionId}`,
+          {
+            status: 409,
+          }
+        );
+      }
+
+      const reportCount = await redis.zIncrBy(keys.reportCounts(postId), captionId, 1);
+
+      // Hide the caption and queue it for moderator review, claiming the hide so concurrent
+      // reports past the threshold don't repeat it
+      const hidden =
+        reportCount >= options.hideThreshold &&
+        !caption.removed &&
+        (await redis.hSetNX(
+          keys.hiddenByReports(postId),
+          captionId,
+          report.createdAt.toString()
+        )) === 1;
+      if (hidden) {
+        await ModerationServices.hideReportedCaption(redis, postId, captionId, reportCount);
+        await redis.zAdd(keys.pendingReview(), {
+          member: toPendingMember(postId, captionId),
+          score: report.createdAt,
+        });
+      }
+
+      return { reportCount, hidden };
+    } catch (error) {
+      console.error(`Error reporting caption ${captionId} for post ${postId}:`, error);
+      if (error instanceof CaptionError) throw error;
+      throw new Error(
+        `Failed to report caption: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Gets the reports of a caption, oldest first (for server calls)
+   */
+  static async getReports(
+    redis: RedisClient,
+    postId: string,
+    captionId: string
+  ): Promise<CaptionReport[]> {
+    try {
+      const reports = await redis.hGetAll(keys.reports(postId, captionId));
+      return Object.values(reports ?? {})
+        .map((report) => JSON.parse(report) as CaptionReport)
+        .sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+      console.error(`Error getting reports of caption ${captionId} for post ${postId}:`, error);
+      throw new Error(
+        `Failed to get reports: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Adds report counts and reports to captions listed for moderators (for server calls)
+   */
+  static async addReports(
+    redis: RedisClient,
+    postId: string,
+    captions: CaptionWithUpvotes[]
+  ): Promise<ReportedCaption[]> {
+    try {
+      const reportedItems = await redis.zRange(keys.reportCounts(postId), 0, -1);
+      const reportCounts = new Map(reportedItems.map((item) => [item.member, item.score]));
+
+      const modCaptions: ReportedCaption[] = [];
+      for (const caption of captions) {
+        const reportCount = (caption.id && reportCounts.get(caption.id)) || 0;
+        const reports =
+          caption.id && reportCount > 0 ? await this.getReports(redis, postId, caption.id) : [];
+        modCaptions.push({ ...caption, reportCount, reports });
+      }
+
+      return modCaptions;
+    } catch (error) {
+      console.error(`Error adding reports to captions for post ${postId}:`, error);
+      throw new Error(
+        `Failed to get reports: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Gets the captions hidden by reports that moderators haven't been notified of (for scheduled jobs)
+   */
+  static async getPendingReview(
+    redis: RedisClient
+  ): Promise<{ postId: string; captionId: string; hiddenAt: number }[]> {
+    try {
+      const items = await redis.zRange(keys.pendingReview(), 0, -1);
+
+      return items.map((item) => {
+        const separator = item.member.lastIndexOf(':');
+        return {
+          postId: item.member.slice(0, separator),
+          captionId: item.member.slice(separator + 1),
+          hiddenAt: item.score,
+        };
+      });
+    } catch (error) {
+      console.error('Error getting captions pending review:', error);
+      throw new Error(
+        `Failed to get captions pending review: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Removes captions from the review queue once moderators were notified (for scheduled jobs)
+   */
+  static async clearPendingReview(
+    redis: RedisClient,
+    captions: { postId: string; captionId: string }[]
+  ): Promise<void> {
+    try {
+      if (captions.length === 0) return;
+      await redis.zRem(
+        keys.pendingReview(),
+        captions.map(({ postId, captionId }) => toPendingMember(postId, captionId))
+      );
+    } catch (error) {
+      console.error('Error clearing captions pending review:', error);
+      throw new Error(
+        `Failed to clear captions pending review: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Deletes the reports of a deleted caption and drops it from the review queue (for server calls)
+   */
+  static async deleteReports(redis: RedisClient, postId: string, captionId: string): Promise<void> {
+    try {
+      await redis.del(keys.reports(postId, captionId));
+      await redis.zRem(keys.reportCounts(postId), [captionId]);
+      await redis.hDel(keys.hiddenByReports(postId), [captionId]);
+      await redis.zRem(keys.pendingReview(), [toPendingMember(postId, captionId)]);
+    } catch (error) {
+      console.error(`Error deleting reports of caption ${captionId} for post ${postId}:`, error);
+      throw new Error(
+        `Failed to delete reports: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Purges every report of a post (for Devvit component calls)
+   */
+  static async purgeReports(redis: RedisClient, postId: string): Promise<void> {
+    try {
+      const reportedItems = await redis.zRange(keys.reportCounts(postId), 0, -1);
+
+      for (const item of reportedItems) {
+        await redis.del(keys.reports(postId, item.member));
+        await redis.zRem(keys.pendingReview(), [toPendingMember(postId, item.member)]);
+      }
+
+      await redis.del(keys.reportCounts(postId));
+      await redis.del(keys.hiddenByReports(postId));
+    } catch (error) {
+      console.error(`Error purging reports for post ${postId}:`, error);
+      throw new Error(
+        `Failed to purge reports: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
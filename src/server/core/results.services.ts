@@ -0,0 +1,56 @@
+import { RedisClient } from '@devvit/redis';
+import { ContestResults } from '../../shared/types/results.type';
+
+// Redis key builders
+const keys = {
+  results: (postId: string) => `post:${postId}:results`,
+} as const;
+
+export class ResultsServices {
+  /**
+   * Saves the results shown by a post (for scheduled jobs)
+   */
+  static async saveResults(
+    redis: RedisClient,
+    postId: string,
+    results: ContestResults
+  ): Promise<void> {
+    try {
+      await redis.set(keys.results(postId), JSON.stringify(results));
+    } catch (error) {
+      console.error(`Error saving results for post ${postId}:`, error);
+      throw new Error(
+        `Failed to save results: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Gets the results shown by a post, or null when it shows none (for server calls)
+   */
+  static async getResults(redis: RedisClient, postId: string): Promise<ContestResults | null> {
+    try {
+      const data = await redis.get(keys.results(postId));
+      return data ? (JSON.parse(data) as ContestResults) : null;
+    } catch (error) {
+      console.error(`Error getting results for post ${postId}:`, error);
+      throw new Error(
+        `Failed to get results: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Purges the results shown by a post (for Devvit component calls)
+   */
+  static async purgeResults(redis: RedisClient, postId: string): Promise<void> {
+    try {
+      await redis.del(keys.results(postId));
+    } catch (error) {
+      console.error(`Error purging results for post ${postId}:`, error);
+      throw new Error(
+        `Failed to purge results: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
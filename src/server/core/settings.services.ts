@@ -0,0 +1,164 @@
+import type { SettingsClient } from '@devvit/web/server';
+import { CaptionRules, parseBannedDomains, parseBlockedWords } from './captions.rules';
+import { CAPTION_TEXT_MAX_LENGTH } from '../../shared/layout/caption.layout';
+import { DEFAULT_RESULTS_MODE, RESULTS_MODES } from './posts.services';
+import { ResultsMode } from '../../shared/types/post.type';
+import { WATERMARK_PLACEMENTS, WatermarkSpec } from '../../shared/types/render.type';
+
+const DEFAULT_MAX_CAPTIONS_PER_USER = 1;
+const DEFAULT_RESET_VOTES_ON_EDIT = true;
+const DEFAULT_REPORT_HIDE_THRESHOLD = 3;
+const DEFAULT_MAX_CAPITALS_PERCENT = 0;
+const DEFAULT_BLOCK_LINKS = false;
+const DEFAULT_WATERMARK_TEMPLATE = 'u/{author} • r/{subreddit} • SnapCapit';
+const DEFAULT_WATERMARK_OPACITY_PERCENT = 70;
+
+export class SettingsServices {
+  /**
+   * Gets how many captions a single user may submit to one post
+   */
+  static async getMaxCaptionsPerUser(settings: SettingsClient): Promise<number> {
+    return this.getPositiveInteger(
+      settings,
+      'MAX_CAPTIONS_PER_USER',
+      DEFAULT_MAX_CAPTIONS_PER_USER
+    );
+  }
+
+  /**
+   * Gets whether editing a caption drops the votes it collected so far
+   */
+  static async getResetVotesOnEdit(settings: SettingsClient): Promise<boolean> {
+    return this.getBoolean(settings, 'RESET_VOTES_ON_EDIT', DEFAULT_RESET_VOTES_ON_EDIT);
+  }
+
+  /**
+   * Gets how many user reports hide a caption until a moderator reviews it
+   */
+  static async getReportHideThreshold(settings: SettingsClient): Promise<number> {
+    return this.getPositiveInteger(
+      settings,
+      'REPORT_HIDE_THRESHOLD',
+      DEFAULT_REPORT_HIDE_THRESHOLD
+    );
+  }
+
+  /**
+   * Gets how the subreddit's contests post their winners unless a contest picks otherwise
+   */
+  static async getResultsMode(settings: SettingsClient): Promise<ResultsMode> {
+    const mode = await this.getSelect(settings, 'RESULTS_MODE');
+    return RESULTS_MODES.find((resultsMode) => resultsMode === mode) ?? DEFAULT_RESULTS_MODE;
+  }
+
+  /**
+   * Gets the credit drawn on posted memes, or null when the subreddit has none
+   *
+   * The author and subreddit names are left for the caller, which knows the winner.
+   */
+  static async getWatermark(settings: SettingsClient): Promise<WatermarkSpec | null> {
+    const [value, template, opacityPercent] = await Promise.all([
+      this.getSelect(settings, 'WATERMARK'),
+      this.getString(settings, 'WATERMARK_TEMPLATE'),
+      this.getPositiveInteger(settings, 'WATERMARK_OPACITY', DEFAULT_WATERMARK_OPACITY_PERCENT),
+    ]);
+
+    const placement = WATERMARK_PLACEMENTS.find(
+      (watermarkPlacement) => watermarkPlacement === value
+    );
+    if (!placement) return null;
+
+    return {
+      placement,
+      template: template.trim() || DEFAULT_WATERMARK_TEMPLATE,
+      opacity: Math.min(opacityPercent, 100) / 100,
+    };
+  }
+
+  /**
+   * Gets the subreddit's rules for caption text
+   *
+   * The subreddit can lower the caption length limit but never raise it above the server's.
+   */
+  static async getCaptionRules(settings: SettingsClient): Promise<CaptionRules> {
+    const [blockedWords, maxLength, maxCapitalsPercent, blockLinks, bannedDomains] =
+      await Promise.all([
+        this.getString(settings, 'BLOCKED_WORDS'),
+        this.getPositiveInteger(settings, 'CAPTION_MAX_LENGTH', CAPTION_TEXT_MAX_LENGTH),
+        this.getPositiveInteger(settings, 'MAX_CAPITALS_PERCENT', DEFAULT_MAX_CAPITALS_PERCENT),
+        this.getBoolean(settings, 'BLOCK_LINKS', DEFAULT_BLOCK_LINKS),
+        this.getString(settings, 'BANNED_DOMAINS'),
+      ]);
+
+    return {
+      blockedWords: parseBlockedWords(blockedWords),
+      maxLength: Math.min(maxLength, CAPTION_TEXT_MAX_LENGTH),
+      maxCapitalsPercent,
+      blockLinks,
+      bannedDomains: parseBannedDomains(bannedDomains),
+    };
+  }
+
+  /**
+   * Reads a text setting, falling back to an empty string when it is unset
+   */
+  private static async getString(settings: SettingsClient, name: string): Promise<string> {
+    try {
+      const value = await settings.get<string>(name);
+      return typeof value === 'string' ? value : '';
+    } catch (error) {
+      console.error(`Error getting setting ${name}:`, error);
+      return '';
+    }
+  }
+
+  /**
+   * Reads a select setting, which comes back as a single value array
+   */
+  private static async getSelect(
+    settings: SettingsClient,
+    name: string
+  ): Promise<string | undefined> {
+    try {
+      const value = await settings.get<string[] | string>(name);
+      return Array.isArray(value) ? value[0] : value;
+    } catch (error) {
+      console.error(`Error getting setting ${name}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads a boolean setting, falling back when it is unset
+   */
+  private static async getBoolean(
+    settings: SettingsClient,
+    name: string,
+    fallback: boolean
+  ): Promise<boolean> {
+    try {
+      const value = await settings.get<boolean>(name);
+      return typeof value === 'boolean' ? value : fallback;
+    } catch (error) {
+      console.error(`Error getting setting ${name}:`, error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Reads a numeric setting, falling back when it is unset or not a positive integer
+   */
+  private static async getPositiveInteger(
+    settings: SettingsClient,
+    name: string,
+    fallback: number
+  ): Promise<number> {
+    try {
+      const value = await settings.get<number>(name);
+      return value !== undefined && Number.isInteger(value) && value > 0 ? value : fallback;
+    } catch (error) {
+      console.error(`Error getting setting ${name}:`, error);
+      return fallback;
+    }
+  }
+}
@@ -4,14 +4,37 @@ import {
   createServer,
   context,
   getServerPort,
+  realtime,
   scheduler,
   settings,
 } from '@devvit/web/server';
 import { reddit } from '@devvit/reddit';
 import { media } from '@devvit/media';
 import { UiResponse } from '@devvit/web/shared';
-import { PostsServices } from './core/posts.services';
+import {
+  DEFAULT_MIN_UPVOTES,
+  DEFAULT_WINNERS_COUNT,
+  MAX_WINNERS_COUNT,
+  PostsServices,
+  RESULTS_MODES,
+} from './core/posts.services';
 import { CaptionsServices } from './core/captions.services';
+import { SettingsServices } from './core/settings.services';
+import { ModerationServices } from './core/moderation.services';
+import { ReportsServices } from './core/reports.services';
+import { PublishServices } from './core/publish.services';
+import { PreviewsServices } from './core/previews.services';
+import { ResultsServices } from './core/results.services';
+import { LiveServices } from './core/live.services';
+import { ImpressionsServices } from './core/impressions.services';
+import {
+  parseCaptionInput,
+  parseCaptionListQuery,
+  parseReportReason,
+  parseUpvote,
+} from './core/captions.validation';
+import { sendError } from './core/errors';
+import { DEFAULT_FIT_MODE, FIT_MODES } from '../shared/layout/caption.layout';
 import { Response } from 'express';
 
 const app = express();
@@ -35,13 +58,14 @@ router.post('/internal/menu/create-post/:created_by', async (req, res: Response<
       name: 'createPostForm',
       form: {
         title: 'Create Caption Contest',
-        description: 'Upload the image you want subscribers to caption',
+        description: 'Upload the image or animated GIF you want subscribers to caption',
         cancelLabel: "Cancel",
         acceptLabel: "Upload",
         fields: [
           {
             name: 'image',
             label: 'Upload Image',
+            helpText: 'Animated GIFs keep playing with the captions on them',
             type: 'image',
             required: true,
           },
@@ -53,6 +77,47 @@ router.post('/internal/menu/create-post/:created_by', async (req, res: Response<
             required: true,
             defaultValue: 24,
           },
+          {
+            name: 'winners',
+            label: 'Winners',
+            helpText: `How many of the top captions get posted when the timer ends (1 to ${MAX_WINNERS_COUNT}).`,
+            type: 'number',
+            required: true,
+            defaultValue: DEFAULT_WINNERS_COUNT,
+          },
+          {
+            name: 'minUpvotes',
+            label: 'Minimum Upvotes',
+            helpText: "Captions with fewer upvotes can't win. Every caption starts with its author's upvote.",
+            type: 'number',
+            required: true,
+            defaultValue: DEFAULT_MIN_UPVOTES,
+          },
+          {
+            name: 'resultsMode',
+            label: 'Results',
+            helpText: 'How the winners get posted when the timer ends.',
+            type: 'select',
+            options: [
+              { label: 'Subreddit default', value: 'default' },
+              { label: 'One gallery post with every winner', value: 'gallery' },
+              { label: 'One interactive results post', value: 'results-post' },
+              { label: 'One image post per winner', value: 'separate' },
+            ],
+            defaultValue: ['default'],
+          },
+          {
+            name: 'fitMode',
+            label: 'Image Fit',
+            helpText: 'How the image fills the meme. Fit keeps its own shape, letterbox and cover use a wide frame.',
+            type: 'select',
+            options: [
+              { label: 'Fit the image shape', value: 'fit' },
+              { label: 'Letterbox in a wide frame', value: 'letterbox' },
+              { label: 'Crop to a wide frame', value: 'cover' },
+            ],
+            defaultValue: [DEFAULT_FIT_MODE],
+          },
           {
             name: 'created_by',
             label: 'Created By',
@@ -69,7 +134,22 @@ router.post('/internal/menu/create-post/:created_by', async (req, res: Response<
 // Form: Create Post Form
 router.post('/internal/form/create-post', async (req, res: Response<UiResponse>) => {
   try {
-    const { image, hours, created_by } = req.body;
+    const { image, hours, winners, minUpvotes, resultsMode, fitMode, created_by } = req.body;
+
+    // Clamp contest options to sane values
+    const winnersCount = Math.min(
+      Math.max(Math.floor(Number(winners)) || DEFAULT_WINNERS_COUNT, 1),
+      MAX_WINNERS_COUNT
+    );
+    const minUpvotesCount = Math.max(Math.floor(Number(minUpvotes)) || DEFAULT_MIN_UPVOTES, 1);
+
+    // Select fields come back as a single value array, 'default' deferring to the subreddit setting
+    const selectedResultsMode = Array.isArray(resultsMode) ? resultsMode[0] : resultsMode;
+    const contestResultsMode =
+      RESULTS_MODES.find((mode) => mode === selectedResultsMode) ??
+      (await SettingsServices.getResultsMode(settings));
+    const selectedFitMode = Array.isArray(fitMode) ? fitMode[0] : fitMode;
+    const contestFitMode = FIT_MODES.find((mode) => mode === selectedFitMode) ?? DEFAULT_FIT_MODE;
 
     let jobId: string | undefined;
 
@@ -122,6 +202,11 @@ router.post('/internal/form/create-post', async (req, res: Response<UiResponse>)
         imageUrl: image,
         jobId: jobId,
         deletesAt: Date.now() + hoursInMs,
+        winnersCount,
+        minUpvotes: minUpvotesCount,
+        resultsMode: contestResultsMode,
+        fitMode: contestFitMode,
+        status: 'open',
       });
     } catch (error) {
       console.error('Error saving post to Redis:', error);
@@ -145,7 +230,7 @@ router.post('/internal/form/create-post', async (req, res: Response<UiResponse>)
   }
 });
 
-// Job: Post Best Captions
+// Job: Post Best Captions (also runs the retries scheduled by failed runs)
 router.post('/internal/job/post-best-captions', async (req, _res) => {
   try {
     const { imageUrl, postId } = req.body.data;
@@ -155,119 +240,76 @@ router.post('/internal/job/post-best-captions', async (req, _res) => {
       return;
     }
 
-    // Get post and best captions using Context redis
-    let post;
-    try {
-      post = await PostsServices.getPost(redis, postId);
-      if (!post) {
-        console.error(`Post ${postId} not found`);
-        return;
-      }
-    } catch (error) {
-      console.error(`Error getting post ${postId}:`, error);
-      return;
-    }
-
-    let bestCaptions;
-    try {
-      bestCaptions = await CaptionsServices.getTopCaptions(redis, postId);
-    } catch (error) {
-      console.error(`Error getting top captions for post ${postId}:`, error);
-      return;
-    }
-
-    // Get API key from settings
-    let apiKey;
-    try {
-      apiKey = await settings.get('API_KEY');
-      if (!apiKey) {
-        console.error('API_KEY not found in settings');
-        return;
-      }
-    } catch (error) {
-      console.error('Error getting API key from settings:', error);
-      return;
-    }
+    await PublishServices.publishResults(
+      { redis, reddit, media, scheduler, settings },
+      postId,
+      imageUrl
+    );
+  } catch (error) {
+    console.error('Error in postBestCaptions job:', error);
+  }
+});
 
-    // Remove original post
-    try {
-      const originalPost = await reddit.getPostById(postId);
-      if (originalPost) await originalPost.remove();
-    } catch (error) {
-      console.error(`Error removing original post ${postId}:`, error);
-    }
+// Job: Notify moderators of the captions hidden by user reports
+router.post('/internal/job/surface-reported-captions', async (_req, _res) => {
+  try {
+    const pendingCaptions = await ReportsServices.getPendingReview(redis);
+    if (pendingCaptions.length === 0) return;
 
-    // Process each caption
-    for (const caption of bestCaptions) {
+    // Keep the captions that are still hidden, with their reports
+    const lines: string[] = [];
+    for (const { postId, captionId } of pendingCaptions) {
       try {
-        // Build caption data (excluding username, id, createdAt)
-        const captionData = {
-          imageUrl,
-          caption: {
-            topCaption: caption.topCaption,
-            bottomCaption: caption.bottomCaption,
-            topExtendedCaption: caption.topExtendedCaption,
-            bottomExtendedCaption: caption.bottomExtendedCaption,
-            topExtensionWhite: caption.topExtensionWhite,
-            bottomExtensionWhite: caption.bottomExtensionWhite,
-          },
-        };
-
-        // Make API call to generate caption image
-        const response = await fetch('https://snapcap.belfodil.me/', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': apiKey as string,
-          },
-          body: JSON.stringify(captionData),
-        });
-
-        if (!response.ok) {
-          console.error(
-            `API call failed for caption ${caption.id}: ${response.status} ${response.statusText}`
-          );
-          continue;
-        }
+        const caption = await CaptionsServices.getCaption(redis, postId, captionId);
+        if (!caption?.removed) continue;
 
-        // Get base64 image data
-        const base64ImageData = await response.text();
+        const reports = await ReportsServices.getReports(redis, postId, captionId);
+        const text = [
+          caption.topExtendedCaption,
+          caption.topCaption,
+          caption.bottomCaption,
+          caption.bottomExtendedCaption,
+          ...(caption.layers ?? []).map((layer) => layer.text),
+        ]
+          .filter(Boolean)
+          .join(' / ');
+        const reasons = reports.map((report) => report.reason).join('; ');
 
-        // Upload image to Reddit
-        const mediaAsset = await media.upload({
-          url: base64ImageData,
-          type: 'image',
-        });
-        // pause to make sure the image is properly uploaded
-        await new Promise((r) => setTimeout(r, 3000));
-
-        // Submit new post with generated caption image
-        const subreddit = await reddit.getCurrentSubreddit();
-        await reddit.submitPost({
-          kind: 'image',
-          title: `Caption created by u/${caption.username}`,
-          subredditName: subreddit.name,
-          imageUrls: [mediaAsset.mediaUrl],
-        });
-
-        console.log(`Successfully posted caption by ${caption.username}`);
+        lines.push(
+          `- "${text}" by u/${caption.username} on https://reddit.com/comments/${postId.replace(/^t3_/, '')} (${reports.length} reports: ${reasons})`
+        );
       } catch (error) {
-        console.error(`Error processing caption ${caption.id}:`, error);
+        console.error(`Error loading reported caption ${captionId} of post ${postId}:`, error);
       }
     }
 
-    // Purge post and captions using Context redis
-    try {
-      await PostsServices.purgePost(redis, postId);
-      await CaptionsServices.purgeCaptionsAndUpvotes(redis, postId);
-      console.log(`Successfully cleaned up data for post ${postId}`);
-    } catch (error) {
-      console.error(`Error cleaning up data for post ${postId}:`, error);
+    if (lines.length > 0) {
+      await reddit.modMail.createModNotification({
+        subject: `${lines.length} caption(s) hidden by user reports`,
+        bodyMarkdown: [
+          'These captions were hidden after reaching the report threshold.',
+          'Open the post and use the Mod panel to restore them or keep them removed.',
+          '',
+          ...lines,
+        ].join('\n'),
+        subredditId: context.subredditId,
+      });
+      console.log(`Notified moderators of ${lines.length} reported caption(s)`);
     }
 
-    console.log(`Successfully processed best captions for post ${postId}`);
+    // Captions restored or purged meanwhile need no review either
+    await ReportsServices.clearPendingReview(redis, pendingCaptions);
   } catch (error) {
-    console.error('Error in postBestCaptions job:', error);
+    console.error('Error in surfaceReportedCaptions job:', error);
+  }
+});
+
+// Job: Send the vote changes held back by the live update throttle, for posts no vote came to since
+router.post('/internal/job/flush-live-votes', async (_req, _res) => {
+  try {
+    await LiveServices.flushHeldVotes({ redis, realtime });
+  } catch (error) {
+    console.error('Error in flushLiveVotes job:', error);
   }
 });
 
@@ -302,6 +344,13 @@ router.post('/internal/trigger/post-delete', async (req, _res) => {
     // Purge captions and upvotes using Context redis
     try {
       await CaptionsServices.purgeCaptionsAndUpvotes(redis, postId);
+      await ModerationServices.purgeModLog(redis, postId);
+      await ReportsServices.purgeReports(redis, postId);
+      await PublishServices.purgeJob({ redis, scheduler }, postId);
+      await ResultsServices.purgeResults(redis, postId);
+      await PreviewsServices.purgePreviews(redis, postId);
+      await LiveServices.purgeLive(redis, postId);
+      await ImpressionsServices.purgeImpressions(redis, postId);
       console.log(`Successfully cleaned up captions for deleted post ${postId}`);
     } catch (error) {
       console.error(`Error cleaning up captions for post ${postId}:`, error);
@@ -328,7 +377,13 @@ router.get('/api/username', async (_req, res): Promise<void> => {
       return;
     }
 
-    res.json({ status: 'success', username: username });
+    const isModerator = await ModerationServices.isModerator(
+      reddit,
+      context.subredditName,
+      username
+    );
+
+    res.json({ status: 'success', username: username, isModerator });
   } catch (error) {
     console.error('Error getting username:', error);
     res.status(500).json({
@@ -340,7 +395,6 @@ router.get('/api/username', async (_req, res): Promise<void> => {
 
 // Create a new caption
 router.post('/api/captions/create', async (req, res): Promise<void> => {
-  const caption = req.body;
   try {
     const { postId } = context;
 
@@ -352,7 +406,31 @@ router.post('/api/captions/create', async (req, res): Promise<void> => {
       return;
     }
 
-    const createdCaption = await CaptionsServices.createCaption(redis, postId, caption);
+    // The author always comes from the session, never from the request body
+    const username = await reddit.getCurrentUsername();
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const input = parseCaptionInput(req.body);
+    const maxCaptionsPerUser = await SettingsServices.getMaxCaptionsPerUser(settings);
+    const rules = await SettingsServices.getCaptionRules(settings);
+
+    const createdCaption = await CaptionsServices.createCaption(
+      redis,
+      postId,
+      username,
+      input,
+      { maxCaptionsPerUser },
+      rules
+    );
+    await LiveServices.publishCaptionCreated(realtime, postId, createdCaption);
 
     res.json({
       status: 'success',
@@ -360,14 +438,101 @@ router.post('/api/captions/create', async (req, res): Promise<void> => {
     });
   } catch (error) {
     console.error('Error creating caption:', error);
-    res.status(500).json({
-      status: 'error',
-      message: error instanceof Error ? error.message : 'Failed to create caption',
+    sendError(res, error, 'Failed to create caption');
+  }
+});
+
+// Edit own caption
+router.put('/api/captions/:captionId', async (req, res): Promise<void> => {
+  try {
+    const { captionId } = req.params;
+    const { postId } = context;
+
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Post ID is required',
+      });
+      return;
+    }
+
+    const username = await reddit.getCurrentUsername();
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const input = parseCaptionInput(req.body);
+    const resetVotes = await SettingsServices.getResetVotesOnEdit(settings);
+    const rules = await SettingsServices.getCaptionRules(settings);
+
+    const caption = await CaptionsServices.updateCaption(
+      redis,
+      postId,
+      captionId,
+      username,
+      input,
+      { resetVotes },
+      rules
+    );
+    await PreviewsServices.invalidatePreview(redis, postId, captionId);
+    await LiveServices.publishCaptionUpdated({ redis, realtime }, postId, caption, {
+      votesReset: resetVotes,
+    });
+
+    res.json({
+      status: 'success',
+      caption,
     });
+  } catch (error) {
+    console.error('Error updating caption:', error);
+    sendError(res, error, 'Failed to update caption');
   }
 });
 
-// Upvote a caption
+// Delete own caption
+router.delete('/api/captions/:captionId', async (req, res): Promise<void> => {
+  try {
+    const { captionId } = req.params;
+    const { postId } = context;
+
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Post ID is required',
+      });
+      return;
+    }
+
+    const username = await reddit.getCurrentUsername();
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    await CaptionsServices.deleteCaption(redis, postId, captionId, username);
+    await PreviewsServices.invalidatePreview(redis, postId, captionId);
+    await ImpressionsServices.deleteImpressions(redis, postId, captionId);
+    await LiveServices.publishCaptionDeleted(realtime, postId, captionId);
+
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error('Error deleting caption:', error);
+    sendError(res, error, 'Failed to delete caption');
+  }
+});
+
+// Upvote a caption, or take the upvote back
 router.post('/api/captions/:captionId/upvote', async (req, res): Promise<void> => {
   try {
     const { captionId } = req.params;
@@ -398,23 +563,123 @@ router.post('/api/captions/:captionId/upvote', async (req, res): Promise<void> =
       return;
     }
 
-    const userUpvoted = await CaptionsServices.upvoteCaption(redis, postId, captionId, username);
+    const upvoted = parseUpvote(req.body);
+    const { userUpvoted, upvotes, changed } = await CaptionsServices.setUpvote(
+      redis,
+      postId,
+      captionId,
+      username,
+      upvoted
+    );
+    if (changed) {
+      await LiveServices.recordVote(
+        { redis, realtime },
+        postId,
+        captionId,
+        userUpvoted ? 1 : -1
+      );
+    }
 
     res.json({
       status: 'success',
       userUpvoted,
+      upvotes,
     });
   } catch (error) {
     console.error('Error upvoting caption:', error);
-    res.status(500).json({
-      status: 'error',
-      message: error instanceof Error ? error.message : 'Failed to upvote caption',
+    sendError(res, error, 'Failed to upvote caption');
+  }
+});
+
+// Report a caption
+router.post('/api/captions/:captionId/report', async (req, res): Promise<void> => {
+  try {
+    const { captionId } = req.params;
+    const { postId } = context;
+    const username = await reddit.getCurrentUsername();
+
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Post ID is required',
+      });
+      return;
+    }
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const reason = parseReportReason(req.body);
+    const hideThreshold = await SettingsServices.getReportHideThreshold(settings);
+    const { hidden } = await ReportsServices.reportCaption(
+      redis,
+      postId,
+      captionId,
+      username,
+      reason,
+      { hideThreshold }
+    );
+
+    res.json({
+      status: 'success',
+      hidden,
     });
+  } catch (error) {
+    console.error('Error reporting caption:', error);
+    sendError(res, error, 'Failed to report caption');
+  }
+});
+
+// Count a caption as seen by the user, for fair ordering and the moderators' view counts
+router.post('/api/captions/:captionId/view', async (req, res): Promise<void> => {
+  try {
+    const { captionId } = req.params;
+    const { postId } = context;
+    const username = await reddit.getCurrentUsername();
+
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Post ID is required',
+      });
+      return;
+    }
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const caption = await CaptionsServices.getCaption(redis, postId, captionId);
+    if (!caption) {
+      res.status(404).json({
+        status: 'error',
+        code: 'CAPTION_NOT_FOUND',
+        message: 'Caption not found',
+      });
+      return;
+    }
+    await ImpressionsServices.recordImpression(redis, postId, caption, username);
+
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error('Error recording caption view:', error);
+    sendError(res, error, 'Failed to record caption view');
   }
 });
 
-// Get all captions with upvote information
-router.get('/api/captions', async (_req, res): Promise<void> => {
+// List a page of captions with upvote information
+router.get('/api/captions', async (req, res): Promise<void> => {
   try {
     const { postId } = context;
     const username = await reddit.getCurrentUsername();
@@ -435,18 +700,81 @@ router.get('/api/captions', async (_req, res): Promise<void> => {
       return;
     }
 
-    const captions = await CaptionsServices.getCaptionsWithUpvotes(redis, postId, username);
+    const query = parseCaptionListQuery(req.query);
+
+    // Moderators also see removed captions
+    const isModerator = await ModerationServices.isModerator(
+      reddit,
+      context.subredditName,
+      username
+    );
+    const page = await CaptionsServices.listCaptions(redis, postId, username, {
+      ...query,
+      includeRemoved: isModerator,
+    });
+
+    // The user's own captions come first in the carousel, so they're sent with the first page
+    const userCaptions =
+      query.cursor === undefined
+        ? await CaptionsServices.getUserCaptions(redis, postId, username)
+        : undefined;
 
     res.json({
       status: 'success',
-      captions,
+      ...page,
+      userCaptions,
     });
   } catch (error) {
     console.error('Error getting captions:', error);
-    res.status(500).json({
-      status: 'error',
-      message: 'Failed to get captions',
-    });
+    sendError(res, error, 'Failed to get captions');
+  }
+});
+
+// Render a caption exactly as it would be posted when its contest ends
+router.get('/api/captions/:captionId/render', async (req, res): Promise<void> => {
+  try {
+    const { captionId } = req.params;
+    const { postId } = context;
+    const username = await reddit.getCurrentUsername();
+
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Post ID is required',
+      });
+      return;
+    }
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    // Moderators can also preview removed captions
+    const isModerator = await ModerationServices.isModerator(
+      reddit,
+      context.subredditName,
+      username
+    );
+    const preview = await PreviewsServices.getPreview(
+      { redis, reddit, settings },
+      postId,
+      captionId,
+      username,
+      { includeRemoved: isModerator }
+    );
+
+    // Revalidated every time, as an edit changes the render behind the same URL
+    res.set('Cache-Control', 'private, no-cache');
+    res.set('ETag', `"${preview.hash}"`);
+    res.type(preview.contentType).send(Buffer.from(preview.data, 'base64'));
+  } catch (error) {
+    console.error('Error rendering caption preview:', error);
+    sendError(res, error, 'Failed to render caption');
   }
 });
 
@@ -466,6 +794,19 @@ router.get('/api/post', async (_req, res): Promise<void> => {
     const post = await PostsServices.getPost(redis, postId);
 
     if (!post) {
+      // Results posts only hold the results of the contest they were published for
+      const results = await ResultsServices.getResults(redis, postId);
+      if (results) {
+        res.json({
+          status: 'success',
+          view: 'results',
+          imageUrl: results.imageUrl,
+          fitMode: results.fitMode,
+          timestamp: results.finishedAt,
+        });
+        return;
+      }
+
       res.status(404).json({
         status: 'error',
         message: 'Post not found',
@@ -475,8 +816,12 @@ router.get('/api/post', async (_req, res): Promise<void> => {
 
     res.json({
       status: 'success',
+      view: post.status === 'finished' ? 'results' : 'contest',
       imageUrl: post.imageUrl,
+      fitMode: post.fitMode,
       timestamp: post.deletesAt,
+      // The create mode caption is offered until the user wrote this many
+      maxCaptionsPerUser: await SettingsServices.getMaxCaptionsPerUser(settings),
     });
   } catch (error) {
     console.error('Error getting post image:', error);
@@ -487,6 +832,264 @@ router.get('/api/post', async (_req, res): Promise<void> => {
   }
 });
 
+// Get the results shown by the post
+router.get('/api/results', async (_req, res): Promise<void> => {
+  try {
+    const { postId } = context;
+
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Post ID is required',
+      });
+      return;
+    }
+
+    const results = await ResultsServices.getResults(redis, postId);
+
+    if (!results) {
+      res.status(404).json({
+        status: 'error',
+        message: 'Results not found',
+      });
+      return;
+    }
+
+    res.json({
+      status: 'success',
+      results,
+    });
+  } catch (error) {
+    console.error('Error getting results:', error);
+    sendError(res, error, 'Failed to get results');
+  }
+});
+
+// --------------------------------------------------------
+
+// Moderation: list every caption of the post, including removed ones
+router.get('/api/mod/captions', async (_req, res): Promise<void> => {
+  try {
+    const { postId } = context;
+    const username = await reddit.getCurrentUsername();
+
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Post ID is required',
+      });
+      return;
+    }
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    await ModerationServices.assertModerator(reddit, context.subredditName, username);
+
+    const captionsWithUpvotes = await CaptionsServices.getCaptionsWithUpvotes(
+      redis,
+      postId,
+      username,
+      { includeRemoved: true }
+    );
+    const reportedCaptions = await ReportsServices.addReports(redis, postId, captionsWithUpvotes);
+    const captions = await ImpressionsServices.addImpressions(redis, postId, reportedCaptions);
+
+    res.json({
+      status: 'success',
+      captions,
+    });
+  } catch (error) {
+    console.error('Error getting captions for moderation:', error);
+    sendError(res, error, 'Failed to get captions');
+  }
+});
+
+// Moderation: remove a caption
+router.post('/api/mod/captions/:captionId/remove', async (req, res): Promise<void> => {
+  try {
+    const { captionId } = req.params;
+    const { postId } = context;
+    const username = await reddit.getCurrentUsername();
+
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Post ID is required',
+      });
+      return;
+    }
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    await ModerationServices.assertModerator(reddit, context.subredditName, username);
+
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : undefined;
+    const caption = await ModerationServices.removeCaption(
+      redis,
+      postId,
+      captionId,
+      username,
+      reason
+    );
+    await LiveServices.publishCaptionUpdated({ redis, realtime }, postId, caption);
+
+    res.json({
+      status: 'success',
+      caption,
+    });
+  } catch (error) {
+    console.error('Error removing caption:', error);
+    sendError(res, error, 'Failed to remove caption');
+  }
+});
+
+// Moderation: restore a removed caption
+router.post('/api/mod/captions/:captionId/restore', async (req, res): Promise<void> => {
+  try {
+    const { captionId } = req.params;
+    const { postId } = context;
+    const username = await reddit.getCurrentUsername();
+
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Post ID is required',
+      });
+      return;
+    }
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    await ModerationServices.assertModerator(reddit, context.subredditName, username);
+
+    const caption = await ModerationServices.restoreCaption(redis, postId, captionId, username);
+    await LiveServices.publishCaptionUpdated({ redis, realtime }, postId, caption);
+
+    res.json({
+      status: 'success',
+      caption,
+    });
+  } catch (error) {
+    console.error('Error restoring caption:', error);
+    sendError(res, error, 'Failed to restore caption');
+  }
+});
+
+// Moderation: get the mod log of the post
+router.get('/api/mod/log', async (_req, res): Promise<void> => {
+  try {
+    const { postId } = context;
+    const username = await reddit.getCurrentUsername();
+
+    if (!postId) {
+      res.status(400).json({
+        status: 'error',
+        message: 'Post ID is required',
+      });
+      return;
+    }
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    await ModerationServices.assertModerator(reddit, context.subredditName, username);
+
+    const entries = await ModerationServices.getModLog(redis, postId);
+
+    res.json({
+      status: 'success',
+      entries,
+    });
+  } catch (error) {
+    console.error('Error getting mod log:', error);
+    sendError(res, error, 'Failed to get mod log');
+  }
+});
+
+// Moderation: get the contests whose results failed to publish
+router.get('/api/mod/publish-failures', async (_req, res): Promise<void> => {
+  try {
+    const username = await reddit.getCurrentUsername();
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    await ModerationServices.assertModerator(reddit, context.subredditName, username);
+
+    const jobs = await PublishServices.getDeadLetters(redis);
+
+    res.json({
+      status: 'success',
+      jobs,
+    });
+  } catch (error) {
+    console.error('Error getting failed publish jobs:', error);
+    sendError(res, error, 'Failed to get failed publish jobs');
+  }
+});
+
+// Moderation: retry publishing the results of a failed contest
+router.post('/api/mod/publish-failures/:postId/retry', async (req, res): Promise<void> => {
+  try {
+    const { postId } = req.params;
+    const username = await reddit.getCurrentUsername();
+
+    if (!username) {
+      res.status(401).json({
+        status: 'error',
+        code: 'UNAUTHENTICATED',
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    await ModerationServices.assertModerator(reddit, context.subredditName, username);
+
+    const job = await PublishServices.retryDeadLetter(redis, scheduler, postId);
+
+    res.json({
+      status: 'success',
+      job,
+    });
+  } catch (error) {
+    console.error('Error retrying publish job:', error);
+    sendError(res, error, 'Failed to retry publish job');
+  }
+});
+
 // Use router middleware
 app.use(router);
 
@@ -0,0 +1,56 @@
+import type { CaptionInput } from '../types/caption.type.js';
+import type { CaptionLayout, ImageSize } from './caption.layout.js';
+
+// Captions laid out by the layout tests and drawn by the renderer tests, against the same
+// snapshot of their layouts
+
+export const FIXTURE_IMAGE: ImageSize = { width: 730, height: 430 };
+
+export const FIXTURE_CAPTIONS: Record<string, CaptionInput> = {
+  unstyled: {
+    topCaption: 'When the meeting could have been an email',
+    bottomCaption: 'And it was also scheduled over lunch for everyone involved',
+  },
+  banners: {
+    topExtendedCaption: 'Nobody:',
+    bottomExtendedCaption: 'Absolutely nobody at all, not even the cat sleeping by the window',
+    bottomExtensionWhite: true,
+  },
+  styled: {
+    topCaption: 'Serif captions wrap with their own glyph widths',
+    bottomCaption: 'monospaced text takes more room on every line',
+    styles: {
+      top: { fontFamily: 'serif', fontSize: 40 },
+      bottom: { fontFamily: 'mono', casing: 'none', align: 'left' },
+    },
+  },
+  longWord: {
+    topCaption: 'Supercalifragilisticexpialidociousnessisnotaword',
+  },
+  layer: {
+    layers: [{ text: 'Me, looking at the deploy logs', x: 0.3, y: 0.4, width: 0.35, rotation: 0 }],
+  },
+};
+
+// What the snapshot keeps of a layout: the frame of the image and where each text's lines go
+export type LayoutSnapshot = {
+  image: CaptionLayout['image'];
+  texts: Pick<
+    CaptionLayout['texts'][number],
+    'lines' | 'box' | 'lineHeight' | 'fontFamily' | 'fontSize' | 'align'
+  >[];
+};
+
+export const toLayoutSnapshot = (layout: CaptionLayout): LayoutSnapshot => ({
+  image: layout.image,
+  texts: [...layout.texts, ...layout.layers].map(
+    ({ lines, box, lineHeight, fontFamily, fontSize, align }) => ({
+      lines,
+      box,
+      lineHeight,
+      fontFamily,
+      fontSize,
+      align,
+    })
+  ),
+});
@@ -0,0 +1,69 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import opentype from 'opentype.js';
+import { describe, expect, it } from 'vitest';
+import { CAPTION_FONTS, MeasureContext, createTextMeasurer, layoutCaption } from './caption.layout';
+import { FIXTURE_CAPTIONS, FIXTURE_IMAGE, toLayoutSnapshot } from './caption.layout.fixtures';
+
+const loadFont = (url: URL) => {
+  const file = readFileSync(fileURLToPath(url));
+  return opentype.parse(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+};
+
+// Families the webview declares with @font-face, from the files it loads them from
+const CLIENT_CSS_URL = new URL('../../client/index.css', import.meta.url);
+const clientFonts = new Map(
+  [...readFileSync(CLIENT_CSS_URL, 'utf8').matchAll(/@font-face\s*{([^}]*)}/g)].map(([, rule]) => {
+    const family = /font-family:\s*'([^']+)'/.exec(rule!)![1]!;
+    const file = /src:\s*url\('([^']+)'\)/.exec(rule!)![1]!;
+    return [family, loadFont(new URL(file, CLIENT_CSS_URL))];
+  })
+);
+
+// Families the render backend registers with node-canvas
+const backendFonts = new Map(
+  Object.values(CAPTION_FONTS).map(({ family, file }) => [
+    family,
+    loadFont(new URL(`../../../backend/fonts/${file}`, import.meta.url)),
+  ])
+);
+
+/**
+ * Canvas context measuring with the first family of its font, failing on families nothing
+ * bundles since the webview and node-canvas resolve those to different platform fonts
+ */
+function createFontContext(fonts: Map<string, opentype.Font>): MeasureContext {
+  return {
+    font: '',
+    measureText(text) {
+      const [, size, families] = /^\w+ ([\d.]+)px (.+)$/.exec(this.font) ?? [];
+      const family = families!.split(',')[0]!.trim().replace(/^"|"$/g, '');
+      const font = fonts.get(family);
+      if (!font) throw new Error(`${family} isn't bundled`);
+      return { width: font.getAdvanceWidth(text, Number(size)) };
+    },
+  };
+}
+
+// Text measured from the bundled font files, which the webview and the backend both draw with
+const measure = createTextMeasurer(createFontContext(backendFonts));
+
+describe('layoutCaption', () => {
+  it('declares every bundled font in the webview', () => {
+    expect([...clientFonts.keys()].sort()).toEqual([...backendFonts.keys()].sort());
+  });
+
+  // The renderer tests check the backend draws these same lines and boxes
+  it('keeps the line breaks and boxes of known captions', async () => {
+    const layouts = Object.fromEntries(
+      Object.entries(FIXTURE_CAPTIONS).map(([name, caption]) => [
+        name,
+        toLayoutSnapshot(layoutCaption(caption, FIXTURE_IMAGE, measure)),
+      ])
+    );
+
+    await expect(`${JSON.stringify(layouts, null, 2)}\n`).toMatchFileSnapshot(
+      './__snapshots__/caption.layouts.snap'
+    );
+  });
+});
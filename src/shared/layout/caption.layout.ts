@@ -0,0 +1,385 @@
+import type {
+  CaptionAlign,
+  CaptionCasing,
+  CaptionFont,
+  CaptionInput,
+  CaptionLayer,
+  CaptionSlot,
+  CaptionStyle,
+} from '../types/caption.type.js';
+import type { FitMode } from '../types/post.type.js';
+
+// NOTE: relative imports in this folder keep their `.js` extension because the
+// render backend compiles these files as native ES modules.
+
+// Every layout is computed in a reference space that is LAYOUT_WIDTH units wide.
+// Consumers scale it to their output size (`outputWidth / layout.width`).
+export const LAYOUT_WIDTH = 700;
+
+// Caption typography
+export const CAPTION_FONT_SIZE = 32;
+export const CAPTION_LINE_HEIGHT = 1.2;
+export const CAPTION_FONT_WEIGHT = 'bold';
+export const CAPTION_MAX_LINES = 2;
+
+// Fonts a caption style can pick, bundled with the render backend (backend/fonts) and loaded by
+// the webview from the same files
+export const CAPTION_FONTS: Record<CaptionFont, { label: string; family: string; file: string }> = {
+  sans: { label: 'Sans', family: 'DejaVu Sans', file: 'DejaVuSans-Bold.ttf' },
+  serif: { label: 'Serif', family: 'DejaVu Serif', file: 'DejaVuSerif-Bold.ttf' },
+  mono: { label: 'Mono', family: 'DejaVu Sans Mono', file: 'DejaVuSansMono-Bold.ttf' },
+};
+// Font of unstyled captions, bundled too: generic families resolve to different fonts in the
+// webview and on the backend, which would wrap lines differently
+export const DEFAULT_CAPTION_FONT: CaptionFont = 'sans';
+export const CAPTION_FONT_SIZE_RANGE = { min: 16, max: 48 };
+export const CAPTION_STROKE_WIDTH_MAX = 6;
+// Outline width used when a style picks an outline color only
+export const DEFAULT_STROKE_WIDTH = 2;
+export const CAPTION_CASINGS: CaptionCasing[] = ['upper', 'lower', 'none'];
+export const CAPTION_ALIGNS: CaptionAlign[] = ['left', 'center', 'right'];
+export const CAPTION_SLOTS: CaptionSlot[] = ['topExtended', 'top', 'bottom', 'bottomExtended'];
+// Longest text accepted for a single caption slot or layer
+export const CAPTION_TEXT_MAX_LENGTH = 150;
+
+// Free-positioned text layers
+export const CAPTION_MAX_LAYERS = 10;
+export const CAPTION_LAYER_MAX_LINES = 4;
+// Narrowest layer, as a fraction of the image frame width
+export const CAPTION_LAYER_MIN_WIDTH = 0.1;
+// Where new layers are placed
+export const DEFAULT_CAPTION_LAYER: Omit<CaptionLayer, 'text'> = {
+  x: 0.5,
+  y: 0.5,
+  width: 0.5,
+  rotation: 0,
+};
+
+// Spacing
+const TEXT_MARGIN = 15; // horizontal margin on each side of a text box
+const BANNER_PADDING = 10; // vertical padding above and below banner text
+const OVERLAY_OFFSET = 10; // gap between overlay text and the image edge
+
+// Classic frame used by the letterbox and cover modes, and as the image size until it has loaded
+export const DEFAULT_IMAGE_SIZE: ImageSize = { width: 730, height: 430 };
+
+export const FIT_MODES: FitMode[] = ['fit', 'letterbox', 'cover'];
+export const DEFAULT_FIT_MODE: FitMode = 'fit';
+
+// Bars around letterboxed images
+export const LETTERBOX_FILL = 'black';
+
+export type { CaptionSlot };
+
+export type ImageSize = { width: number; height: number };
+
+export type LayoutRect = { x: number; y: number; width: number; height: number };
+
+export type LayoutBanner = LayoutRect & {
+  slot: CaptionSlot;
+  fill: string;
+};
+
+export type LayoutText = {
+  slot: CaptionSlot;
+  lines: string[];
+  box: LayoutRect;
+  font: string;
+  fontFamily: string;
+  fontWeight: string;
+  fontSize: number;
+  lineHeight: number;
+  fill: string;
+  stroke?: string;
+  // Visible outline width, drawn outside the glyphs
+  strokeWidth: number;
+  // Lines are already cased, editors apply the casing to the raw text
+  casing: CaptionCasing;
+  align: CaptionAlign;
+  shadow?: string;
+};
+
+// Free-positioned text, its box rotated around its center
+export type LayoutLayer = Omit<LayoutText, 'slot'> & {
+  index: number;
+  rotation: number;
+};
+
+export type CaptionLayout = {
+  width: number;
+  height: number;
+  // Frame holding the image
+  image: LayoutRect;
+  // Where the source image is drawn: inside the frame when letterboxed, overflowing it (and
+  // clipped to it) when covering
+  source: LayoutRect;
+  banners: LayoutBanner[];
+  texts: LayoutText[];
+  // Drawn over the image and clipped to its frame
+  layers: LayoutLayer[];
+};
+
+export type CaptionLayoutOptions = {
+  // Slots laid out even when empty (e.g. while the user is still typing)
+  slots?: CaptionSlot[];
+  fitMode?: FitMode;
+};
+
+// Returns the rendered width of `text` in the given CSS font, in layout units
+export type TextMeasurer = (text: string, font: string) => number;
+
+// Minimal 2D context shape, satisfied by both DOM and node-canvas contexts
+export type MeasureContext = {
+  font: string;
+  measureText(text: string): { width: number };
+};
+
+/**
+ * Builds a TextMeasurer on top of a 2D canvas context
+ */
+export function createTextMeasurer(context: MeasureContext): TextMeasurer {
+  return (text, font) => {
+    context.font = font;
+    return context.measureText(text).width;
+  };
+}
+
+/**
+ * Returns the CSS font family of a caption style, the generic sans-serif only standing in while
+ * the bundled font loads
+ */
+export function captionFontFamily(font: CaptionFont = DEFAULT_CAPTION_FONT): string {
+  return `"${CAPTION_FONTS[font].family}", sans-serif`;
+}
+
+/**
+ * Returns the CSS font shorthand used for captions at the given size
+ */
+export function captionFont(
+  fontSize: number = CAPTION_FONT_SIZE,
+  fontFamily: string = captionFontFamily()
+): string {
+  return `${CAPTION_FONT_WEIGHT} ${fontSize}px ${fontFamily}`;
+}
+
+/**
+ * Applies a caption casing to text
+ */
+export function applyCasing(text: string, casing: CaptionCasing = 'upper'): string {
+  if (casing === 'upper') return text.toUpperCase();
+  if (casing === 'lower') return text.toLowerCase();
+  return text;
+}
+
+/**
+ * Greedily wraps text into lines no wider than maxWidth, breaking long words by character
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  font: string,
+  measure: TextMeasurer
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) lines.push(line);
+      line = '';
+
+      // Break words that don't fit on a line of their own
+      for (const char of word) {
+        if (line && measure(line + char, font) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Wraps caption text exactly as layoutCaption would for a full-width slot with the given style
+ *
+ * `maxWidth` defaults to the width of a slot, layers passing their own.
+ */
+export function wrapCaptionText(
+  text: string,
+  measure: TextMeasurer,
+  style: CaptionStyle = {},
+  maxWidth: number = LAYOUT_WIDTH - 2 * TEXT_MARGIN
+): string[] {
+  const font = captionFont(
+    style.fontSize ?? CAPTION_FONT_SIZE,
+    captionFontFamily(style.fontFamily)
+  );
+  return wrapText(applyCasing(text, style.casing), maxWidth, font, measure);
+}
+
+/**
+ * Returns the width of a layer in layout units, given the image frame it is placed on
+ */
+export function layerWidth(layer: Pick<CaptionLayer, 'width'>, frame: LayoutRect): number {
+  return layer.width * frame.width;
+}
+
+/**
+ * Places an image of the given size inside its frame, centered, according to the fit mode
+ */
+export function fitImage(image: ImageSize, frame: LayoutRect, fitMode: FitMode): LayoutRect {
+  if (fitMode === 'fit') return { ...frame };
+
+  const widthScale = frame.width / image.width;
+  const heightScale = frame.height / image.height;
+  const scale =
+    fitMode === 'cover' ? Math.max(widthScale, heightScale) : Math.min(widthScale, heightScale);
+  const width = image.width * scale;
+  const height = image.height * scale;
+
+  return {
+    x: frame.x + (frame.width - width) / 2,
+    y: frame.y + (frame.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * Computes banner sizes, line breaks and text boxes for a caption drawn over an image
+ *
+ * `image` is the size of the source image. Everything scales with the layout width, so font
+ * sizes and banner heights keep their proportions whatever the image shape and output size.
+ */
+export function layoutCaption(
+  caption: CaptionInput,
+  image: ImageSize,
+  measure: TextMeasurer,
+  options: CaptionLayoutOptions = {}
+): CaptionLayout {
+  const width = LAYOUT_WIDTH;
+  const banners: LayoutBanner[] = [];
+  const texts: LayoutText[] = [];
+
+  const slotText = (slot: CaptionSlot): string | undefined => {
+    const text = {
+      topExtended: caption.topExtendedCaption,
+      top: caption.topCaption,
+      bottom: caption.bottomCaption,
+      bottomExtended: caption.bottomExtendedCaption,
+    }[slot];
+    if (text) return text;
+    return options.slots?.includes(slot) ? '' : undefined;
+  };
+
+  // Lines and text box of a styled text, its box starting at (x, y)
+  const buildBlock = (
+    text: string,
+    x: number,
+    y: number,
+    boxWidth: number,
+    fill: string,
+    style: CaptionStyle
+  ): Omit<LayoutText, 'slot'> => {
+    const fontSize = style.fontSize ?? CAPTION_FONT_SIZE;
+    const fontFamily = captionFontFamily(style.fontFamily);
+    const lineHeight = fontSize * CAPTION_LINE_HEIGHT;
+    const lines = wrapCaptionText(text, measure, style, boxWidth);
+    return {
+      lines,
+      box: { x, y, width: boxWidth, height: lines.length * lineHeight },
+      font: captionFont(fontSize, fontFamily),
+      fontFamily,
+      fontWeight: CAPTION_FONT_WEIGHT,
+      fontSize,
+      lineHeight,
+      fill: style.fill ?? fill,
+      stroke: style.stroke,
+      strokeWidth: style.stroke ? (style.strokeWidth ?? DEFAULT_STROKE_WIDTH) : 0,
+      casing: style.casing ?? 'upper',
+      align: style.align ?? 'center',
+    };
+  };
+
+  const buildText = (slot: CaptionSlot, text: string, y: number, fill: string): LayoutText => ({
+    slot,
+    ...buildBlock(
+      text,
+      TEXT_MARGIN,
+      y,
+      width - 2 * TEXT_MARGIN,
+      fill,
+      caption.styles?.[slot] ?? {}
+    ),
+  });
+
+  const addBanner = (slot: CaptionSlot, text: string, y: number, white?: boolean): number => {
+    const bannerText = buildText(slot, text, y + BANNER_PADDING, white ? 'black' : 'white');
+    const height = bannerText.box.height + 2 * BANNER_PADDING;
+    banners.push({ slot, x: 0, y, width, height, fill: white ? 'white' : 'black' });
+    texts.push(bannerText);
+    return height;
+  };
+
+  let y = 0;
+
+  // Top banner
+  const topExtended = slotText('topExtended');
+  if (topExtended !== undefined) {
+    y += addBanner('topExtended', topExtended, y, caption.topExtensionWhite);
+  }
+
+  // Image
+  const fitMode = options.fitMode ?? DEFAULT_FIT_MODE;
+  const frame = fitMode === 'fit' ? image : DEFAULT_IMAGE_SIZE;
+  const imageRect: LayoutRect = { x: 0, y, width, height: (width * frame.height) / frame.width };
+  const source = fitImage(image, imageRect, fitMode);
+  y += imageRect.height;
+
+  // Overlays
+  const top = slotText('top');
+  if (top !== undefined) {
+    const topText = buildText('top', top, imageRect.y + OVERLAY_OFFSET, 'white');
+    texts.push({ ...topText, shadow: 'rgba(0,0,0,1)' });
+  }
+
+  const bottom = slotText('bottom');
+  if (bottom !== undefined) {
+    const bottomText = buildText('bottom', bottom, 0, 'white');
+    bottomText.box.y = y - OVERLAY_OFFSET - bottomText.box.height;
+    texts.push({ ...bottomText, shadow: 'rgba(0,0,0,1)' });
+  }
+
+  // Layers, centered on their position in the image frame
+  const layers: LayoutLayer[] = (caption.layers ?? []).map((layer, index) => {
+    const center = {
+      x: imageRect.x + layer.x * imageRect.width,
+      y: imageRect.y + layer.y * imageRect.height,
+    };
+    const boxWidth = layerWidth(layer, imageRect);
+    const text = buildBlock(layer.text, 0, 0, boxWidth, 'white', layer.style ?? {});
+    text.box.x = center.x - text.box.width / 2;
+    text.box.y = center.y - text.box.height / 2;
+    return { ...text, shadow: 'rgba(0,0,0,1)', index, rotation: layer.rotation };
+  });
+
+  // Bottom banner
+  const bottomExtended = slotText('bottomExtended');
+  if (bottomExtended !== undefined) {
+    y += addBanner('bottomExtended', bottomExtended, y, caption.bottomExtensionWhite);
+  }
+
+  return { width, height: y, image: imageRect, source, banners, texts, layers };
+}
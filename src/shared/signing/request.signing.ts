@@ -0,0 +1,39 @@
+// Render requests are signed by the Devvit app and checked by the render backend, both building
+// the signed payload here. Hashing is left to each side (node:crypto on both), as this folder also
+// compiles for the webview.
+
+export const SIGNATURE_VERSION = 'v1';
+
+// Request headers carrying the signature
+export const SIGNATURE_HEADERS = {
+  keyId: 'x-snapcap-key-id',
+  timestamp: 'x-snapcap-timestamp',
+  nonce: 'x-snapcap-nonce',
+  signature: 'x-snapcap-signature',
+} as const;
+
+export type SignedRequest = {
+  method: string;
+  // Path and query string of the request URL
+  path: string;
+  // Unix time of signing, in seconds
+  timestamp: number;
+  // Random value used once, so a captured request can't be replayed
+  nonce: string;
+  // Hex SHA-256 of the raw request body
+  bodyHash: string;
+};
+
+/**
+ * Builds the text whose HMAC-SHA256, hex encoded, is the signature of a request
+ */
+export function getSignaturePayload(request: SignedRequest): string {
+  return [
+    SIGNATURE_VERSION,
+    request.method.toUpperCase(),
+    request.path,
+    request.timestamp,
+    request.nonce,
+    request.bodyHash,
+  ].join('\n');
+}
@@ -1,3 +1,41 @@
+export type CaptionSlot = 'topExtended' | 'top' | 'bottom' | 'bottomExtended';
+
+// Fonts bundled with the render backend
+export type CaptionFont = 'sans' | 'serif' | 'mono';
+
+export type CaptionCasing = 'upper' | 'lower' | 'none';
+
+export type CaptionAlign = 'left' | 'center' | 'right';
+
+// Look of a caption slot's text, unset properties keeping the classic meme look
+export interface CaptionStyle {
+  fontFamily?: CaptionFont;
+  // In layout units
+  fontSize?: number;
+  // #rrggbb colors
+  fill?: string;
+  stroke?: string;
+  // Visible outline width, in layout units
+  strokeWidth?: number;
+  casing?: CaptionCasing;
+  align?: CaptionAlign;
+}
+
+export type CaptionStyles = Partial<Record<CaptionSlot, CaptionStyle>>;
+
+// Text placed anywhere over the image, e.g. to label an object in it. Positions and width are
+// fractions of the image frame, so layers keep their place whatever size the meme is drawn at.
+export interface CaptionLayer {
+  text: string;
+  // Center of the layer
+  x: number;
+  y: number;
+  width: number;
+  // Clockwise, in degrees
+  rotation: number;
+  style?: CaptionStyle;
+}
+
 export interface Caption {
   id?: string;
   username: string;
@@ -7,10 +45,49 @@ export interface Caption {
   bottomCaption?: string;
   topExtensionWhite?: boolean;
   bottomExtensionWhite?: boolean;
+  styles?: CaptionStyles;
+  layers?: CaptionLayer[];
   createdAt: number;
+  updatedAt?: number;
+  removed?: boolean;
+  removedBy?: string;
+  removedAt?: number;
 }
 
 export interface CaptionWithUpvotes extends Caption {
   upvotes: number;
   userUpvoted: boolean;
-}
\ No newline at end of file
+}
+
+// Orders the carousel lists captions in: 'fair' shuffles them the same way for each user, seen
+// the least first, so early captions don't dominate, 'unvoted' keeps that order but skips the
+// ones the user upvoted
+export type CaptionSort = 'top' | 'new' | 'fair' | 'unvoted';
+
+export const CAPTION_SORTS: CaptionSort[] = ['top', 'new', 'fair', 'unvoted'];
+
+// One page of a caption listing, nextCursor fetching the following one while there is more
+export interface CaptionPage {
+  captions: CaptionWithUpvotes[];
+  nextCursor?: string;
+}
+
+// Caption with its final upvote count, as ranked when a contest ends
+export interface RankedCaption extends Caption {
+  upvotes: number;
+}
+
+export type CaptionInput = Pick<
+  Caption,
+  | 'topExtendedCaption'
+  | 'bottomExtendedCaption'
+  | 'topCaption'
+  | 'bottomCaption'
+  | 'topExtensionWhite'
+  | 'bottomExtensionWhite'
+  | 'styles'
+  | 'layers'
+>;
+
+// Previous version of a caption, kept each time its author edits it
+export type CaptionRevision = CaptionInput & { editedAt: number };
@@ -0,0 +1,31 @@
+export type CaptionErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'POST_NOT_FOUND'
+  | 'CAPTION_NOT_FOUND'
+  | 'NOT_AUTHOR'
+  | 'CONTEST_CLOSED'
+  | 'NOT_MODERATOR'
+  | 'INVALID_BODY'
+  | 'UNKNOWN_FIELD'
+  | 'INVALID_FIELD'
+  | 'TEXT_TOO_LONG'
+  | 'EMPTY_CAPTION'
+  | 'CAPTION_LIMIT_REACHED'
+  | 'OWN_CAPTION'
+  | 'ALREADY_REPORTED'
+  | 'EMPTY_REPORT_REASON'
+  | 'BLOCKED_WORD'
+  | 'BANNED_LINK'
+  | 'TOO_MANY_CAPITALS'
+  | 'INVALID_STYLE'
+  | 'PUBLISH_JOB_NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'RENDER_FAILED'
+  | 'VOTE_CONFLICT';
+
+export interface ErrorResponse {
+  status: 'error';
+  message: string;
+  code?: CaptionErrorCode;
+  field?: string;
+}
@@ -0,0 +1,19 @@
+import { Caption } from './caption.type';
+
+// Realtime channel of a post's live updates (channel names only allow letters, numbers and underscores)
+export const getLiveChannel = (postId: string): string => `post_${postId}`;
+
+// Upvotes a caption gained (or lost) since the previous message, with its new total
+export interface LiveVoteChange {
+  delta: number;
+  upvotes: number;
+}
+
+// Messages sent on a post's realtime channel
+export type LiveMessage =
+  | { type: 'caption-created'; caption: Caption; upvotes: number }
+  // Edited, removed or restored caption, votesReset telling the edit dropped its votes
+  | { type: 'caption-updated'; caption: Caption; upvotes: number; votesReset: boolean }
+  | { type: 'caption-deleted'; captionId: string }
+  // Vote changes by caption ID, gathered over a short window
+  | { type: 'votes'; changes: Record<string, LiveVoteChange> };
@@ -0,0 +1,33 @@
+import { CaptionWithUpvotes } from './caption.type';
+
+// Recorded as the moderator of captions hidden by user reports (never a valid Reddit username)
+export const REPORTS_MODERATOR = 'user reports';
+
+// 'hide' is logged when user reports hide a caption automatically
+export type ModAction = 'remove' | 'restore' | 'hide';
+
+export interface ModLogEntry {
+  id: string;
+  action: ModAction;
+  captionId: string;
+  moderator: string;
+  reason?: string;
+  createdAt: number;
+}
+
+export interface CaptionReport {
+  username: string;
+  reason: string;
+  createdAt: number;
+}
+
+// Caption with the reports it received
+export interface ReportedCaption extends CaptionWithUpvotes {
+  reportCount: number;
+  reports: CaptionReport[];
+}
+
+// Caption as listed to moderators, with its reports and how many users the carousel showed it to
+export interface ModCaption extends ReportedCaption {
+  impressions: number;
+}
@@ -1,6 +1,23 @@
+// 'finished' once the results are published, the post then showing them
+export type ContestStatus = 'open' | 'finished';
+
+// How the image fills its frame: 'fit' keeps the image's own shape, 'letterbox' and 'cover'
+// use the classic frame, adding bars around the image or cropping it
+export type FitMode = 'fit' | 'letterbox' | 'cover';
+
+// How a contest's winners are posted when it ends
+export type ResultsMode = 'gallery' | 'results-post' | 'separate';
+
 export interface Post {
   id: string;
   imageUrl: string;
   deletesAt: number;
   jobId?: string;
+  winnersCount: number;
+  minUpvotes: number;
+  status: ContestStatus;
+  resultsMode: ResultsMode;
+  fitMode: FitMode;
+  // Posts created for the results, filled in once they are published
+  resultPostIds?: string[];
 }
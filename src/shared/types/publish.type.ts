@@ -0,0 +1,39 @@
+import { CaptionInput } from './caption.type';
+import { FitMode, ResultsMode } from './post.type';
+
+// Steps publishing a contest's results, in order (the first three run for each winner)
+export type PublishStep = 'render' | 'upload' | 'submit' | 'finish' | 'purge';
+
+export type PublishStatus = 'running' | 'retrying' | 'failed';
+
+export interface PublishWinner {
+  captionId: string;
+  username: string;
+  caption: CaptionInput;
+  upvotes: number;
+  rendered: boolean;
+  mediaUrl?: string;
+  // Own post of the winner, in the 'separate' results mode
+  submittedPostId?: string;
+}
+
+// Progress of the post-best-captions job, kept so a failed run resumes where it stopped
+export interface PublishJob {
+  postId: string;
+  imageUrl: string;
+  status: PublishStatus;
+  attempts: number;
+  resultsMode: ResultsMode;
+  fitMode: FitMode;
+  winners: PublishWinner[];
+  // Single post showing every winner, in the 'gallery' and 'results-post' modes
+  resultsPostId?: string;
+  // Whether the original post switched to its results view
+  finished: boolean;
+  failedStep?: PublishStep;
+  lastError?: string;
+  retryJobId?: string;
+  nextRetryAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
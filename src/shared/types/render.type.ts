@@ -0,0 +1,112 @@
+import { CaptionInput } from './caption.type.js';
+import { FitMode } from './post.type.js';
+
+// Still image formats the render backend encodes (animated GIFs always render as GIF)
+export type OutputFormat = 'png' | 'jpeg' | 'webp';
+
+// Where the credit goes: a strip added above or below the meme, or a corner over it
+export type WatermarkPlacement =
+  | 'strip-bottom'
+  | 'strip-top'
+  | 'bottom-right'
+  | 'bottom-left'
+  | 'top-right'
+  | 'top-left';
+
+export const WATERMARK_PLACEMENTS: WatermarkPlacement[] = [
+  'strip-bottom',
+  'strip-top',
+  'bottom-right',
+  'bottom-left',
+  'top-right',
+  'top-left',
+];
+
+// Credit drawn on the meme, each property falling back to the app watermark's
+export interface WatermarkSpec {
+  placement?: WatermarkPlacement;
+  // From 0 (invisible) to 1
+  opacity?: number;
+  // Credit text, where {author} and {subreddit} are replaced by the names below
+  template?: string;
+  author?: string;
+  subreddit?: string;
+}
+
+// Output requested from the render backend, each property falling back to its default
+export interface OutputSpec {
+  format?: OutputFormat;
+  // Encoding quality from 1 to 100, ignored by png
+  quality?: number;
+  // Multiplier of the native output size, still within the backend's maximum output size
+  scale?: number;
+  // Credit drawn on the meme, true giving the app watermark
+  watermark?: boolean | WatermarkSpec;
+}
+
+// Caption as sent to the render backend, with the username its credit names
+export type RenderCaption = CaptionInput & { username?: string };
+
+// Body of a render request, checked field by field by the render backend
+export interface RenderRequest {
+  // https URL of the source image, on a host the backend allows
+  imageUrl: string;
+  caption: RenderCaption;
+  fitMode?: FitMode;
+  output?: OutputSpec;
+}
+
+// Body of a batch render request, every caption being drawn over the same image
+export interface BatchRenderRequest {
+  imageUrl: string;
+  captions: RenderCaption[];
+  fitMode?: FitMode;
+  output?: OutputSpec;
+}
+
+// What the render backend tells about a rendered meme
+export interface RenderMetadata {
+  contentType: string;
+  width: number;
+  height: number;
+  // Size of the encoded image
+  bytes: number;
+  // Time spent rendering and encoding, in milliseconds
+  renderMs: number;
+}
+
+// JSON response of the render backend, sent when asked for with an application/json Accept header
+export interface RenderResponse extends RenderMetadata {
+  success: true;
+  // Base64 data URL of the image
+  image: string;
+}
+
+// Result of a caption that failed to render in a batch
+export interface RenderFailure {
+  success: false;
+  // Stable error code, e.g. GIF_TOO_LARGE
+  code: string;
+  message: string;
+}
+
+// Field of a request body that failed validation, its path dot separated (e.g. caption.layers.0.x)
+export interface FieldIssue {
+  field: string;
+  // What is wrong with the field, naming it
+  message: string;
+}
+
+// JSON body of every error response of the render backend
+export interface RenderErrorResponse extends RenderFailure {
+  // Also sent in the X-Request-Id header, to find the request in the backend logs
+  requestId: string;
+  // Bad fields of a request failing validation
+  fields?: FieldIssue[];
+}
+
+// JSON response of the batch render backend, with one result per caption in the order they were sent
+export interface BatchRenderResponse {
+  success: true;
+  results: (RenderResponse | RenderFailure)[];
+}
@@ -0,0 +1,23 @@
+import { CaptionInput } from './caption.type';
+import { FitMode } from './post.type';
+
+export interface ContestWinner {
+  rank: number;
+  captionId: string;
+  username: string;
+  caption: CaptionInput;
+  upvotes: number;
+  // Rendered image, when the results mode produced one
+  imageUrl?: string;
+}
+
+// Final standings of a contest, kept after its captions are purged
+export interface ContestResults {
+  postId: string;
+  imageUrl: string;
+  fitMode: FitMode;
+  winners: ContestWinner[];
+  // Posts the results were published to
+  resultPostIds: string[];
+  finishedAt: number;
+}
@@ -0,0 +1,22 @@
+import type { CaptionErrorCode } from '../types/error.type.js';
+
+/**
+ * Expected caption failure, reported to the client with its code and HTTP status
+ */
+export class CaptionError extends Error {
+  readonly code: CaptionErrorCode;
+  readonly status: number;
+  readonly field?: string;
+
+  constructor(
+    code: CaptionErrorCode,
+    message: string,
+    options: { status?: number; field?: string } = {}
+  ) {
+    super(message);
+    this.name = 'CaptionError';
+    this.code = code;
+    this.status = options.status ?? 400;
+    this.field = options.field;
+  }
+}
@@ -0,0 +1,329 @@
+import type {
+  CaptionInput,
+  CaptionLayer,
+  CaptionStyle,
+  CaptionStyles,
+} from '../types/caption.type.js';
+import {
+  CAPTION_ALIGNS,
+  CAPTION_CASINGS,
+  CAPTION_FONTS,
+  CAPTION_FONT_SIZE_RANGE,
+  CAPTION_LAYER_MIN_WIDTH,
+  CAPTION_MAX_LAYERS,
+  CAPTION_SLOTS,
+  CAPTION_STROKE_WIDTH_MAX,
+  CAPTION_TEXT_MAX_LENGTH,
+  type CaptionSlot,
+} from '../layout/caption.layout.js';
+import { CaptionError } from './caption.error.js';
+
+// NOTE: relative imports in this folder keep their `.js` extension because the
+// render backend compiles these files as native ES modules.
+
+const TEXT_FIELDS = [
+  'topCaption',
+  'bottomCaption',
+  'topExtendedCaption',
+  'bottomExtendedCaption',
+] as const;
+
+const FLAG_FIELDS = ['topExtensionWhite', 'bottomExtensionWhite'] as const;
+
+// Text field of each caption slot
+export const SLOT_FIELDS: Record<CaptionSlot, (typeof TEXT_FIELDS)[number]> = {
+  topExtended: 'topExtendedCaption',
+  top: 'topCaption',
+  bottom: 'bottomCaption',
+  bottomExtended: 'bottomExtendedCaption',
+};
+
+// Every style property a client may send, checked against CaptionStyle at compile time
+const ALLOWED_STYLE_PROPERTIES: Record<keyof CaptionStyle, true> = {
+  fontFamily: true,
+  fontSize: true,
+  fill: true,
+  stroke: true,
+  strokeWidth: true,
+  casing: true,
+  align: true,
+};
+
+// Every layer property a client may send, checked against CaptionLayer at compile time
+const ALLOWED_LAYER_PROPERTIES: Record<keyof CaptionLayer, true> = {
+  text: true,
+  x: true,
+  y: true,
+  width: true,
+  rotation: true,
+  style: true,
+};
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Every field a client may send, checked against CaptionInput at compile time
+const ALLOWED_FIELDS: Record<keyof CaptionInput, true> = {
+  topCaption: true,
+  bottomCaption: true,
+  topExtendedCaption: true,
+  bottomExtendedCaption: true,
+  topExtensionWhite: true,
+  bottomExtensionWhite: true,
+  styles: true,
+  layers: true,
+};
+
+/**
+ * Validates a caption against the CaptionInput type, for the Devvit server and the render backend
+ */
+export function parseCaptionInput(body: unknown): CaptionInput {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new CaptionError('INVALID_BODY', 'Caption must be a JSON object');
+  }
+
+  const fields = body as Record<string, unknown>;
+
+  // Reject anything outside the input type, including client supplied authors
+  const unknownField = Object.keys(fields).find((field) => !(field in ALLOWED_FIELDS));
+  if (unknownField) {
+    throw new CaptionError('UNKNOWN_FIELD', `Unknown caption field "${unknownField}"`, {
+      field: unknownField,
+    });
+  }
+
+  const input: CaptionInput = {};
+
+  for (const field of TEXT_FIELDS) {
+    const value = fields[field];
+    if (value === undefined || value === null) continue;
+
+    const text = parseText(value, field);
+    if (text) input[field] = text;
+  }
+
+  for (const field of FLAG_FIELDS) {
+    const value = fields[field];
+    if (value === undefined || value === null) continue;
+
+    if (typeof value !== 'boolean') {
+      throw new CaptionError('INVALID_FIELD', `${field} must be a boolean`, { field });
+    }
+
+    input[field] = value;
+  }
+
+  if (fields.layers !== undefined && fields.layers !== null) {
+    const layers = parseCaptionLayers(fields.layers);
+    if (layers.length > 0) input.layers = layers;
+  }
+
+  if (!TEXT_FIELDS.some((field) => input[field]) && !input.layers) {
+    throw new CaptionError('EMPTY_CAPTION', 'At least one caption field must be filled');
+  }
+
+  if (fields.styles !== undefined && fields.styles !== null) {
+    // Styles of empty slots are dropped
+    const styles = parseCaptionStyles(fields.styles);
+    for (const slot of CAPTION_SLOTS) {
+      if (!input[SLOT_FIELDS[slot]]) delete styles[slot];
+    }
+    if (Object.keys(styles).length > 0) input.styles = styles;
+  }
+
+  return input;
+}
+
+/**
+ * Validates the text of a caption field, returning it trimmed
+ */
+function parseText(value: unknown, field: string): string {
+  if (typeof value !== 'string') {
+    throw new CaptionError('INVALID_FIELD', `${field} must be a string`, { field });
+  }
+
+  const text = value.trim();
+  if (text.length > CAPTION_TEXT_MAX_LENGTH) {
+    throw new CaptionError(
+      'TEXT_TOO_LONG',
+      `${field} must be at most ${CAPTION_TEXT_MAX_LENGTH} characters`,
+      { field }
+    );
+  }
+
+  return text;
+}
+
+/**
+ * Validates the free-positioned text layers against CaptionLayer, dropping empty ones
+ */
+function parseCaptionLayers(value: unknown): CaptionLayer[] {
+  if (!Array.isArray(value)) {
+    throw new CaptionError('INVALID_FIELD', 'layers must be an array', { field: 'layers' });
+  }
+  if (value.length > CAPTION_MAX_LAYERS) {
+    throw new CaptionError(
+      'INVALID_FIELD',
+      `A caption can have at most ${CAPTION_MAX_LAYERS} layers`,
+      {
+        field: 'layers',
+      }
+    );
+  }
+
+  const layers: CaptionLayer[] = [];
+
+  value.forEach((item: unknown, index) => {
+    const field = `layers.${index}`;
+    if (!isPlainObject(item)) {
+      throw new CaptionError('INVALID_FIELD', `${field} must be an object`, { field });
+    }
+
+    const unknownProperty = Object.keys(item).find(
+      (property) => !(property in ALLOWED_LAYER_PROPERTIES)
+    );
+    if (unknownProperty) {
+      throw new CaptionError('INVALID_FIELD', `Unknown layer property "${unknownProperty}"`, {
+        field,
+      });
+    }
+
+    const parseNumber = (property: keyof CaptionLayer, min: number, max: number): number => {
+      const number = item[property];
+      if (typeof number !== 'number' || !Number.isFinite(number) || number < min || number > max) {
+        throw new CaptionError(
+          'INVALID_FIELD',
+          `${field}.${property} must be from ${min} to ${max}`,
+          {
+            field,
+          }
+        );
+      }
+      return number;
+    };
+
+    const text = parseText(item.text ?? '', field);
+    const layer: CaptionLayer = {
+      text,
+      x: parseNumber('x', 0, 1),
+      y: parseNumber('y', 0, 1),
+      width: parseNumber('width', CAPTION_LAYER_MIN_WIDTH, 1),
+      rotation: parseNumber('rotation', -180, 180),
+    };
+
+    if (item.style !== undefined && item.style !== null) {
+      const style = parseCaptionStyle(item.style, `${field}.style`);
+      if (Object.keys(style).length > 0) layer.style = style;
+    }
+
+    if (text) layers.push(layer);
+  });
+
+  return layers;
+}
+
+/**
+ * Validates the per-slot caption styles against CaptionStyles and the bundled fonts
+ */
+function parseCaptionStyles(value: unknown): CaptionStyles {
+  if (!isPlainObject(value)) {
+    throw new CaptionError('INVALID_STYLE', 'styles must be an object', { field: 'styles' });
+  }
+
+  const styles: CaptionStyles = {};
+
+  for (const [slot, slotStyle] of Object.entries(value)) {
+    if (!CAPTION_SLOTS.includes(slot as CaptionSlot)) {
+      throw new CaptionError('INVALID_STYLE', `Unknown caption slot "${slot}"`, {
+        field: 'styles',
+      });
+    }
+    if (slotStyle === undefined || slotStyle === null) continue;
+
+    const style = parseCaptionStyle(slotStyle, `styles.${slot}`);
+    if (Object.keys(style).length > 0) styles[slot as CaptionSlot] = style;
+  }
+
+  return styles;
+}
+
+/**
+ * Validates the style of a single caption slot
+ */
+function parseCaptionStyle(value: unknown, field: string): CaptionStyle {
+  const invalid = (message: string) => new CaptionError('INVALID_STYLE', message, { field });
+
+  if (!isPlainObject(value)) throw invalid(`${field} must be an object`);
+
+  const unknownProperty = Object.keys(value).find(
+    (property) => !(property in ALLOWED_STYLE_PROPERTIES)
+  );
+  if (unknownProperty) throw invalid(`Unknown style property "${unknownProperty}"`);
+
+  const { fontFamily, fontSize, fill, stroke, strokeWidth, casing, align } = value as Record<
+    keyof CaptionStyle,
+    unknown
+  >;
+  const style: CaptionStyle = {};
+
+  if (fontFamily !== undefined) {
+    if (typeof fontFamily !== 'string' || !Object.keys(CAPTION_FONTS).includes(fontFamily)) {
+      throw invalid(`${field}.fontFamily must be one of ${Object.keys(CAPTION_FONTS).join(', ')}`);
+    }
+    style.fontFamily = fontFamily as CaptionStyle['fontFamily'];
+  }
+
+  if (fontSize !== undefined) {
+    if (
+      !Number.isInteger(fontSize) ||
+      (fontSize as number) < CAPTION_FONT_SIZE_RANGE.min ||
+      (fontSize as number) > CAPTION_FONT_SIZE_RANGE.max
+    ) {
+      throw invalid(
+        `${field}.fontSize must be an integer from ${CAPTION_FONT_SIZE_RANGE.min} to ${CAPTION_FONT_SIZE_RANGE.max}`
+      );
+    }
+    style.fontSize = fontSize as number;
+  }
+
+  for (const [property, color] of [
+    ['fill', fill],
+    ['stroke', stroke],
+  ] as const) {
+    if (color === undefined) continue;
+    if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) {
+      throw invalid(`${field}.${property} must be a #rrggbb color`);
+    }
+    style[property] = color.toLowerCase();
+  }
+
+  if (strokeWidth !== undefined) {
+    if (
+      typeof strokeWidth !== 'number' ||
+      !Number.isFinite(strokeWidth) ||
+      strokeWidth < 0 ||
+      strokeWidth > CAPTION_STROKE_WIDTH_MAX
+    ) {
+      throw invalid(`${field}.strokeWidth must be from 0 to ${CAPTION_STROKE_WIDTH_MAX}`);
+    }
+    style.strokeWidth = strokeWidth;
+  }
+
+  if (casing !== undefined) {
+    if (!CAPTION_CASINGS.includes(casing as CaptionStyle['casing'] & string)) {
+      throw invalid(`${field}.casing must be one of ${CAPTION_CASINGS.join(', ')}`);
+    }
+    style.casing = casing as CaptionStyle['casing'];
+  }
+
+  if (align !== undefined) {
+    if (!CAPTION_ALIGNS.includes(align as CaptionStyle['align'] & string)) {
+      throw invalid(`${field}.align must be one of ${CAPTION_ALIGNS.join(', ')}`);
+    }
+    style.align = align as CaptionStyle['align'];
+  }
+
+  return style;
+}
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
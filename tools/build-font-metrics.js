@@ -0,0 +1,51 @@
+// Builds the glyph advance widths and kerning pairs the server wraps captions with, from the fonts
+// the webview and the render backend draw captions with. Run again when a font changes.
+import { writeFileSync } from 'node:fs';
+import opentype from 'opentype.js';
+
+// Bundled font files by CSS family, as listed in CAPTION_FONTS
+const FONT_FILES = {
+  'DejaVu Sans': 'DejaVuSans-Bold.ttf',
+  'DejaVu Serif': 'DejaVuSerif-Bold.ttf',
+  'DejaVu Sans Mono': 'DejaVuSansMono-Bold.ttf',
+};
+
+const OUTPUT = new URL('../src/server/core/captions.metrics.json', import.meta.url);
+
+// Advance widths and kerning in font units, as opentype.js measures text with its default options
+function getMetrics(font) {
+  const chars = Object.entries(font.tables.cmap.glyphIndexMap).map(([codePoint, index]) => ({
+    char: String.fromCodePoint(Number(codePoint)),
+    index,
+  }));
+  const kerningLookups = font.position.getKerningTables(font.position.getDefaultScriptName());
+
+  const advances = {};
+  const kerning = {};
+  for (const left of chars) {
+    advances[left.char] = font.glyphs.get(left.index).advanceWidth ?? 0;
+    if (!kerningLookups) continue;
+
+    for (const right of chars) {
+      const value = font.position.getKerningValue(kerningLookups, left.index, right.index);
+      if (value) (kerning[left.char] ??= {})[right.char] = value;
+    }
+  }
+
+  return {
+    unitsPerEm: font.unitsPerEm,
+    // Characters missing from the font are drawn as its first glyph
+    missingAdvance: font.glyphs.get(0).advanceWidth ?? 0,
+    advances,
+    kerning,
+  };
+}
+
+const metrics = {};
+for (const [family, file] of Object.entries(FONT_FILES)) {
+  const font = opentype.loadSync(new URL(`../backend/fonts/${file}`, import.meta.url).pathname);
+  metrics[family] = getMetrics(font);
+}
+
+writeFileSync(OUTPUT, `${JSON.stringify(metrics, null, 2)}\n`);
+console.log(`Wrote the metrics of ${Object.keys(metrics).length} fonts to ${OUTPUT.pathname}`);